@@ -0,0 +1,44 @@
+import { workspace, ExtensionContext, Uri } from 'vscode';
+
+import {
+    BaseLanguageClient,
+    LanguageClient
+} from 'vscode-languageclient/browser';
+
+import { startClient, stopClient } from './tinderboxClient';
+
+// --- Browser Extension ---
+// The extension in vscode.dev and github.dev. The server runs in a web worker without a file system of
+// its own, so it reads and writes workspace files through the tinderbox/fs/* requests answered here.
+// Debugging needs the Node host and is not offered.
+
+export async function activate(context: ExtensionContext) {
+    const serverMain = Uri.joinPath(context.extensionUri, 'server', 'out', 'src', 'browserServer.js');
+
+    // Workspace files may be in any file system, e.g. a GitHub repository (vscode-vfs)
+    await startClient(context, (id, name, clientOptions) => {
+        const client = new LanguageClient(id, name, clientOptions, new Worker(serverMain.toString(true)));
+        registerFileSystemRequests(client);
+        return client;
+    });
+}
+
+// Registered before the client starts, since the server scans the workspace as soon as it is initialized
+function registerFileSystemRequests(client: BaseLanguageClient) {
+    client.onRequest('tinderbox/fs/readFile', async (params: { uri: string }): Promise<string> =>
+        new TextDecoder().decode(await workspace.fs.readFile(Uri.parse(params.uri))));
+    client.onRequest('tinderbox/fs/writeFile', (params: { uri: string, content: string }) =>
+        workspace.fs.writeFile(Uri.parse(params.uri), new TextEncoder().encode(params.content)));
+    client.onRequest('tinderbox/fs/stat', async (params: { uri: string }) => {
+        const stat = await workspace.fs.stat(Uri.parse(params.uri));
+        return { type: stat.type, mtime: stat.mtime, size: stat.size };
+    });
+    client.onRequest('tinderbox/fs/readDirectory', (params: { uri: string }) =>
+        workspace.fs.readDirectory(Uri.parse(params.uri)));
+    client.onRequest('tinderbox/fs/createDirectory', (params: { uri: string }) =>
+        workspace.fs.createDirectory(Uri.parse(params.uri)));
+}
+
+export function deactivate(): Thenable<void> | undefined {
+    return stopClient();
+}
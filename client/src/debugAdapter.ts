@@ -0,0 +1,342 @@
+import * as path from 'path';
+import { DebugAdapter, DebugProtocolMessage, EventEmitter, Uri } from 'vscode';
+
+// A variable or attribute as recorded by the server; lists and dictionaries have items
+export interface DebugVariable {
+    name: string;
+    type: string;
+    value: string;
+    items?: DebugVariable[];
+}
+
+interface DebugPosition {
+    line: number;
+    character: number;
+}
+
+interface DebugLocation {
+    uri: string;
+    range: { start: DebugPosition, end: DebugPosition };
+}
+
+interface DebugFrame extends DebugLocation {
+    name: string;
+    variables: DebugVariable[];
+}
+
+interface DebugStep {
+    frames: DebugFrame[]; // Innermost first
+    note?: string;
+    attributes: DebugVariable[];
+}
+
+// Reply to 'tinderbox/debugRun': the state before every statement of one run
+export interface DebugRunResult {
+    steps: DebugStep[];
+    changes: { note: string, attribute: string, before: string, after: string }[];
+    value?: string;
+    type?: string;
+    error?: DebugLocation & { message: string };
+}
+
+export interface LaunchArguments {
+    program: string; // Path of the .tbxa file
+    fixture: string; // Path of the *.tbxfixture.json file
+    note: string; // Outline path or name of the fixture note
+    stopOnEntry?: boolean;
+}
+
+interface Request {
+    seq: number;
+    command: string;
+    arguments?: any;
+}
+
+const THREAD_ID = 1;
+
+// Debug Adapter Protocol session for Action Code. The server runs the code on a fixture note once and
+// returns a recording of it (see the server's debugging.ts); this session steps through the recording,
+// so stepping back is as cheap as stepping forward. It runs inside the extension host.
+export class ActionCodeDebugSession implements DebugAdapter {
+    private readonly messages = new EventEmitter<DebugProtocolMessage>();
+    readonly onDidSendMessage = this.messages.event;
+
+    private seq = 1;
+    private linesStartAt1 = true;
+    private columnsStartAt1 = true;
+    private readonly breakpoints = new Map<string, Set<number>>(); // Document URI -> 0-based lines
+    private recording: DebugRunResult | undefined;
+    private stopOnEntry = false;
+    private configured = false; // configurationDone was received
+    private index = -1; // Current step; steps.length while stopped on the error
+    private handles = new Map<number, DebugVariable[]>(); // variablesReference -> variables, until the next stop
+
+    constructor(private readonly run: (args: LaunchArguments) => Promise<DebugRunResult>) { }
+
+    handleMessage(message: DebugProtocolMessage): void {
+        const request = message as Request;
+        this.dispatch(request).catch(err => this.respond(request, undefined, err instanceof Error ? err.message : String(err)));
+    }
+
+    dispose(): void {
+        this.messages.dispose();
+    }
+
+    private send(message: object) {
+        this.messages.fire({ seq: this.seq++, ...message });
+    }
+
+    private respond(request: Request, body?: object, error?: string) {
+        this.send({ type: 'response', request_seq: request.seq, command: request.command, success: error === undefined, message: error, body });
+    }
+
+    private sendEvent(event: string, body?: object) {
+        this.send({ type: 'event', event, body });
+    }
+
+    private async dispatch(request: Request) {
+        const args = request.arguments || {};
+        switch (request.command) {
+            case 'initialize':
+                this.linesStartAt1 = args.linesStartAt1 !== false;
+                this.columnsStartAt1 = args.columnsStartAt1 !== false;
+                this.respond(request, {
+                    supportsConfigurationDoneRequest: true,
+                    supportsStepBack: true,
+                    supportsEvaluateForHovers: true
+                });
+                this.sendEvent('initialized');
+                return;
+            case 'launch': {
+                const launch = args as LaunchArguments;
+                this.recording = await this.run(launch);
+                this.stopOnEntry = !!launch.stopOnEntry;
+                this.respond(request);
+                if (this.configured) this.start();
+                return;
+            }
+            case 'setBreakpoints': {
+                const uri = this.toUri(args.source.path);
+                const lines: number[] = (args.breakpoints || []).map((bp: { line: number }) => bp.line - (this.linesStartAt1 ? 1 : 0));
+                this.breakpoints.set(uri, new Set(lines));
+                this.respond(request, { breakpoints: lines.map(line => ({ verified: true, line: line + (this.linesStartAt1 ? 1 : 0) })) });
+                return;
+            }
+            case 'configurationDone':
+                this.configured = true;
+                this.respond(request);
+                if (this.recording) this.start();
+                return;
+            case 'threads':
+                this.respond(request, { threads: [{ id: THREAD_ID, name: this.recording?.steps[0]?.note ?? 'Action Code' }] });
+                return;
+            case 'stackTrace': {
+                const frames = this.currentFrames();
+                this.respond(request, {
+                    stackFrames: frames.map((frame, id) => ({
+                        id,
+                        name: frame.name,
+                        source: { name: path.basename(Uri.parse(frame.uri).path), path: this.toPath(frame.uri) },
+                        line: frame.range.start.line + (this.linesStartAt1 ? 1 : 0),
+                        column: frame.range.start.character + (this.columnsStartAt1 ? 1 : 0),
+                        endLine: frame.range.end.line + (this.linesStartAt1 ? 1 : 0),
+                        endColumn: frame.range.end.character + (this.columnsStartAt1 ? 1 : 0)
+                    })),
+                    totalFrames: frames.length
+                });
+                return;
+            }
+            case 'scopes': {
+                const frame = this.currentFrames()[args.frameId];
+                const step = this.currentStep();
+                const scopes = [{ name: 'Locals', presentationHint: 'locals', variablesReference: this.handle(frame?.variables || []), expensive: false }];
+                if (step?.note) {
+                    scopes.push({ name: `Note ${step.note}`, presentationHint: 'registers', variablesReference: this.handle(step.attributes), expensive: false });
+                }
+                this.respond(request, { scopes });
+                return;
+            }
+            case 'variables':
+                this.respond(request, {
+                    variables: (this.handles.get(args.variablesReference) || []).map(variable => this.toProtocolVariable(variable))
+                });
+                return;
+            case 'evaluate': {
+                // Only names can be shown: variables of the frame and attributes of the note
+                const name = String(args.expression).trim();
+                const frame = this.currentFrames()[args.frameId ?? 0];
+                const variable = name.startsWith('$')
+                    ? this.currentStep()?.attributes.find(attr => attr.name.toLowerCase() === name.toLowerCase())
+                    : frame?.variables.find(v => v.name === name);
+                if (!variable) {
+                    this.respond(request, undefined, `'${name}' is not a variable or an attribute with a value here.`);
+                    return;
+                }
+                const { value, type, variablesReference } = this.toProtocolVariable(variable);
+                this.respond(request, { result: value, type, variablesReference });
+                return;
+            }
+            case 'continue':
+                this.respond(request, { allThreadsContinued: true });
+                this.forward(() => false);
+                return;
+            case 'next': {
+                this.respond(request);
+                const depth = this.currentFrames().length;
+                this.forward(step => step.frames.length <= depth);
+                return;
+            }
+            case 'stepIn':
+                this.respond(request);
+                this.forward(() => true);
+                return;
+            case 'stepOut': {
+                this.respond(request);
+                const depth = this.currentFrames().length;
+                this.forward(step => step.frames.length < depth);
+                return;
+            }
+            case 'stepBack':
+                this.respond(request);
+                this.backward(() => true);
+                return;
+            case 'reverseContinue':
+                this.respond(request);
+                this.backward(() => false);
+                return;
+            case 'pause':
+                // The recording is never running
+                this.respond(request);
+                this.stop('pause');
+                return;
+            case 'disconnect':
+            case 'terminate':
+                this.respond(request);
+                return;
+        }
+        this.respond(request, undefined, `'${request.command}' is not supported.`);
+    }
+
+    private toUri(sourcePath: string): string {
+        return /^[a-z][\w+.-]+:\/\//i.test(sourcePath) ? sourcePath : Uri.file(sourcePath).toString();
+    }
+
+    private toPath(uri: string): string {
+        const parsed = Uri.parse(uri);
+        return parsed.scheme === 'file' ? parsed.fsPath : uri;
+    }
+
+    private handle(variables: DebugVariable[]): number {
+        const reference = this.handles.size + 1;
+        this.handles.set(reference, variables);
+        return reference;
+    }
+
+    private toProtocolVariable(variable: DebugVariable) {
+        return {
+            name: variable.name,
+            value: variable.value,
+            type: variable.type,
+            variablesReference: variable.items && variable.items.length > 0 ? this.handle(variable.items) : 0
+        };
+    }
+
+    private currentStep(): DebugStep | undefined {
+        const steps = this.recording?.steps || [];
+        return steps[Math.min(this.index, steps.length - 1)];
+    }
+
+    // When stopped on the error, the innermost frame is at the error
+    private currentFrames(): DebugFrame[] {
+        const recording = this.recording;
+        if (!recording) return [];
+        if (this.index < recording.steps.length) return recording.steps[this.index]?.frames || [];
+        const error = recording.error!;
+        const [innermost, ...outer] = recording.steps[recording.steps.length - 1]?.frames || [];
+        return [{ name: innermost?.name ?? '(rule)', variables: innermost?.variables || [], uri: error.uri, range: error.range }, ...outer];
+    }
+
+    // Whether a step is at a breakpoint. Later statements on the same line do not stop again,
+    // unless a loop went back to the start of it.
+    private isAtBreakpoint(index: number): boolean {
+        const steps = this.recording!.steps;
+        const location = steps[index].frames[0];
+        if (!location || !this.breakpoints.get(location.uri)?.has(location.range.start.line)) return false;
+        const previous = index > 0 ? steps[index - 1].frames[0] : undefined;
+        return !previous || previous.uri !== location.uri || previous.range.start.line !== location.range.start.line
+            || previous.range.start.character >= location.range.start.character;
+    }
+
+    private start() {
+        if (this.stopOnEntry && this.recording!.steps.length > 0) {
+            this.index = 0;
+            this.stop('entry');
+        } else {
+            this.index = -1;
+            this.forward(() => false);
+        }
+    }
+
+    private forward(stopAt: (step: DebugStep) => boolean) {
+        const recording = this.recording!;
+        for (let i = this.index + 1; i < recording.steps.length; i++) {
+            const atBreakpoint = this.isAtBreakpoint(i);
+            if (atBreakpoint || stopAt(recording.steps[i])) {
+                this.index = i;
+                this.stop(atBreakpoint ? 'breakpoint' : 'step');
+                return;
+            }
+        }
+        if (recording.error && this.index < recording.steps.length) {
+            this.index = recording.steps.length;
+            this.stop('exception', recording.error.message);
+            return;
+        }
+        this.finish();
+    }
+
+    private backward(stopAt: (step: DebugStep) => boolean) {
+        const steps = this.recording!.steps;
+        for (let i = Math.min(this.index, steps.length) - 1; i > 0; i--) {
+            const atBreakpoint = this.isAtBreakpoint(i);
+            if (atBreakpoint || stopAt(steps[i])) {
+                this.index = i;
+                this.stop(atBreakpoint ? 'breakpoint' : 'step');
+                return;
+            }
+        }
+        this.index = 0;
+        this.stop('entry');
+    }
+
+    private stop(reason: string, text?: string) {
+        this.handles = new Map();
+        this.sendEvent('stopped', {
+            reason,
+            threadId: THREAD_ID,
+            allThreadsStopped: true,
+            description: text && 'Evaluation error',
+            text
+        });
+    }
+
+    // Lists what the run did, in the debug console
+    private finish() {
+        const recording = this.recording!;
+        const output = (text: string, category = 'console') => this.sendEvent('output', { category, output: text + '\n' });
+        if (recording.error) {
+            output(`Error: ${recording.error.message}`, 'stderr');
+        }
+        for (const change of recording.changes) {
+            output(`${change.note}  $${change.attribute}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`);
+        }
+        if (recording.changes.length === 0) {
+            output('No attribute changes.');
+        }
+        if (recording.type !== undefined) {
+            output(`Value: ${recording.value} : ${recording.type}`);
+        }
+        this.sendEvent('exited', { exitCode: recording.error ? 1 : 0 });
+        this.sendEvent('terminated');
+    }
+}
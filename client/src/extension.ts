@@ -1,14 +1,18 @@
 import * as path from 'path';
-import { workspace, ExtensionContext } from 'vscode';
+import {
+    workspace, window, ExtensionContext, Uri,
+    debug, DebugAdapterInlineImplementation, DebugConfiguration, ProviderResult
+} from 'vscode';
 
 import {
+    BaseLanguageClient,
     LanguageClient,
-    LanguageClientOptions,
     ServerOptions,
     TransportKind
 } from 'vscode-languageclient/node';
 
-let client: LanguageClient;
+import { ActionCodeDebugSession, DebugRunResult, LaunchArguments } from './debugAdapter';
+import { FixtureNoteInfo, pickFixture, toFixtureNoteItem, startClient, stopClient } from './tinderboxClient';
 
 export async function activate(context: ExtensionContext) {
     // The server is implemented in node
@@ -30,34 +34,65 @@ export async function activate(context: ExtensionContext) {
         }
     };
 
-    // Options to control the language client
-    const clientOptions: LanguageClientOptions = {
-        // Register the server for plain text documents
-        documentSelector: [
-            { scheme: 'file', language: 'tinderbox-action-code' },
-            { scheme: 'file', language: 'tinderbox-export-code' }
-        ],
-        synchronize: {
-            // Notify the server about file changes to '.clientrc files contained in the workspace
-            fileEvents: workspace.createFileSystemWatcher('**/.clientrc')
-        }
-    };
+    // The Node server reads workspace files from disk
+    const client = await startClient(context,
+        (id, name, clientOptions) => new LanguageClient(id, name, serverOptions, clientOptions), 'file');
+    registerDebugger(context, client);
+}
 
-    // Create the language client and start the client.
-    client = new LanguageClient(
-        'tinderboxActionCodeServer',
-        'Tinderbox Action Code Server',
-        serverOptions,
-        clientOptions
-    );
+const DEBUG_TYPE = 'tinderbox-action-code';
 
-    // Start the client. This will also launch the server
-    await client.start();
+// Debugging runs a .tbxa file on a fixture note, as a rule or edict, and steps through the run
+// (see debugAdapter.ts). The fixture and the note are asked for unless launch.json names them.
+function registerDebugger(context: ExtensionContext, client: BaseLanguageClient) {
+    context.subscriptions.push(debug.registerDebugConfigurationProvider(DEBUG_TYPE, {
+        resolveDebugConfiguration(_folder, config: DebugConfiguration): ProviderResult<DebugConfiguration> {
+            // F5 without a launch.json debugs the active file
+            if (!config.type && !config.request && !config.name) {
+                if (window.activeTextEditor?.document.languageId !== 'tinderbox-action-code') {
+                    window.showInformationMessage('Open a .tbxa file to debug it on a fixture note.');
+                    return undefined;
+                }
+                Object.assign(config, { type: DEBUG_TYPE, request: 'launch', name: 'Debug on Fixture Note', stopOnEntry: true });
+            }
+            config.program = config.program || '${file}';
+            return config;
+        },
+
+        async resolveDebugConfigurationWithSubstitutedVariables(_folder, config: DebugConfiguration): Promise<DebugConfiguration | undefined> {
+            if (!config.fixture) {
+                const fixture = await pickFixture();
+                if (!fixture) return undefined;
+                config.fixture = fixture.fsPath;
+            }
+            if (!config.note) {
+                let notes: FixtureNoteInfo[];
+                try {
+                    notes = await client.sendRequest('tinderbox/fixtureNotes', { fixture: Uri.file(config.fixture).toString() });
+                } catch (err: any) {
+                    window.showErrorMessage(err?.message ?? String(err));
+                    return undefined;
+                }
+                const picked = await window.showQuickPick(notes.map(toFixtureNoteItem), { placeHolder: 'Select the note to run the code on' });
+                if (!picked) return undefined;
+                config.note = picked.label;
+            }
+            return config;
+        }
+    }));
+
+    context.subscriptions.push(debug.registerDebugAdapterDescriptorFactory(DEBUG_TYPE, {
+        createDebugAdapterDescriptor() {
+            return new DebugAdapterInlineImplementation(new ActionCodeDebugSession((args: LaunchArguments) =>
+                client.sendRequest<DebugRunResult>('tinderbox/debugRun', {
+                    textDocument: { uri: Uri.file(args.program).toString() },
+                    fixture: Uri.file(args.fixture).toString(),
+                    note: args.note
+                })));
+        }
+    }));
 }
 
 export function deactivate(): Thenable<void> | undefined {
-    if (!client) {
-        return undefined;
-    }
-    return client.stop();
+    return stopClient();
 }
@@ -0,0 +1,350 @@
+import {
+    workspace, window, commands, languages, ExtensionContext, EventEmitter, Uri, Disposable,
+    FileSystemProvider, FileSystemError, FileChangeEvent, FileChangeType, FileStat, FileType,
+    Selection, TextEditorRevealType, TextEditor, OutputChannel
+} from 'vscode';
+
+import {
+    BaseLanguageClient,
+    LanguageClientOptions
+} from 'vscode-languageclient';
+
+// --- Tinderbox Client ---
+// The language client and the commands built on it, for both hosts of the extension: extension.ts
+// starts it with the Node server, browserExtension.ts (vscode.dev, github.dev) with the web worker one.
+
+let client: BaseLanguageClient;
+
+// Action code stored in .tbx notes, served by the language server (e.g. tinderbox-note://doc.tbx/Path/To/Note?tbx=...&note=...#Rule)
+const NOTE_DOCUMENT_SCHEME = 'tinderbox-note';
+
+// Creates the language client of the host for the given options; it is started by startClient
+export type LanguageClientFactory = (id: string, name: string, clientOptions: LanguageClientOptions) => BaseLanguageClient;
+
+// fileScheme: scheme of the workspace documents to serve, or undefined for any (e.g. vscode-vfs in the browser)
+export async function startClient(context: ExtensionContext, createClient: LanguageClientFactory, fileScheme?: string): Promise<BaseLanguageClient> {
+    // Options to control the language client
+    const clientOptions: LanguageClientOptions = {
+        // Register the server for plain text documents
+        documentSelector: [
+            { scheme: fileScheme, language: 'tinderbox-action-code' },
+            { scheme: fileScheme, language: 'tinderbox-export-code' },
+            { scheme: NOTE_DOCUMENT_SCHEME, language: 'tinderbox-action-code' }
+        ],
+        synchronize: {
+            // Notify the server about file changes to '.clientrc files and user attribute declarations
+            fileEvents: [
+                workspace.createFileSystemWatcher('**/.clientrc'),
+                workspace.createFileSystemWatcher('**/{tinderbox-attributes.json,*.tbxattrs}'),
+                workspace.createFileSystemWatcher('**/*.tbx'),
+                workspace.createFileSystemWatcher('**/*.{tbxa,tbxc,tbxe,tbxtest}')
+            ]
+        },
+        // The server keeps its workspace index there between sessions
+        initializationOptions: {
+            globalStorageUri: context.globalStorageUri.toString()
+        }
+    };
+
+    // Create the language client and start the client.
+    client = createClient(
+        'tinderboxActionCodeServer',
+        'Tinderbox Action Code Server',
+        clientOptions
+    );
+
+    // Start the client. This will also launch the server
+    await client.start();
+
+    registerNoteDocuments(context);
+    registerEvaluation(context);
+    registerSimulation(context);
+    registerAgentQueries(context);
+    registerTests(context);
+    return client;
+}
+
+export function stopClient(): Thenable<void> | undefined {
+    if (!client) {
+        return undefined;
+    }
+    return client.stop();
+}
+
+// Note documents are files of a read/write file system backed by the server, so saving one
+// writes the code back into the .tbx file. Only the file operations an editor needs are supported.
+class NoteDocumentFileSystem implements FileSystemProvider {
+    private readonly changes = new EventEmitter<FileChangeEvent[]>();
+    readonly onDidChangeFile = this.changes.event;
+
+    fireChanged(uris: Uri[]) {
+        if (uris.length > 0) {
+            this.changes.fire(uris.map(uri => ({ type: FileChangeType.Changed, uri })));
+        }
+    }
+
+    watch(): Disposable {
+        // Changes are pushed by the server through 'tinderbox/noteDocumentsChanged'
+        return new Disposable(() => { });
+    }
+
+    async stat(uri: Uri): Promise<FileStat> {
+        const stat = await client.sendRequest<{ mtime: number, size: number } | null>('tinderbox/noteDocumentStat', { uri: uri.toString() });
+        if (!stat) throw FileSystemError.FileNotFound(uri);
+        return { type: FileType.File, ctime: stat.mtime, mtime: stat.mtime, size: stat.size };
+    }
+
+    async readFile(uri: Uri): Promise<Uint8Array> {
+        const content = await client.sendRequest<string | null>('tinderbox/noteDocumentContent', { uri: uri.toString() });
+        if (content === null) throw FileSystemError.FileNotFound(uri);
+        return new TextEncoder().encode(content);
+    }
+
+    async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
+        try {
+            await client.sendRequest('tinderbox/writeNoteDocument', { uri: uri.toString(), content: new TextDecoder().decode(content) });
+        } catch (err: any) {
+            // e.g. the .tbx file was changed by Tinderbox since it was read
+            window.showErrorMessage(err?.message ?? String(err));
+            throw FileSystemError.Unavailable(uri);
+        }
+    }
+
+    readDirectory(): [string, FileType][] {
+        return [];
+    }
+
+    createDirectory(uri: Uri): void {
+        throw FileSystemError.NoPermissions(uri);
+    }
+
+    delete(uri: Uri): void {
+        throw FileSystemError.NoPermissions(uri);
+    }
+
+    rename(uri: Uri): void {
+        throw FileSystemError.NoPermissions(uri);
+    }
+}
+
+function registerNoteDocuments(context: ExtensionContext) {
+    const fileSystem = new NoteDocumentFileSystem();
+    context.subscriptions.push(
+        workspace.registerFileSystemProvider(NOTE_DOCUMENT_SCHEME, fileSystem, { isCaseSensitive: true }),
+        // Note documents have no file extension to pick the language from
+        workspace.onDidOpenTextDocument(doc => {
+            if (doc.uri.scheme === NOTE_DOCUMENT_SCHEME && doc.languageId !== 'tinderbox-action-code') {
+                languages.setTextDocumentLanguage(doc, 'tinderbox-action-code');
+            }
+        }),
+        commands.registerCommand('tinderboxActionCode.openNoteDocument', async () => {
+            const items = await client.sendRequest<{ uri: string, label: string, description: string }[]>('tinderbox/noteDocuments');
+            if (items.length === 0) {
+                window.showInformationMessage('No action code was found in the .tbx files of this workspace.');
+                return;
+            }
+            const picked = await window.showQuickPick(items, { placeHolder: 'Select a note rule, edict, agent query or stamp' });
+            if (picked) {
+                await window.showTextDocument(Uri.parse(picked.uri));
+            }
+        })
+    );
+
+    // The server re-reads a .tbx file when it changes on disk; refresh any of its notes that are open
+    context.subscriptions.push(client.onNotification('tinderbox/noteDocumentsChanged', () => {
+        fileSystem.fireChanged(workspace.textDocuments
+            .filter(doc => doc.uri.scheme === NOTE_DOCUMENT_SCHEME)
+            .map(doc => doc.uri));
+    }));
+}
+
+interface EvaluateResult {
+    value?: string;
+    type?: string;
+    attributes?: { [name: string]: string };
+    error?: string;
+    range?: { start: { line: number, character: number }, end: { line: number, character: number } };
+}
+
+// "Evaluate Selection" runs the selected code, or the current line, with the attribute values
+// from the tinderboxActionCodeServer.evaluate.attributes setting
+function registerEvaluation(context: ExtensionContext) {
+    context.subscriptions.push(commands.registerTextEditorCommand('tinderboxActionCode.evaluateSelection', async editor => {
+        const range = editor.selection.isEmpty ? editor.document.lineAt(editor.selection.active.line).range : editor.selection;
+        const attributes = workspace.getConfiguration('tinderboxActionCodeServer', editor.document.uri).get<object>('evaluate.attributes', {});
+        const result = await client.sendRequest<EvaluateResult>('tinderbox/evaluate', {
+            textDocument: { uri: editor.document.uri.toString() },
+            range: client.code2ProtocolConverter.asRange(range),
+            attributes
+        });
+
+        if (result.error) {
+            showEvaluationError(editor, result.error, result.range);
+            return;
+        }
+        const parts: string[] = [];
+        if (result.type !== undefined) {
+            parts.push(`${result.value === '' ? '(empty)' : result.value} : ${result.type}`);
+        }
+        for (const [name, value] of Object.entries(result.attributes || {})) {
+            parts.push(`$${name} = ${value}`);
+        }
+        window.showInformationMessage(parts.length > 0 ? parts.join('  |  ') : 'The code produced no value.');
+    }));
+}
+
+// Selects the code an evaluation error refers to
+function showEvaluationError(editor: TextEditor, message: string, range?: EvaluateResult['range']) {
+    if (range) {
+        const errorRange = client.protocol2CodeConverter.asRange(range);
+        editor.selection = new Selection(errorRange.start, errorRange.end);
+        editor.revealRange(errorRange, TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+    window.showErrorMessage(message);
+}
+
+interface SimulateResult extends EvaluateResult {
+    changes: { note: string, attribute: string, before: string, after: string }[];
+}
+
+// Simulation and agent query results share one output channel
+let fixtureOutput: OutputChannel | undefined;
+
+function getFixtureOutput(context: ExtensionContext): OutputChannel {
+    if (!fixtureOutput) {
+        fixtureOutput = window.createOutputChannel('Tinderbox Simulation');
+        context.subscriptions.push(fixtureOutput);
+    }
+    return fixtureOutput;
+}
+
+// Fixtures are *.tbxfixture.json mock documents; the only one is used without asking
+export async function pickFixture(): Promise<Uri | undefined> {
+    const fixtures = await workspace.findFiles('**/*.tbxfixture.json', '**/node_modules/**');
+    if (fixtures.length === 0) {
+        window.showInformationMessage('No fixture was found. Describe a mock document in a *.tbxfixture.json file first.');
+        return undefined;
+    }
+    if (fixtures.length === 1) return fixtures[0];
+    const picked = await window.showQuickPick(
+        fixtures.map(uri => ({ label: workspace.asRelativePath(uri), uri })),
+        { placeHolder: 'Select a fixture' });
+    return picked?.uri;
+}
+
+export interface FixtureNoteInfo {
+    path: string;
+    prototype?: string;
+    isPrototype: boolean;
+}
+
+export function toFixtureNoteItem(note: FixtureNoteInfo) {
+    return { label: note.path, description: note.isPrototype ? 'prototype' : note.prototype };
+}
+
+// "Simulate on Fixture Notes" runs the selected code, or the whole document, as a rule, edict or stamp
+// on notes of a fixture and lists the attribute changes
+function registerSimulation(context: ExtensionContext) {
+    context.subscriptions.push(commands.registerTextEditorCommand('tinderboxActionCode.simulateOnFixture', async editor => {
+        const fixture = await pickFixture();
+        if (!fixture) return;
+
+        let notes: FixtureNoteInfo[];
+        try {
+            notes = await client.sendRequest('tinderbox/fixtureNotes', { fixture: fixture.toString() });
+        } catch (err: any) {
+            window.showErrorMessage(err?.message ?? String(err));
+            return;
+        }
+        const picked = await window.showQuickPick(
+            notes.map(toFixtureNoteItem),
+            { placeHolder: 'Select the notes to run the code on (several for a stamp)', canPickMany: true });
+        if (!picked || picked.length === 0) return;
+
+        const result = await client.sendRequest<SimulateResult>('tinderbox/simulate', {
+            textDocument: { uri: editor.document.uri.toString() },
+            range: editor.selection.isEmpty ? undefined : client.code2ProtocolConverter.asRange(editor.selection),
+            fixture: fixture.toString(),
+            notes: picked.map(item => item.label)
+        });
+        if (result.error) {
+            showEvaluationError(editor, result.error, result.range);
+            return;
+        }
+
+        const output = getFixtureOutput(context);
+        output.appendLine(`${editor.document.uri.path.split('/').pop()} on ${picked.map(item => item.label).join(', ')} (${workspace.asRelativePath(fixture)})`);
+        for (const change of result.changes) {
+            output.appendLine(`  ${change.note}  $${change.attribute}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`);
+        }
+        if (result.changes.length === 0) {
+            output.appendLine('  No attribute changes.');
+        }
+        if (result.type !== undefined) {
+            output.appendLine(`  Value: ${result.value} : ${result.type}`);
+        }
+        output.appendLine('');
+        output.show(true);
+    }));
+}
+
+interface RunAgentQueryResult extends EvaluateResult {
+    matches: string[];
+    notes: { path: string, matched: boolean, failures: { message: string }[] }[];
+}
+
+// "Run Agent Query on Fixture" lists the fixture notes the selected query (or the whole document)
+// matches, and why each other note does not
+function registerAgentQueries(context: ExtensionContext) {
+    context.subscriptions.push(commands.registerTextEditorCommand('tinderboxActionCode.runAgentQueryOnFixture', async editor => {
+        const fixture = await pickFixture();
+        if (!fixture) return;
+
+        const range = editor.selection.isEmpty ? undefined : editor.selection;
+        let result: RunAgentQueryResult;
+        try {
+            result = await client.sendRequest<RunAgentQueryResult>('tinderbox/runAgentQuery', {
+                textDocument: { uri: editor.document.uri.toString() },
+                range: range && client.code2ProtocolConverter.asRange(range),
+                fixture: fixture.toString()
+            });
+        } catch (err: any) {
+            window.showErrorMessage(err?.message ?? String(err));
+            return;
+        }
+        if (result.error) {
+            showEvaluationError(editor, result.error, result.range);
+            return;
+        }
+
+        const output = getFixtureOutput(context);
+        output.appendLine(`Agent query ${editor.document.getText(range).trim()} (${workspace.asRelativePath(fixture)})`);
+        output.appendLine(`  ${result.matches.length} of ${result.notes.length} notes match`);
+        for (const note of result.notes) {
+            output.appendLine(note.matched ? `  + ${note.path}` : `  - ${note.path}: ${note.failures.map(f => f.message).join('; ')}`);
+        }
+        output.appendLine('');
+        output.show(true);
+    }));
+}
+
+// The server runs the @test annotations; failures appear as diagnostics and in the code lenses
+function registerTests(context: ExtensionContext) {
+    context.subscriptions.push(commands.registerTextEditorCommand('tinderboxActionCode.runTestsInFile', async editor => {
+        let result: { passed: number, failed: number };
+        try {
+            result = await commands.executeCommand('tinderboxActionCode.runTests', editor.document.uri.toString());
+        } catch (err: any) {
+            window.showErrorMessage(err?.message ?? String(err));
+            return;
+        }
+        if (result.passed + result.failed === 0) {
+            window.showInformationMessage('No @test or @expect annotations in this file.');
+        } else if (result.failed > 0) {
+            window.showWarningMessage(`${result.passed} passed, ${result.failed} failed`);
+        } else {
+            window.showInformationMessage(`${result.passed} passed`);
+        }
+    }));
+}
+
@@ -55,6 +55,56 @@ async function main() {
 			plugins: [
 				esbuildProblemMatcherPlugin,
 			],
+		}),
+		// Command line tools, which start the server above
+		esbuild.context({
+			entryPoints: ['server/src/lint.ts', 'server/src/fmt.ts'],
+			bundle: true,
+			format: 'cjs',
+			minify: production,
+			sourcemap: !production,
+			sourcesContent: false,
+			platform: 'node',
+			outdir: 'server/out/src',
+			logLevel: 'silent',
+			plugins: [
+				esbuildProblemMatcherPlugin,
+			],
+		}),
+		// Browser client (vscode.dev, github.dev)
+		esbuild.context({
+			entryPoints: ['client/src/browserExtension.ts'],
+			bundle: true,
+			format: 'cjs',
+			minify: production,
+			sourcemap: !production,
+			sourcesContent: false,
+			platform: 'browser',
+			outfile: 'client/out/src/browserExtension.js',
+			external: ['vscode'],
+			logLevel: 'silent',
+			plugins: [
+				esbuildProblemMatcherPlugin,
+			],
+		}),
+		// Browser server, run in a web worker with the resource files bundled in
+		esbuild.context({
+			entryPoints: ['server/src/browserServer.ts'],
+			bundle: true,
+			format: 'iife',
+			minify: production,
+			sourcemap: !production,
+			sourcesContent: false,
+			platform: 'browser',
+			outfile: 'server/out/src/browserServer.js',
+			loader: {
+				'.csv': 'text',
+				'.txt': 'text',
+			},
+			logLevel: 'silent',
+			plugins: [
+				esbuildProblemMatcherPlugin,
+			],
 		})
 	]);
 
@@ -0,0 +1,36 @@
+import { createConnection, BrowserMessageReader, BrowserMessageWriter } from 'vscode-languageserver/browser';
+import { createClientFileSystem } from './fileSystem';
+import { startServer } from './tinderboxServer';
+import operators from '../../resource/operators.csv';
+import functionList from '../../resource/actioncodefunctionlist.txt';
+import reservedList from '../../resource/reserved_list.txt';
+import systemAttributes from '../../resource/system_attributes.csv';
+import dataTypes from '../../resource/data_types.csv';
+import designators from '../../resource/designator.csv';
+import colors from '../../resource/colors.csv';
+import exportTags from '../../resource/export_tags.csv';
+
+// --- Browser Server ---
+// The language server for vscode.dev and github.dev, run by the browser client in a web worker.
+// There is no file system: the resource files are bundled in (esbuild's text loader, see esbuild.js),
+// and workspace files are read and written through the client.
+
+declare const self: DedicatedWorkerGlobalScope;
+
+const RESOURCES = new Map<string, string>([
+    ['operators.csv', operators],
+    ['actioncodefunctionlist.txt', functionList],
+    ['reserved_list.txt', reservedList],
+    ['system_attributes.csv', systemAttributes],
+    ['data_types.csv', dataTypes],
+    ['designator.csv', designators],
+    ['colors.csv', colors],
+    ['export_tags.csv', exportTags]
+]);
+
+const connection = createConnection(new BrowserMessageReader(self), new BrowserMessageWriter(self));
+
+startServer(connection, {
+    fileSystem: createClientFileSystem(connection),
+    readResource: async name => RESOURCES.get(name)
+});
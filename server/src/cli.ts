@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// --- Command Line Helpers ---
+// Shared by tbx-lint and tbx-fmt.
+
+export const CODE_EXTENSIONS = ['.tbxa', '.tbxc', '.tbxe'];
+
+// Bad arguments; reported with a pointer to --help and exit code 2
+export class UsageError extends Error { }
+
+export function getLanguageId(file: string): string {
+    return path.extname(file).toLowerCase() === '.tbxe' ? 'tinderbox-export-code' : 'tinderbox-action-code';
+}
+
+// Adds the file, or the code files in the directory and its subdirectories, to files. Hidden folders
+// and node_modules are skipped.
+export function findFiles(target: string, files: string[]) {
+    const stat = fs.statSync(target, { throwIfNoEntry: false });
+    if (!stat) throw new UsageError(`'${target}' does not exist.`);
+    if (stat.isFile()) {
+        files.push(path.resolve(target));
+        return;
+    }
+    for (const entry of fs.readdirSync(target, { withFileTypes: true })) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+        const fullPath = path.join(target, entry.name);
+        if (entry.isDirectory()) {
+            findFiles(fullPath, files);
+        } else if (entry.isFile() && CODE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+            files.push(path.resolve(fullPath));
+        }
+    }
+}
+
+// Path relative to the current directory, with forward slashes, for output
+export function toDisplayPath(file: string): string {
+    return path.relative(process.cwd(), file).split(path.sep).join('/');
+}
+
+export function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// Prints the error and returns the exit code for it
+export function reportFailure(tool: string, err: unknown): number {
+    process.stderr.write(`${tool}: ${err instanceof Error ? err.message : String(err)}\n`);
+    if (err instanceof UsageError) process.stderr.write(`Run '${tool} --help' for usage.\n`);
+    return 2;
+}
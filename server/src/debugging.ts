@@ -0,0 +1,96 @@
+import { Value, EvaluationError, LibraryFunction, evaluate, toText } from './interpreter';
+import { Fixture, FixtureNote, FixtureHost, AttributeChange, SimulationOptions } from './fixture';
+
+// --- Debugging ---
+// Code is run once on a fixture note as a rule would be, recording the variables and the note's
+// attributes before every statement. A debugger then steps through the recording, in either
+// direction, without running the code again. Runs are deterministic, so nothing is lost.
+
+export interface DebugVariable {
+    name: string;
+    type: string;
+    value: string; // Display text; strings are quoted
+    items?: DebugVariable[]; // Items of lists and sets, entries of dictionaries
+}
+
+export interface DebugFrame {
+    name: string; // Function name, or '(rule)' for the code itself
+    source?: string; // Source of the function's text (see LibraryFunction), undefined for the code itself
+    start: number; // Offsets of the statement being run, or of the call for outer frames
+    end: number;
+    variables: DebugVariable[];
+}
+
+export interface DebugStep {
+    frames: DebugFrame[]; // Innermost first
+    note?: string; // Outline path of the note `this` refers to
+    attributes: DebugVariable[]; // Of that note, as they are before the statement runs
+}
+
+export interface DebugRecording {
+    steps: DebugStep[];
+    value?: Value; // Value of the last expression
+    changes: AttributeChange[];
+    error?: { message: string, start: number, end: number, source?: string };
+}
+
+export interface DebugOptions extends SimulationOptions {
+    functions?: LibraryFunction[];
+    maxSteps?: number; // Recordings are kept in memory, so this is lower than for plain runs
+}
+
+function describeValue(name: string, v: Value): DebugVariable {
+    const variable: DebugVariable = { name, type: v.type, value: v.type === 'string' ? JSON.stringify(v.value) : toText(v) };
+    if (v.type === 'list' || v.type === 'set') {
+        variable.value = `[${v.value.join(', ')}]`;
+        variable.items = v.value.map((item, i) => ({ name: `[${i}]`, type: 'string', value: JSON.stringify(item) }));
+    } else if (v.type === 'dictionary') {
+        variable.value = `{${Array.from(v.value.entries()).map(([key, item]) => `${key}: ${item}`).join(', ')}}`;
+        variable.items = Array.from(v.value.entries()).map(([key, item]) => ({ name: key, type: 'string', value: JSON.stringify(item) }));
+    }
+    return variable;
+}
+
+function describeLocals(locals: Map<string, Value>): DebugVariable[] {
+    return Array.from(locals.entries()).map(([name, v]) => describeValue(name, v));
+}
+
+export function recordRun(fixture: Fixture, note: FixtureNote, code: string, options: DebugOptions): DebugRecording {
+    const now = options.now || new Date();
+    const host = new FixtureHost(fixture, options.lookup, options.designators, now);
+    const rootLocals = new Map<string, Value>();
+    const steps: DebugStep[] = [];
+
+    const describeNote = (current: FixtureNote | undefined): DebugVariable[] => current
+        ? host.attributeNames(current).map(name => describeValue(`$${name}`, host.read(current, name)))
+        : [];
+
+    try {
+        const { value } = evaluate(code, {
+            host, note, now, colors: options.colors, functions: options.functions, locals: rootLocals,
+            maxSteps: options.maxSteps ?? 10000,
+            onStatement: (statement, state) => {
+                // The innermost frame is at the statement, each outer frame at the call into the next one
+                const frames: DebugFrame[] = [];
+                let position = { start: statement.start, end: statement.end };
+                for (let i = state.calls.length - 1; i >= -1; i--) {
+                    const call = state.calls[i];
+                    frames.push({
+                        name: call ? call.name : '(rule)',
+                        source: call?.source,
+                        ...position,
+                        variables: describeLocals(i === state.calls.length - 1 ? state.locals : call ? call.locals : rootLocals)
+                    });
+                    if (call) position = { start: call.call.start, end: call.call.end };
+                }
+                steps.push({ frames, note: state.note?.path, attributes: describeNote(state.note) });
+            }
+        });
+        return { steps, value, changes: host.getChanges() };
+    } catch (err) {
+        if (err instanceof EvaluationError) {
+            return { steps, changes: host.getChanges(), error: { message: err.message, start: err.start, end: err.end, source: err.source } };
+        }
+        throw err;
+    }
+}
@@ -0,0 +1,92 @@
+// --- Unified Diff ---
+// Line diff in the format of `diff -u`, for tbx-fmt --check.
+
+interface DiffLine {
+    kind: ' ' | '-' | '+';
+    text: string;
+    before: number; // Index of the line in the old text, or of the next one for added lines
+    after: number; // Index in the new text, likewise
+}
+
+// Beyond this many cells, the whole file is shown as replaced instead of computing a minimal diff
+const MAX_TABLE_SIZE = 4_000_000;
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+    // Common prefix and suffix are kept out of the table
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const n = a.length - prefix - suffix;
+    const m = b.length - prefix - suffix;
+    const lines: DiffLine[] = [];
+    for (let i = 0; i < prefix; i++) lines.push({ kind: ' ', text: a[i], before: i, after: i });
+
+    if ((n + 1) * (m + 1) > MAX_TABLE_SIZE) {
+        for (let i = 0; i < n; i++) lines.push({ kind: '-', text: a[prefix + i], before: prefix + i, after: prefix });
+        for (let j = 0; j < m; j++) lines.push({ kind: '+', text: b[prefix + j], before: prefix + n, after: prefix + j });
+    } else {
+        // lcs[i][j]: length of the longest common subsequence of the remaining lines a[i..] and b[j..]
+        const lcs = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * (m + 1) + j] = a[prefix + i] === b[prefix + j]
+                    ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && a[prefix + i] === b[prefix + j]) {
+                lines.push({ kind: ' ', text: a[prefix + i], before: prefix + i, after: prefix + j });
+                i++;
+                j++;
+            } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+                // Removed lines come before added ones
+                lines.push({ kind: '-', text: a[prefix + i], before: prefix + i, after: prefix + j });
+                i++;
+            } else {
+                lines.push({ kind: '+', text: b[prefix + j], before: prefix + i, after: prefix + j });
+                j++;
+            }
+        }
+    }
+
+    for (let k = 0; k < suffix; k++) {
+        lines.push({ kind: ' ', text: a[prefix + n + k], before: prefix + n + k, after: prefix + m + k });
+    }
+    return lines;
+}
+
+// Returns '' when the texts are equal
+export function unifiedDiff(fileName: string, before: string, after: string, context = 3): string {
+    if (before === after) return '';
+    const toLines = (text: string) => (text.endsWith('\n') ? text.substring(0, text.length - 1) : text).split('\n');
+    const lines = diffLines(toLines(before), toLines(after));
+    const changes = lines.map((line, i) => line.kind === ' ' ? -1 : i).filter(i => i >= 0);
+
+    const output = [`--- ${fileName}`, `+++ ${fileName} (formatted)`];
+    let c = 0;
+    while (c < changes.length) {
+        // A hunk spans the changes whose context overlaps
+        const start = Math.max(0, changes[c] - context);
+        let end = Math.min(lines.length, changes[c] + context + 1);
+        while (c + 1 < changes.length && changes[c + 1] - context <= end) {
+            c++;
+            end = Math.min(lines.length, changes[c] + context + 1);
+        }
+        c++;
+
+        const hunk = lines.slice(start, end);
+        const beforeCount = hunk.filter(line => line.kind !== '+').length;
+        const afterCount = hunk.filter(line => line.kind !== '-').length;
+        // An empty range is given as the line before it
+        const beforeStart = beforeCount === 0 ? hunk[0].before : hunk[0].before + 1;
+        const afterStart = afterCount === 0 ? hunk[0].after : hunk[0].after + 1;
+        output.push(`@@ -${beforeStart},${beforeCount} +${afterStart},${afterCount} @@`);
+        for (const line of hunk) output.push(line.kind + line.text);
+    }
+    return output.join('\n') + '\n';
+}
@@ -0,0 +1,93 @@
+// --- Workspace File Filter ---
+// Which files of a workspace folder the server reads, from the tinderboxActionCodeServer.files.include,
+// files.exclude and maxFileSize settings. Globs are matched against the path relative to the folder,
+// e.g. `lib/dates.tbxa`, as VS Code matches its own files.exclude.
+
+export interface FileFilterSettings {
+    files?: {
+        include?: string[];
+        exclude?: string[];
+    };
+    maxFileSize?: number; // bytes
+}
+
+// The defaults of package.json, for clients that send no settings (e.g. tbx-lint without a settings file)
+const DEFAULT_INCLUDE = ['**'];
+const DEFAULT_EXCLUDE = ['**/node_modules/**'];
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+// Supports `**`, `*`, `?`, `{a,b}` and `[abc]` / `[!abc]`; matching ignores case
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    let braceDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // `**/` also matches no folder at all; a trailing `**` matches the rest of the path
+            if (glob[i + 2] === '/') {
+                pattern += '(?:.*/)?';
+                i += 2;
+            } else {
+                pattern += '.*';
+                i++;
+            }
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else if (char === '{') {
+            braceDepth++;
+            pattern += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            pattern += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            pattern += '|';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end < 0) {
+                pattern += '\\[';
+                continue;
+            }
+            let set = glob.substring(i + 1, end).replace(/\\/g, '\\\\');
+            if (set.startsWith('!')) set = '^' + set.substring(1);
+            pattern += `[${set}]`;
+            i = end;
+        } else {
+            pattern += char.replace(/[.+^$()|\\\]]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${pattern}$`, 'i');
+}
+
+export class FileFilter {
+    private readonly include: RegExp[];
+    private readonly exclude: RegExp[];
+    readonly maxFileSize: number;
+    readonly key: string; // Equal for equal settings, to tell whether a folder needs scanning again
+
+    constructor(settings: FileFilterSettings | undefined) {
+        const include = settings?.files?.include ?? DEFAULT_INCLUDE;
+        const exclude = settings?.files?.exclude ?? DEFAULT_EXCLUDE;
+        this.include = include.map(globToRegExp);
+        this.exclude = exclude.map(globToRegExp);
+        this.maxFileSize = settings?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+        this.key = JSON.stringify([include, exclude, this.maxFileSize]);
+    }
+
+    // A folder is excluded when a pattern matches it, e.g. `**/node_modules`, or everything in it, e.g. `**/node_modules/**`
+    excludesFolder(relativePath: string): boolean {
+        return this.exclude.some(re => re.test(relativePath) || re.test(relativePath + '/'));
+    }
+
+    // A file is read when an include pattern matches it and neither it nor a folder above it is excluded
+    matches(relativePath: string): boolean {
+        if (!this.include.some(re => re.test(relativePath))) return false;
+        if (this.exclude.some(re => re.test(relativePath))) return false;
+        const parts = relativePath.split('/');
+        for (let i = 1; i < parts.length; i++) {
+            if (this.excludesFolder(parts.slice(0, i).join('/'))) return false;
+        }
+        return true;
+    }
+}
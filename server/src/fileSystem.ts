@@ -0,0 +1,39 @@
+import { Connection } from 'vscode-languageserver';
+
+// --- File System ---
+// The workspace files as the server sees them, addressed by URI. The Node server reads them from disk;
+// the browser server has no disk and asks the client instead, which answers from the editor's own
+// workspace file system (see the tinderbox/fs/* handlers of the browser client).
+
+// Same values as the editor's FileType
+export enum FileType {
+    Unknown = 0,
+    File = 1,
+    Directory = 2,
+    SymbolicLink = 64
+}
+
+export interface FileStat {
+    type: FileType;
+    mtime: number; // ms since the epoch
+    size: number; // bytes
+}
+
+export interface FileSystem {
+    readFile(uri: string): Promise<string>; // UTF-8
+    writeFile(uri: string, content: string): Promise<void>;
+    stat(uri: string): Promise<FileStat>;
+    readDirectory(uri: string): Promise<[string, FileType][]>; // Entry names and types
+    createDirectory(uri: string): Promise<void>; // With its parents; an existing directory is fine
+}
+
+// Forwards every file access to the client; a missing file rejects with the client's error
+export function createClientFileSystem(connection: Connection): FileSystem {
+    return {
+        readFile: uri => connection.sendRequest<string>('tinderbox/fs/readFile', { uri }),
+        writeFile: (uri, content) => connection.sendRequest<void>('tinderbox/fs/writeFile', { uri, content }),
+        stat: uri => connection.sendRequest<FileStat>('tinderbox/fs/stat', { uri }),
+        readDirectory: uri => connection.sendRequest<[string, FileType][]>('tinderbox/fs/readDirectory', { uri }),
+        createDirectory: uri => connection.sendRequest<void>('tinderbox/fs/createDirectory', { uri })
+    };
+}
@@ -0,0 +1,366 @@
+import { Value, EvaluationError, EvaluationHost, NoteContext, evaluate, coerce, toText, str, num, bool, valueFromJson } from './interpreter';
+
+// --- Fixtures ---
+// A fixture is a mock Tinderbox document written as JSON: an outline of notes with attribute values,
+// prototypes and links. Rules, edicts and stamps can be run against its notes without Tinderbox.
+//
+// {
+//   "attributes": [ { "name": "Effort", "type": "number", "default": "0" } ],
+//   "notes": [
+//     { "name": "Templates", "children": [
+//       { "name": "Task", "isPrototype": true, "attributes": { "Status": "open" } } ] },
+//     { "name": "Projects", "children": [
+//       { "name": "Write docs", "prototype": "Task", "attributes": { "Effort": 3, "Tags": ["docs"] },
+//         "links": [ { "to": "/Projects/Review", "type": "agree" } ] },
+//       { "name": "Review" } ] }
+//   ]
+// }
+
+export interface FixtureAttributeDeclaration {
+    name: string;
+    type: string;
+    defaultValue: string;
+}
+
+export interface FixtureLink {
+    to: string; // Name or outline path of the destination note
+    type: string; // Link type, 'untitled' when not given
+}
+
+export interface FixtureNote {
+    name: string;
+    path: string; // Outline path, e.g. /Projects/Alpha
+    prototype?: string;
+    isPrototype: boolean;
+    attributes: Map<string, unknown>; // Attribute name (without '$') -> value as written in the fixture
+    links: FixtureLink[];
+    parent?: FixtureNote;
+    children: FixtureNote[];
+}
+
+export interface Fixture {
+    attributes: Map<string, FixtureAttributeDeclaration>; // User attributes declared by the fixture
+    rootNotes: FixtureNote[];
+    notes: FixtureNote[]; // Outline order
+}
+
+export class FixtureError extends Error { }
+
+// Type, default and access of an attribute the fixture does not declare (system and workspace attributes)
+export type AttributeLookup = (name: string) => { type: string, defaultValue: string, readOnly: boolean } | undefined;
+
+export function parseFixture(text: string): Fixture {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch (err) {
+        throw new FixtureError(`The fixture is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (!json || typeof json !== 'object' || !Array.isArray(json.notes)) {
+        throw new FixtureError(`A fixture must be an object with a "notes" array.`);
+    }
+
+    const fixture: Fixture = { attributes: new Map(), rootNotes: [], notes: [] };
+    if (json.attributes !== undefined) {
+        if (!Array.isArray(json.attributes)) throw new FixtureError(`"attributes" must be an array.`);
+        json.attributes.forEach((entry: any, i: number) => {
+            if (!entry || typeof entry.name !== 'string') throw new FixtureError(`attributes[${i}]: "name" must be a string.`);
+            const name = entry.name.replace(/^\$/, '');
+            fixture.attributes.set(name, {
+                name,
+                type: typeof entry.type === 'string' ? entry.type.toLowerCase() : 'string',
+                defaultValue: entry.default === undefined ? '' : String(entry.default)
+            });
+        });
+    }
+
+    const readNote = (entry: any, where: string, parent: FixtureNote | undefined): FixtureNote => {
+        if (!entry || typeof entry !== 'object' || typeof entry.name !== 'string') {
+            throw new FixtureError(`${where}: "name" must be a string.`);
+        }
+        if (entry.prototype !== undefined && typeof entry.prototype !== 'string') {
+            throw new FixtureError(`${where}: "prototype" must be a note name.`);
+        }
+        const note: FixtureNote = {
+            name: entry.name,
+            path: (parent ? parent.path : '') + '/' + entry.name,
+            prototype: entry.prototype,
+            isPrototype: entry.isPrototype === true,
+            attributes: new Map(),
+            links: [],
+            parent,
+            children: []
+        };
+        if (entry.attributes !== undefined) {
+            if (!entry.attributes || typeof entry.attributes !== 'object' || Array.isArray(entry.attributes)) {
+                throw new FixtureError(`${where}: "attributes" must be an object.`);
+            }
+            for (const [name, value] of Object.entries(entry.attributes)) {
+                note.attributes.set(name.replace(/^\$/, ''), value);
+            }
+        }
+        if (entry.links !== undefined) {
+            if (!Array.isArray(entry.links)) throw new FixtureError(`${where}: "links" must be an array.`);
+            entry.links.forEach((link: any, i: number) => {
+                if (!link || typeof link.to !== 'string') throw new FixtureError(`${where}.links[${i}]: "to" must be a note name or path.`);
+                note.links.push({ to: link.to, type: typeof link.type === 'string' ? link.type : 'untitled' });
+            });
+        }
+        fixture.notes.push(note);
+        if (entry.children !== undefined) {
+            if (!Array.isArray(entry.children)) throw new FixtureError(`${where}: "children" must be an array.`);
+            entry.children.forEach((child: any, i: number) => note.children.push(readNote(child, `${where}.children[${i}]`, note)));
+        }
+        return note;
+    };
+    json.notes.forEach((entry: any, i: number) => fixture.rootNotes.push(readNote(entry, `notes[${i}]`, undefined)));
+
+    // Links and prototypes must name notes of the fixture
+    for (const note of fixture.notes) {
+        if (note.prototype && !findFixtureNote(fixture, note.prototype)) {
+            throw new FixtureError(`${note.path}: The prototype '${note.prototype}' is not a note of the fixture.`);
+        }
+        for (const link of note.links) {
+            if (!findFixtureNote(fixture, link.to)) {
+                throw new FixtureError(`${note.path}: The link destination '${link.to}' is not a note of the fixture.`);
+            }
+        }
+    }
+    return fixture;
+}
+
+// Finds a note by outline path, or else by name (the first in outline order)
+export function findFixtureNote(fixture: Fixture, reference: string): FixtureNote | undefined {
+    if (reference.startsWith('/')) {
+        const path = reference.length > 1 ? reference.replace(/\/$/, '') : reference;
+        return fixture.notes.find(note => note.path === path);
+    }
+    return fixture.notes.find(note => note.name === reference);
+}
+
+function getDescendants(note: FixtureNote): FixtureNote[] {
+    return note.children.flatMap(child => [child, ...getDescendants(child)]);
+}
+
+// Attributes computed from the outline rather than stored
+const COMPUTED_ATTRIBUTES: { [name: string]: (note: FixtureNote, fixture: Fixture) => Value } = {
+    Path: note => str(note.path),
+    Container: note => str(note.parent ? note.parent.path : '/'),
+    ChildCount: note => num(note.children.length),
+    DescendantCount: note => num(getDescendants(note).length),
+    OutlineDepth: note => num(note.path.split('/').length - 1),
+    SiblingOrder: (note, fixture) => num(siblingsOf(note, fixture).indexOf(note) + 1),
+    IsPrototype: note => bool(note.isPrototype),
+    OutboundLinkCount: note => num(note.links.length),
+    InboundLinkCount: (note, fixture) => num(fixture.notes.reduce((count, other) =>
+        count + other.links.filter(link => findFixtureNote(fixture, link.to) === note).length, 0))
+};
+
+// Designators from the Tinderbox vocabulary that a fixture can resolve. The others (selection,
+// agent, adornment ...) depend on the running application.
+const FIXTURE_DESIGNATORS: { [name: string]: (note: FixtureNote, fixture: Fixture) => (FixtureNote | undefined)[] } = {
+    this: note => [note],
+    current: note => [note],
+    original: note => [note],
+    parent: note => [note.parent],
+    grandparent: note => [note.parent?.parent],
+    child: note => [note.children[0]],
+    lastchild: note => [note.children[note.children.length - 1]],
+    firstsibling: (note, fixture) => [siblingsOf(note, fixture)[0]],
+    lastsibling: (note, fixture) => [siblingsOf(note, fixture)[siblingsOf(note, fixture).length - 1]],
+    nextsibling: (note, fixture) => [siblingsOf(note, fixture)[siblingsOf(note, fixture).indexOf(note) + 1]],
+    nextsiblingitem: (note, fixture) => [siblingsOf(note, fixture)[siblingsOf(note, fixture).indexOf(note) + 1]],
+    prevsibling: (note, fixture) => [siblingsOf(note, fixture)[siblingsOf(note, fixture).indexOf(note) - 1]],
+    previoussiblingitem: (note, fixture) => [siblingsOf(note, fixture)[siblingsOf(note, fixture).indexOf(note) - 1]],
+    next: (note, fixture) => [fixture.notes[fixture.notes.indexOf(note) + 1]],
+    nextitem: (note, fixture) => [fixture.notes[fixture.notes.indexOf(note) + 1]],
+    previous: (note, fixture) => [fixture.notes[fixture.notes.indexOf(note) - 1]],
+    previousitem: (note, fixture) => [fixture.notes[fixture.notes.indexOf(note) - 1]],
+    all: (_note, fixture) => fixture.notes,
+    ancestors: note => {
+        const result: FixtureNote[] = [];
+        for (let current = note.parent; current; current = current.parent) result.push(current);
+        return result;
+    },
+    children: note => note.children,
+    descendants: note => getDescendants(note),
+    siblings: (note, fixture) => siblingsOf(note, fixture).filter(sibling => sibling !== note)
+};
+
+function siblingsOf(note: FixtureNote, fixture: Fixture): FixtureNote[] {
+    return note.parent ? note.parent.children : fixture.rootNotes;
+}
+
+export interface AttributeChange {
+    note: string; // Outline path
+    attribute: string; // Without '$'
+    before: string;
+    after: string;
+}
+
+// Serves attribute values and designators from a fixture. Assignments are kept aside, so the fixture
+// itself is never changed, and can be listed as changes afterwards.
+export class FixtureHost implements EvaluationHost<FixtureNote> {
+    private readonly assigned = new Map<FixtureNote, Map<string, Value>>();
+    private readonly original = new Map<FixtureNote, Map<string, string>>(); // Text before the first assignment
+
+    constructor(
+        private readonly fixture: Fixture,
+        private readonly lookup: AttributeLookup,
+        private readonly designators: Set<string>, // Lower-case names of all Tinderbox designators
+        private readonly now: Date
+    ) { }
+
+    private getType(name: string): string | undefined {
+        return this.fixture.attributes.get(name)?.type ?? this.lookup(name)?.type;
+    }
+
+    // Own value, then the prototype chain, then the attribute's default
+    private readStored(note: FixtureNote, name: string, seen: Set<FixtureNote>): Value | undefined {
+        const assigned = this.assigned.get(note)?.get(name);
+        if (assigned) return assigned;
+        if (name === 'Name') return str(note.name);
+        if (name === 'Prototype') return str(note.prototype ?? '');
+        if (note.attributes.has(name)) return valueFromJson(note.attributes.get(name), this.getType(name), this.now);
+        seen.add(note);
+        const prototype = note.prototype ? findFixtureNote(this.fixture, note.prototype) : undefined;
+        if (prototype && !seen.has(prototype)) return this.readStored(prototype, name, seen);
+        return undefined;
+    }
+
+    read(note: FixtureNote, name: string): Value {
+        const computed = COMPUTED_ATTRIBUTES[name];
+        if (computed) return computed(note, this.fixture);
+        const stored = this.readStored(note, name, new Set());
+        if (stored) return stored;
+        const declared = this.fixture.attributes.get(name);
+        if (declared) return valueFromJson(declared.defaultValue, declared.type, this.now);
+        const known = this.lookup(name);
+        if (known) return valueFromJson(known.defaultValue, known.type, this.now);
+        throw new Error(`Unknown attribute '$${name}'. Declare it in the fixture's "attributes".`);
+    }
+
+    // Attributes the note has a value for: its own, its prototypes' and assigned ones
+    attributeNames(note: FixtureNote): string[] {
+        const names = new Set<string>(['Name']);
+        if (note.prototype) names.add('Prototype');
+        const seen = new Set<FixtureNote>();
+        for (let current: FixtureNote | undefined = note; current && !seen.has(current);
+            current = current.prototype ? findFixtureNote(this.fixture, current.prototype) : undefined) {
+            seen.add(current);
+            for (const name of current.attributes.keys()) names.add(name);
+        }
+        for (const name of this.assigned.get(note)?.keys() || []) names.add(name);
+        return Array.from(names).sort();
+    }
+
+    private resolveOne(designator: string | undefined, context: NoteContext<FixtureNote>): FixtureNote | undefined {
+        return designator === undefined ? this.requireThis(context) : this.resolveNotes(designator, context)[0];
+    }
+
+    private requireThis(context: NoteContext<FixtureNote>): FixtureNote {
+        if (!context.this) throw new Error(`No note to run the code on was chosen.`);
+        return context.this;
+    }
+
+    getAttribute(name: string, designator: string | undefined, context: NoteContext<FixtureNote>): Value {
+        const note = this.resolveOne(designator, context);
+        // A designator without a note, e.g. $Name(parent) of a top-level note, reads as empty
+        if (!note) return coerce(str(''), this.getType(name), this.now);
+        return this.read(note, name);
+    }
+
+    setAttribute(name: string, value: Value, designator: string | undefined, context: NoteContext<FixtureNote>): void {
+        if (COMPUTED_ATTRIBUTES[name] || this.lookup(name)?.readOnly) {
+            throw new Error(`'$${name}' is read-only.`);
+        }
+        const notes = designator === undefined ? [this.requireThis(context)] : this.resolveNotes(designator, context);
+        for (const note of notes) {
+            const original = this.original.get(note) || new Map<string, string>();
+            if (!original.has(name)) original.set(name, toText(this.read(note, name)));
+            this.original.set(note, original);
+            const assigned = this.assigned.get(note) || new Map<string, Value>();
+            assigned.set(name, coerce(value, this.getType(name), this.now));
+            this.assigned.set(note, assigned);
+        }
+    }
+
+    resolveNotes(designator: string, context: NoteContext<FixtureNote>): FixtureNote[] {
+        const text = designator.trim();
+        const quoted = text.match(/^(["'])(.*)\1$/);
+        if (quoted || text.startsWith('/')) {
+            const reference = quoted ? quoted[2] : text;
+            const note = findFixtureNote(this.fixture, reference);
+            if (!note) throw new Error(`'${reference}' is not a note of the fixture.`);
+            return [note];
+        }
+
+        // Qualified designators such as children(/Projects) or descendants(parent)
+        const qualified = text.match(/^(\w+)\s*\((.*)\)$/s);
+        if (qualified) {
+            return this.resolveNotes(qualified[2], context).flatMap(note => this.resolveNotes(qualified[1], { this: note, that: context.that }));
+        }
+
+        const key = text.toLowerCase();
+        if (key === 'that') return context.that ? [context.that] : [];
+        const resolve = FIXTURE_DESIGNATORS[key];
+        if (resolve) {
+            const note = this.requireThis(context);
+            return resolve(note, this.fixture).filter((n): n is FixtureNote => n !== undefined);
+        }
+        if (this.designators.has(key)) {
+            throw new Error(`The designator '${text}' depends on the running Tinderbox application and cannot be resolved in a fixture.`);
+        }
+        // Any other bare word is a note name
+        const note = findFixtureNote(this.fixture, text);
+        if (!note) throw new Error(`'${text}' is neither a designator nor a note of the fixture.`);
+        return [note];
+    }
+
+    isLinked(from: FixtureNote, to: FixtureNote, linkType?: string): boolean {
+        return from.links.some(link => findFixtureNote(this.fixture, link.to) === to && (!linkType || link.type === linkType));
+    }
+
+    // Attribute values that differ from what they were before the code ran, in outline order
+    getChanges(): AttributeChange[] {
+        const changes: AttributeChange[] = [];
+        for (const note of this.fixture.notes) {
+            for (const [attribute, before] of this.original.get(note) || []) {
+                const after = toText(this.read(note, attribute));
+                if (after !== before) changes.push({ note: note.path, attribute, before, after });
+            }
+        }
+        return changes;
+    }
+}
+
+export interface SimulationOptions {
+    lookup: AttributeLookup;
+    designators: Set<string>;
+    now?: Date;
+    colors?: Map<string, string>;
+}
+
+export interface SimulationResult {
+    value?: Value; // Value of the last expression, for the last note
+    changes: AttributeChange[];
+}
+
+// Runs the code once on each of the notes, in order, as a rule, edict or stamp would.
+// Later runs see the changes of earlier ones. Errors are thrown as EvaluationError.
+export function simulate(fixture: Fixture, notes: FixtureNote[], code: string, options: SimulationOptions): SimulationResult {
+    const now = options.now || new Date();
+    const host = new FixtureHost(fixture, options.lookup, options.designators, now);
+    let value: Value | undefined;
+    for (const note of notes) {
+        try {
+            value = evaluate(code, { host, note, now, colors: options.colors }).value;
+        } catch (err) {
+            if (err instanceof EvaluationError && notes.length > 1) {
+                throw new EvaluationError(`${note.path}: ${err.message}`, err.start, err.end);
+            }
+            throw err;
+        }
+    }
+    return { value, changes: host.getChanges() };
+}
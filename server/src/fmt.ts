@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { FormattingOptions } from 'vscode-languageserver/node';
+import { LanguageService } from './languageService';
+import { readResourceFile } from './resources';
+import { UsageError, findFiles, getLanguageId, toDisplayPath, plural, reportFailure } from './cli';
+import { unifiedDiff } from './diff';
+
+// --- tbx-fmt ---
+// Formats .tbxa, .tbxc and .tbxe files in place with the formatter of the language service.
+// With --check, files are left alone; unformatted ones are shown as diffs and the exit code is 1.
+
+const USAGE = `Usage: tbx-fmt [options] <file or directory>...
+
+Formats Tinderbox action code (.tbxa, .tbxc) and the code inside export code tags (.tbxe).
+Directories are searched recursively, skipping hidden folders and node_modules.
+
+Options:
+  -c, --check           Do not write files; show a diff for each unformatted file and exit with 1
+      --config <file>   Indentation settings to use instead of the nearest tinderbox-format.json
+  -h, --help            Show this help
+
+Indentation is read from the tinderbox-format.json file closest to each formatted file,
+e.g. { "tabSize": 2, "insertSpaces": true }. Without one, 4 spaces are used.
+`;
+
+const CONFIG_FILE_NAME = 'tinderbox-format.json';
+
+const DEFAULT_OPTIONS: FormattingOptions = { tabSize: 4, insertSpaces: true };
+
+function parseArguments(args: string[]): { check: boolean, configFile?: string, paths: string[] } {
+    let check = false;
+    let configFile: string | undefined;
+    const paths: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '-h' || arg === '--help') {
+            process.stdout.write(USAGE);
+            process.exit(0);
+        } else if (arg === '-c' || arg === '--check') {
+            check = true;
+        } else if (arg === '--config') {
+            configFile = args[++i];
+            if (!configFile) throw new UsageError(`--config needs a file.`);
+        } else if (arg.startsWith('-')) {
+            throw new UsageError(`Unknown option '${arg}'.`);
+        } else {
+            paths.push(arg);
+        }
+    }
+    if (paths.length === 0) throw new UsageError(`No files or directories were given.`);
+    return { check, configFile, paths };
+}
+
+function readConfig(file: string): FormattingOptions {
+    let json: any;
+    try {
+        json = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (err) {
+        throw new UsageError(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const options = { ...DEFAULT_OPTIONS };
+    if (json.tabSize !== undefined) {
+        if (!Number.isInteger(json.tabSize) || json.tabSize < 1) throw new UsageError(`${file}: "tabSize" must be a positive integer.`);
+        options.tabSize = json.tabSize;
+    }
+    if (json.insertSpaces !== undefined) {
+        if (typeof json.insertSpaces !== 'boolean') throw new UsageError(`${file}: "insertSpaces" must be true or false.`);
+        options.insertSpaces = json.insertSpaces;
+    }
+    return options;
+}
+
+// Settings of the nearest tinderbox-format.json in the directory or above it
+function findConfig(directory: string, cache: Map<string, FormattingOptions>): FormattingOptions {
+    let options = cache.get(directory);
+    if (!options) {
+        const candidate = path.join(directory, CONFIG_FILE_NAME);
+        const parent = path.dirname(directory);
+        options = fs.existsSync(candidate) ? readConfig(candidate)
+            : parent !== directory ? findConfig(parent, cache)
+                : DEFAULT_OPTIONS;
+        cache.set(directory, options);
+    }
+    return options;
+}
+
+async function main(): Promise<number> {
+    let options: ReturnType<typeof parseArguments>;
+    let files: string[] = [];
+    const configs = new Map<string, FormattingOptions>();
+    let config: FormattingOptions | undefined;
+    try {
+        options = parseArguments(process.argv.slice(2));
+        options.paths.forEach(target => findFiles(target, files));
+        files = Array.from(new Set(files));
+        if (options.configFile) config = readConfig(options.configFile);
+        // Read every config up front, so a broken one stops the run before any file is written
+        for (const file of files) findConfig(path.dirname(file), configs);
+    } catch (err) {
+        return reportFailure('tbx-fmt', err);
+    }
+
+    // Formatting needs neither a workspace scan nor the resource tables, so no server is started
+    const service = new LanguageService({ readResource: readResourceFile });
+    const unformatted: string[] = [];
+    for (const file of files) {
+        const text = fs.readFileSync(file, 'utf-8');
+        const formatted = service.format(text, config ?? findConfig(path.dirname(file), configs), getLanguageId(file));
+        if (formatted === text) continue;
+        unformatted.push(file);
+        if (options.check) {
+            process.stdout.write(unifiedDiff(toDisplayPath(file), text, formatted));
+        } else {
+            fs.writeFileSync(file, formatted, 'utf-8');
+            process.stdout.write(`Formatted ${toDisplayPath(file)}\n`);
+        }
+    }
+
+    if (options.check) {
+        process.stdout.write(unformatted.length === 0
+            ? `No unformatted files among ${plural(files.length, 'file')}.\n`
+            : `Not formatted: ${unformatted.length} of ${plural(files.length, 'file')}. Run tbx-fmt without --check to format them.\n`);
+        return unformatted.length > 0 ? 1 : 0;
+    }
+    process.stdout.write(`Formatted ${unformatted.length} of ${plural(files.length, 'file')}.\n`);
+    return 0;
+}
+
+main().then(code => {
+    process.exitCode = code;
+}, err => {
+    process.exitCode = reportFailure('tbx-fmt', err);
+});
@@ -0,0 +1,1240 @@
+import { parse, Program, Statement, Expression, FunctionDeclaration, Node } from './parser';
+
+// --- Action Code Interpreter ---
+// Evaluates the pure subset of Action Code: literals, variables, attribute values supplied by a host,
+// arithmetic and comparisons, control flow, user functions and the built-in string, number, boolean,
+// list, set, dictionary, date, interval and color operators. Group operators (collect(), find(), sum() ...)
+// work when the host can resolve designators to notes; operators that change the document structure
+// (linkTo(), create() ...) are reported as unsupported rather than guessed.
+
+// --- Values ---
+
+export type ValueType = 'string' | 'number' | 'boolean' | 'list' | 'set' | 'dictionary' | 'date' | 'interval' | 'color';
+
+export type Value =
+    { type: 'string', value: string } |
+    { type: 'number', value: number } |
+    { type: 'boolean', value: boolean } |
+    { type: 'list' | 'set', value: string[] } | // Tinderbox list items are strings
+    { type: 'dictionary', value: Map<string, string> } |
+    { type: 'date', value: Date | null } | // null is 'never'
+    { type: 'interval', value: number } | // Milliseconds
+    { type: 'color', value: string }; // Name or #rrggbb
+
+export class EvaluationError extends Error {
+    // An error raised inside a library function has offsets in that function's text, named by source
+    source?: string;
+    located = false; // Whether source has been determined
+
+    constructor(message: string, readonly start: number, readonly end: number) {
+        super(message);
+    }
+}
+
+// A user function declared outside the evaluated text, e.g. in another file of the workspace
+export interface LibraryFunction {
+    declaration: FunctionDeclaration;
+    text: string; // Text the declaration was parsed from
+    source?: string; // Identifies the text in errors, e.g. a document URI
+}
+
+// The notes `this` and `that` refer to. Inside a group operator `this` is the note being visited
+// and `that` the note that runs the code.
+export interface NoteContext<N> {
+    this?: N;
+    that?: N;
+}
+
+// Attribute names are passed without the leading '$'; designators as written between the parentheses,
+// e.g. `parent`, `"Note"` or `children(/Projects)`. A host may throw an Error, e.g. for a designator
+// it cannot resolve; it is reported at the reference.
+export interface EvaluationHost<N = unknown> {
+    getAttribute(name: string, designator: string | undefined, context: NoteContext<N>): Value;
+    // Without a setter, assigning to an attribute is an error
+    setAttribute?(name: string, value: Value, designator: string | undefined, context: NoteContext<N>): void;
+    // Notes a designator refers to. Without it, group operators report that they need a document.
+    resolveNotes?(designator: string, context: NoteContext<N>): N[];
+    // Whether `from` has a link to `to`, optionally of the given link type
+    isLinked?(from: N, to: N, linkType?: string): boolean;
+}
+
+export interface EvaluationOptions<N = unknown> {
+    host: EvaluationHost<N>;
+    note?: N; // The note the code runs on (`this`)
+    locals?: Map<string, Value>; // Variables already in scope; updated in place
+    now?: Date; // Value of "now" and "today", for reproducible results
+    colors?: Map<string, string>; // Lower-case color name -> #rrggbb
+    maxSteps?: number; // Guards against endless loops
+    functions?: LibraryFunction[]; // Callable in addition to the functions declared in the text
+    onStatement?: (statement: Statement, state: ExecutionState<N>) => void;
+}
+
+// A user function being run
+export interface CallFrame {
+    name: string;
+    source?: string; // Source of the function's text (see LibraryFunction), undefined for the evaluated text
+    call: Node; // The call, in the caller's text
+    locals: Map<string, Value>; // Parameters and variables of the function
+}
+
+// Passed to onStatement before a statement runs
+export interface ExecutionState<N> {
+    locals: Map<string, Value>; // Variables in scope, including loop variables
+    calls: readonly CallFrame[]; // Outermost first
+    note?: N; // The note `this` refers to
+}
+
+export interface EvaluationResult {
+    value?: Value; // Value of the returned or last evaluated expression
+    locals: Map<string, Value>;
+}
+
+export const str = (value: string): Value => ({ type: 'string', value });
+export const num = (value: number): Value => ({ type: 'number', value });
+export const bool = (value: boolean): Value => ({ type: 'boolean', value });
+export const list = (value: string[], type: 'list' | 'set' = 'list'): Value => ({ type, value: type === 'set' ? unique(value) : value });
+
+function unique(items: string[]): string[] {
+    return Array.from(new Set(items));
+}
+
+// --- Conversions ---
+// Tinderbox stores every value as text, so any value can be read as any type.
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const pad = (n: number, width = 2) => String(Math.trunc(Math.abs(n))).padStart(width, '0');
+
+export function formatNumber(n: number): string {
+    if (!isFinite(n)) return String(n);
+    // Drop floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+    return String(Number.isInteger(n) ? n : parseFloat(n.toPrecision(12)));
+}
+
+function formatDateDefault(date: Date | null): string {
+    if (!date) return 'never';
+    const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    return date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0
+        ? day : `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatInterval(ms: number): string {
+    const sign = ms < 0 ? '-' : '';
+    ms = Math.abs(ms);
+    const days = Math.floor(ms / MS_PER_DAY);
+    const rest = ms - days * MS_PER_DAY;
+    const time = `${pad(rest / MS_PER_HOUR)}:${pad((rest % MS_PER_HOUR) / MS_PER_MINUTE)}:${pad((rest % MS_PER_MINUTE) / MS_PER_SECOND)}`;
+    return sign + (days > 0 ? `${days} day${days === 1 ? '' : 's'} ${time}` : time);
+}
+
+export function toText(v: Value): string {
+    switch (v.type) {
+        case 'string': return v.value;
+        case 'number': return formatNumber(v.value);
+        case 'boolean': return v.value ? 'true' : 'false';
+        case 'list':
+        case 'set': return v.value.join(';');
+        case 'dictionary': return Array.from(v.value.entries()).map(([k, val]) => `${k}:${val}`).join(';');
+        case 'date': return formatDateDefault(v.value);
+        case 'interval': return formatInterval(v.value);
+        case 'color': return v.value;
+    }
+}
+
+export function toNumber(v: Value): number {
+    switch (v.type) {
+        case 'number': return v.value;
+        case 'boolean': return v.value ? 1 : 0;
+        case 'interval': return v.value / MS_PER_SECOND;
+        case 'date': return v.value ? v.value.getTime() : 0;
+        default: {
+            const n = parseFloat(toText(v));
+            return isNaN(n) ? 0 : n;
+        }
+    }
+}
+
+export function toBoolean(v: Value): boolean {
+    switch (v.type) {
+        case 'boolean': return v.value;
+        case 'number': return v.value !== 0;
+        case 'list':
+        case 'set': return v.value.length > 0;
+        case 'dictionary': return v.value.size > 0;
+        case 'date': return v.value !== null;
+        case 'interval': return v.value !== 0;
+        default: {
+            const text = toText(v);
+            return text !== '' && text !== 'false';
+        }
+    }
+}
+
+export function toList(v: Value): string[] {
+    if (v.type === 'list' || v.type === 'set') return v.value;
+    if (v.type === 'dictionary') return Array.from(v.value.keys());
+    const text = toText(v);
+    return text === '' ? [] : text.split(';');
+}
+
+function toDictionary(v: Value): Map<string, string> {
+    if (v.type === 'dictionary') return v.value;
+    const map = new Map<string, string>();
+    for (const item of toList(v)) {
+        const colon = item.indexOf(':');
+        if (colon === -1) map.set(item, '');
+        else map.set(item.substring(0, colon), item.substring(colon + 1));
+    }
+    return map;
+}
+
+// Date strings: 'today', 'now', 'tomorrow', 'yesterday', 'never', ISO dates and times,
+// and relative forms such as 'today + 3 days'
+export function parseDate(text: string, now: Date): Date | null | undefined {
+    const trimmed = text.trim().toLowerCase();
+    if (trimmed === '' || trimmed === 'never') return null;
+    const relative = trimmed.match(/^(today|now|tomorrow|yesterday)(?:\s*([+-])\s*(\d+)\s*(minute|hour|day|week|month|year)s?)?$/);
+    if (relative) {
+        const date = new Date(now.getTime());
+        if (relative[1] !== 'now') date.setHours(0, 0, 0, 0);
+        if (relative[1] === 'tomorrow') date.setDate(date.getDate() + 1);
+        if (relative[1] === 'yesterday') date.setDate(date.getDate() - 1);
+        if (relative[2]) {
+            const amount = parseInt(relative[3], 10) * (relative[2] === '-' ? -1 : 1);
+            switch (relative[4]) {
+                case 'minute': date.setMinutes(date.getMinutes() + amount); break;
+                case 'hour': date.setHours(date.getHours() + amount); break;
+                case 'day': date.setDate(date.getDate() + amount); break;
+                case 'week': date.setDate(date.getDate() + amount * 7); break;
+                case 'month': date.setMonth(date.getMonth() + amount); break;
+                case 'year': date.setFullYear(date.getFullYear() + amount); break;
+            }
+        }
+        return date;
+    }
+    const iso = text.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+    if (iso) {
+        return new Date(+iso[1], +iso[2] - 1, +iso[3], iso[4] ? +iso[4] : 0, iso[5] ? +iso[5] : 0, iso[6] ? +iso[6] : 0);
+    }
+    const parsed = Date.parse(text);
+    return isNaN(parsed) ? undefined : new Date(parsed);
+}
+
+// Interval strings: 'hh:mm', 'hh:mm:ss', 'd day(s) hh:mm:ss', or a number of seconds
+export function parseInterval(text: string): number | undefined {
+    const match = text.trim().match(/^(?:(\d+)\s*days?\s*)?(-)?(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+    if (match) {
+        const ms = (match[1] ? +match[1] * MS_PER_DAY : 0) + +match[3] * MS_PER_HOUR + +match[4] * MS_PER_MINUTE + (match[5] ? +match[5] * MS_PER_SECOND : 0);
+        return match[2] ? -ms : ms;
+    }
+    const seconds = parseFloat(text);
+    return isNaN(seconds) ? undefined : seconds * MS_PER_SECOND;
+}
+
+// Reads a value as the given Tinderbox data type (as declared by `var:type` or an attribute's type)
+export function coerce(v: Value, type: string | undefined, now: Date): Value {
+    switch ((type || '').toLowerCase()) {
+        case 'string': return v.type === 'string' ? v : str(toText(v));
+        case 'number': return v.type === 'number' ? v : num(toNumber(v));
+        case 'boolean': return v.type === 'boolean' ? v : bool(toBoolean(v));
+        case 'list': return v.type === 'list' ? v : list(toList(v));
+        case 'set': return v.type === 'set' ? v : list(toList(v), 'set');
+        case 'dictionary': return v.type === 'dictionary' ? v : { type: 'dictionary', value: toDictionary(v) };
+        case 'date': {
+            if (v.type === 'date') return v;
+            const date = parseDate(toText(v), now);
+            return { type: 'date', value: date === undefined ? null : date };
+        }
+        case 'interval': return v.type === 'interval' ? v : { type: 'interval', value: parseInterval(toText(v)) ?? 0 };
+        case 'color': return v.type === 'color' ? v : { type: 'color', value: toText(v) };
+        default: return v;
+    }
+}
+
+// Converts a JSON value (e.g. from an attribute map supplied by the client) into a Value
+export function valueFromJson(json: unknown, type: string | undefined, now: Date): Value {
+    let v: Value;
+    if (typeof json === 'number') v = num(json);
+    else if (typeof json === 'boolean') v = bool(json);
+    else if (Array.isArray(json)) v = list(json.map(item => String(item)));
+    else if (json && typeof json === 'object') v = { type: 'dictionary', value: new Map(Object.entries(json).map(([k, val]) => [k, String(val)])) };
+    else v = str(json === undefined || json === null ? '' : String(json));
+    return coerce(v, type, now);
+}
+
+function valuesEqual(a: Value, b: Value): boolean {
+    if (a.type === 'number' || b.type === 'number') {
+        const other = a.type === 'number' ? b : a;
+        if (other.type === 'number' || other.type === 'boolean' || /^\s*-?\d+(\.\d+)?\s*$/.test(toText(other))) return toNumber(a) === toNumber(b);
+    }
+    if (a.type === 'date' && b.type === 'date') return (a.value?.getTime() ?? null) === (b.value?.getTime() ?? null);
+    return toText(a) === toText(b);
+}
+
+function compareValues(a: Value, b: Value): number {
+    if (a.type === 'date' || b.type === 'date') {
+        const time = (v: Value) => v.type === 'date' ? (v.value ? v.value.getTime() : Infinity) : toNumber(v);
+        return time(a) - time(b);
+    }
+    const aText = toText(a);
+    const bText = toText(b);
+    const numeric = /^\s*-?\d+(\.\d+)?\s*$/;
+    if (a.type === 'number' || b.type === 'number' || a.type === 'interval' || (numeric.test(aText) && numeric.test(bText))) {
+        return toNumber(a) - toNumber(b);
+    }
+    return aText < bText ? -1 : aText > bText ? 1 : 0;
+}
+
+// JavaScript regular expressions are close enough to Tinderbox's ICU syntax for everyday patterns
+function makeRegex(pattern: string, flags: string, node: Node): RegExp {
+    try {
+        return new RegExp(pattern, flags);
+    } catch (err) {
+        throw new EvaluationError(`Invalid regular expression '${pattern}'.`, node.start, node.end);
+    }
+}
+
+// Tinderbox date format codes (subset)
+function formatDate(date: Date | null, format: string): string {
+    if (!date) return 'never';
+    switch (format) {
+        case '=': return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+        case '*': return date.toUTCString();
+        case 'L': return `${WEEKDAY_NAMES[date.getDay()]}, ${date.getDate()} ${MONTH_NAMES[date.getMonth()]}, ${date.getFullYear()}`;
+        case 'l': return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+    }
+    // Longer codes come before the codes they start with, e.g. 'mm' (minutes) before 'm' (month number)
+    const codes: [RegExp, () => string][] = [
+        [/^MM/, () => MONTH_NAMES[date.getMonth()]],
+        [/^M0/, () => pad(date.getMonth() + 1)],
+        [/^M/, () => MONTH_NAMES[date.getMonth()].substring(0, 3)],
+        [/^mm/, () => pad(date.getMinutes())],
+        [/^m/, () => String(date.getMonth() + 1)],
+        [/^D0/, () => pad(date.getDate())],
+        [/^[Dd]/, () => String(date.getDate())],
+        [/^W/, () => WEEKDAY_NAMES[date.getDay()]],
+        [/^w/, () => WEEKDAY_NAMES[date.getDay()].substring(0, 3)],
+        [/^y/, () => String(date.getFullYear())],
+        [/^Y/, () => pad(date.getFullYear() % 100)],
+        [/^h/, () => pad(date.getHours())],
+        [/^H/, () => String(date.getHours() % 12 === 0 ? 12 : date.getHours() % 12)],
+        [/^s/, () => pad(date.getSeconds())],
+        [/^p/, () => date.getHours() < 12 ? 'AM' : 'PM']
+    ];
+    let result = '';
+    let rest = format;
+    outer: while (rest.length > 0) {
+        for (const [pattern, produce] of codes) {
+            const match = rest.match(pattern);
+            if (match) {
+                result += produce();
+                rest = rest.substring(match[0].length);
+                continue outer;
+            }
+        }
+        result += rest[0];
+        rest = rest.substring(1);
+    }
+    return result;
+}
+
+function parseColor(v: Value, colors: Map<string, string> | undefined, node: Node): [number, number, number] {
+    let text = toText(v).trim();
+    if (!text.startsWith('#')) text = colors?.get(text.toLowerCase()) || text;
+    const hex = text.match(/^#([0-9a-f]{6})$/i);
+    if (!hex) throw new EvaluationError(`'${toText(v)}' is not a color the evaluator knows.`, node.start, node.end);
+    const n = parseInt(hex[1], 16);
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+function toHex(r: number, g: number, b: number): string {
+    const clamp = (n: number) => Math.max(0, Math.min(255, Math.round(n)));
+    return '#' + [r, g, b].map(n => clamp(n).toString(16).padStart(2, '0')).join('');
+}
+
+function rgbToHsv(r: number, g: number, b: number): [number, number, number] {
+    const max = Math.max(r, g, b) / 255;
+    const min = Math.min(r, g, b) / 255;
+    const d = max - min;
+    let h = 0;
+    if (d !== 0) {
+        if (max === r / 255) h = ((g - b) / 255 / d) % 6;
+        else if (max === g / 255) h = (b - r) / 255 / d + 2;
+        else h = (r - g) / 255 / d + 4;
+    }
+    h = Math.round(h * 60);
+    if (h < 0) h += 360;
+    return [h, max === 0 ? 0 : Math.round(d / max * 100), Math.round(max * 100)];
+}
+
+// --- Interpreter ---
+
+class ReturnSignal {
+    constructor(readonly value: Value | undefined) { }
+}
+
+type Locals = Map<string, Value>;
+
+// Bare words that read as dates, e.g. $DueDate = today;
+export const DATE_KEYWORDS = ['today', 'now', 'tomorrow', 'yesterday', 'never'];
+
+// Dot operators that take a loop variable and an expression evaluated once per item
+const LOOP_METHODS = ['collect', 'collect_if', 'any', 'every', 'count_if', 'sum_if', 'each'];
+
+// Functions whose first argument is a group of notes (scope) and whose other arguments are evaluated per note
+const GROUP_FUNCTIONS = ['collect', 'collect_if', 'count', 'count_if', 'sum', 'sum_if', 'avg', 'avg_if', 'any', 'every', 'values'];
+
+class Interpreter<N> {
+    private readonly functions = new Map<string, LibraryFunction>();
+    private readonly now: Date;
+    private steps = 0;
+    private readonly calls: CallFrame[] = [];
+    private context: NoteContext<N>;
+    private text: string; // Text of the code being run; a library function's text while it runs
+
+    constructor(text: string, private readonly options: EvaluationOptions<N>) {
+        this.text = text;
+        this.now = options.now || new Date();
+        this.context = { this: options.note, that: options.note };
+        for (const fn of options.functions || []) this.functions.set(fn.declaration.name.name, fn);
+    }
+
+    run(program: Program, locals: Locals): Value | undefined {
+        for (const stmt of program.body) {
+            if (stmt.kind === 'FunctionDeclaration') this.functions.set(stmt.name.name, { declaration: stmt, text: this.text });
+        }
+        let last: Value | undefined;
+        try {
+            for (const stmt of program.body) {
+                last = this.execute(stmt, locals) ?? last;
+            }
+        } catch (signal) {
+            if (signal instanceof ReturnSignal) return signal.value;
+            throw signal;
+        }
+        return last;
+    }
+
+    // Returns the value of an expression statement, so the last one can be reported
+    private execute(stmt: Statement, locals: Locals): Value | undefined {
+        if (++this.steps > (this.options.maxSteps ?? 100000)) {
+            throw new EvaluationError(`Evaluation stopped after ${this.options.maxSteps ?? 100000} steps. Is there an endless loop?`, stmt.start, stmt.end);
+        }
+        if (stmt.kind !== 'Block' && stmt.kind !== 'FunctionDeclaration') {
+            this.options.onStatement?.(stmt, { locals, calls: this.calls, note: this.context.this });
+        }
+
+        switch (stmt.kind) {
+            case 'FunctionDeclaration':
+                return undefined;
+            case 'Block': {
+                let last: Value | undefined;
+                for (const inner of stmt.body) last = this.execute(inner, locals) ?? last;
+                return last;
+            }
+            case 'VarDeclaration': {
+                const init = stmt.init ? this.evaluate(stmt.init, locals) : str('');
+                locals.set(stmt.name.name, stmt.varType ? coerce(init, stmt.varType.name, this.now) : init);
+                return undefined;
+            }
+            case 'ExpressionStatement':
+                return this.evaluate(stmt.expression, locals);
+            case 'IfStatement':
+                if (toBoolean(this.evaluate(stmt.test, locals))) return this.execute(stmt.consequent, locals);
+                if (stmt.alternate) return this.execute(stmt.alternate, locals);
+                return undefined;
+            case 'WhileStatement':
+                while (toBoolean(this.evaluate(stmt.test, locals))) this.execute(stmt.body, locals);
+                return undefined;
+            case 'ReturnStatement':
+                throw new ReturnSignal(stmt.argument ? this.evaluate(stmt.argument, locals) : undefined);
+            case 'AssignmentStatement': {
+                const current = stmt.operator === '=' ? undefined : this.evaluate(stmt.target, locals);
+                let value = this.evaluate(stmt.value, locals);
+                if (current) value = this.applyCompound(stmt.operator, current, value, stmt);
+                this.assign(stmt.target, value, locals);
+                return undefined;
+            }
+        }
+    }
+
+    private applyCompound(operator: string, current: Value, value: Value, node: Node): Value {
+        switch (operator) {
+            case '+=': return this.binary('+', current, value, node);
+            case '-=': return this.binary('-', current, value, node);
+            case '*=': return this.binary('*', current, value, node);
+            case '/=': return this.binary('/', current, value, node);
+            case '|=': return bool(toBoolean(current) || toBoolean(value));
+            case '&=': return bool(toBoolean(current) && toBoolean(value));
+        }
+        throw new EvaluationError(`Unsupported assignment operator '${operator}'.`, node.start, node.end);
+    }
+
+    private assign(target: Expression, value: Value, locals: Locals) {
+        if (target.kind === 'Identifier') {
+            if (!locals.has(target.name)) {
+                throw new EvaluationError(`'${target.name}' is not a declared variable.`, target.start, target.end);
+            }
+            const previous = locals.get(target.name)!;
+            // Variables keep the type they were declared with
+            locals.set(target.name, previous.type === value.type || previous.type === 'string' ? value : coerce(value, previous.type, this.now));
+        } else if (target.kind === 'AttributeRef') {
+            if (!this.options.host.setAttribute) {
+                throw new EvaluationError(`Assigning to '${target.name}' is not allowed here.`, target.start, target.end);
+            }
+            this.withHost(target, () => this.options.host.setAttribute!(target.name.substring(1), value, target.designator?.text, this.context));
+        } else {
+            throw new EvaluationError(`Only variables and attributes can be assigned to.`, target.start, target.end);
+        }
+    }
+
+    private withHost<T>(node: Node, action: () => T): T {
+        try {
+            return action();
+        } catch (err) {
+            if (err instanceof EvaluationError) throw err;
+            throw new EvaluationError(err instanceof Error ? err.message : String(err), node.start, node.end);
+        }
+    }
+
+    evaluate(expr: Expression, locals: Locals): Value {
+        switch (expr.kind) {
+            case 'NumberLiteral': return num(expr.value);
+            case 'StringLiteral': return str(expr.value);
+            case 'BooleanLiteral': return bool(expr.value);
+            case 'ColorLiteral': return { type: 'color', value: expr.raw };
+            case 'PathLiteral': return str(expr.text);
+            case 'GroupExpression': return this.evaluate(expr.expression, locals);
+            case 'ListLiteral': {
+                const items: string[] = [];
+                for (const element of expr.elements) {
+                    const v = this.evaluate(element, locals);
+                    if (v.type === 'list' || v.type === 'set') items.push(...v.value);
+                    else items.push(toText(v));
+                }
+                return list(items);
+            }
+            case 'Identifier': {
+                const v = locals.get(expr.name);
+                if (v) return v;
+                if (expr.name === 'true' || expr.name === 'false') return bool(expr.name === 'true');
+                if (DATE_KEYWORDS.includes(expr.name)) return { type: 'date', value: parseDate(expr.name, this.now) ?? null };
+                throw new EvaluationError(`'${expr.name}' is not a declared variable.`, expr.start, expr.end);
+            }
+            case 'AttributeRef':
+                return this.withHost(expr, () => this.options.host.getAttribute(expr.name.substring(1), expr.designator?.text, this.context));
+            case 'UnaryExpression': {
+                const v = this.evaluate(expr.argument, locals);
+                if (expr.operator === '!') return bool(!toBoolean(v));
+                if (v.type === 'interval') return { type: 'interval', value: -v.value };
+                return num(-toNumber(v));
+            }
+            case 'BinaryExpression': {
+                // Logical joins short-circuit
+                if (expr.operator === '&' || expr.operator === '&&') {
+                    return bool(toBoolean(this.evaluate(expr.left, locals)) && toBoolean(this.evaluate(expr.right, locals)));
+                }
+                if (expr.operator === '|' || expr.operator === '||') {
+                    return bool(toBoolean(this.evaluate(expr.left, locals)) || toBoolean(this.evaluate(expr.right, locals)));
+                }
+                return this.binary(expr.operator, this.evaluate(expr.left, locals), this.evaluate(expr.right, locals), expr);
+            }
+            case 'IndexExpression': {
+                const object = this.evaluate(expr.object, locals);
+                const index = this.evaluate(expr.index, locals);
+                if (object.type === 'dictionary') return str(object.value.get(toText(index)) ?? '');
+                return this.listAt(toList(object), toNumber(index));
+            }
+            case 'CallExpression':
+                return this.call(expr.callee.name, expr.args, locals, expr);
+            case 'MemberExpression':
+                return this.callMethod(this.evaluate(expr.object, locals), expr.property.name, expr.args || [], locals, expr);
+            case 'EachExpression': {
+                if (!expr.object) {
+                    throw new EvaluationError(`'${expr.method.name}()' needs a document and cannot be evaluated here.`, expr.start, expr.end);
+                }
+                const object = this.evaluate(expr.object, locals);
+                const items = expr.method.name === 'eachLine' ? toText(object).split(/\r?\n/) : toList(object);
+                const loopVar = expr.params[0]?.name.name;
+                for (const item of items) {
+                    if (loopVar) locals.set(loopVar, str(item));
+                    this.execute(expr.body, locals);
+                }
+                if (loopVar) locals.delete(loopVar);
+                return str('');
+            }
+            case 'ErrorExpression':
+                throw new EvaluationError(`The expression could not be parsed.`, expr.start, expr.end);
+        }
+    }
+
+    private binary(operator: string, left: Value, right: Value, node: Node): Value {
+        switch (operator) {
+            case '==':
+            case '=': return bool(valuesEqual(left, right));
+            case '!=': return bool(!valuesEqual(left, right));
+            case '<': return bool(compareValues(left, right) < 0);
+            case '>': return bool(compareValues(left, right) > 0);
+            case '<=': return bool(compareValues(left, right) <= 0);
+            case '>=': return bool(compareValues(left, right) >= 0);
+        }
+
+        // Lists grow and shrink with + and -
+        if (left.type === 'list' || left.type === 'set') {
+            if (operator === '+') return list([...left.value, ...toList(right)], left.type);
+            if (operator === '-') {
+                const removed = new Set(toList(right));
+                return list(left.value.filter(item => !removed.has(item)), left.type);
+            }
+        }
+        // Dates move by intervals, or by a number of days
+        if (left.type === 'date' && (operator === '+' || operator === '-')) {
+            if (!left.value) return left;
+            if (right.type === 'date') {
+                return { type: 'interval', value: left.value.getTime() - (right.value ? right.value.getTime() : 0) };
+            }
+            const ms = right.type === 'interval' ? right.value : toNumber(right) * MS_PER_DAY;
+            return { type: 'date', value: new Date(left.value.getTime() + (operator === '+' ? ms : -ms)) };
+        }
+        if (left.type === 'interval' && (right.type === 'interval' || right.type === 'number') && (operator === '+' || operator === '-')) {
+            const ms = right.type === 'interval' ? right.value : toNumber(right) * MS_PER_SECOND;
+            return { type: 'interval', value: left.value + (operator === '+' ? ms : -ms) };
+        }
+
+        // '+' joins text unless both sides are numbers
+        const isNumeric = (v: Value) => v.type === 'number' || v.type === 'boolean';
+        if (operator === '+' && !(isNumeric(left) && isNumeric(right))) {
+            return str(toText(left) + toText(right));
+        }
+
+        const a = toNumber(left);
+        const b = toNumber(right);
+        switch (operator) {
+            case '+': return num(a + b);
+            case '-': return num(a - b);
+            case '*': return num(a * b);
+            case '/':
+                if (b === 0) throw new EvaluationError(`Division by zero.`, node.start, node.end);
+                return num(a / b);
+        }
+        throw new EvaluationError(`Unsupported operator '${operator}'.`, node.start, node.end);
+    }
+
+    private listAt(items: string[], index: number): Value {
+        const i = index < 0 ? items.length + index : index;
+        return str(items[i] ?? '');
+    }
+
+    // Calls a user function, or a built-in function
+    private call(name: string, argNodes: Expression[], locals: Locals, node: Node): Value {
+        const entry = this.functions.get(name);
+        if (entry) {
+            const fn = entry.declaration;
+            const frame: Locals = new Map();
+            fn.params.forEach((param, i) => {
+                const arg = argNodes[i] ? this.evaluate(argNodes[i], locals) : str('');
+                frame.set(param.name.name, param.paramType ? coerce(arg, param.paramType.name, this.now) : arg);
+            });
+            const callerText = this.text;
+            this.text = entry.text;
+            this.calls.push({ name, source: entry.source, call: node, locals: frame });
+            try {
+                this.execute(fn.body, frame);
+                return str('');
+            } catch (signal) {
+                if (signal instanceof ReturnSignal) {
+                    const value = signal.value ?? str('');
+                    return fn.returnType ? coerce(value, fn.returnType.name, this.now) : value;
+                }
+                // The innermost function call an error passes through contains it
+                if (signal instanceof EvaluationError && !signal.located) {
+                    signal.source = entry.source;
+                    signal.located = true;
+                }
+                throw signal;
+            } finally {
+                this.calls.pop();
+                this.text = callerText;
+            }
+        }
+
+        if (this.options.host.resolveNotes) {
+            const result = this.callDocumentFunction(name, argNodes, locals, node);
+            if (result) return result;
+        }
+
+        const args = argNodes.map(arg => this.evaluate(arg, locals));
+        const argNumber = (i: number, fallback = 0) => args[i] ? toNumber(args[i]) : fallback;
+        const argText = (i: number) => args[i] ? toText(args[i]) : '';
+        const argDate = (i: number): Date | null => {
+            const v = args[i] ? coerce(args[i], 'date', this.now) : { type: 'date', value: null };
+            return v.type === 'date' ? v.value : null;
+        };
+        const between = (unit: number) => {
+            const start = argDate(0);
+            const end = argDate(1);
+            return num(start && end ? Math.trunc((end.getTime() - start.getTime()) / unit) : 0);
+        };
+        const adjustDate = (apply: (d: Date, n: number) => void, read: (d: Date) => number): Value => {
+            const date = argDate(0);
+            if (args.length < 2) return num(date ? read(date) : 0);
+            if (!date) return { type: 'date', value: null };
+            const copy = new Date(date.getTime());
+            apply(copy, argNumber(1));
+            return { type: 'date', value: copy };
+        };
+
+        switch (name) {
+            // Mathematical
+            case 'abs': return num(Math.abs(argNumber(0)));
+            case 'ceil': return num(Math.ceil(argNumber(0)));
+            case 'floor': return num(Math.floor(argNumber(0)));
+            case 'round': return num(Math.round(argNumber(0)));
+            case 'sqrt': return num(Math.sqrt(argNumber(0)));
+            case 'pow': return num(Math.pow(argNumber(0), argNumber(1)));
+            case 'exp': return num(Math.exp(argNumber(0)));
+            case 'log': return num(Math.log(argNumber(0)));
+            case 'sin': return num(Math.sin(argNumber(0)));
+            case 'cos': return num(Math.cos(argNumber(0)));
+            case 'tan': return num(Math.tan(argNumber(0)));
+            case 'atan': return num(Math.atan(argNumber(0)));
+            case 'degrees': return num(argNumber(0) * 180 / Math.PI);
+            case 'radians': return num(argNumber(0) * Math.PI / 180);
+            case 'mod': return num(argNumber(0) % argNumber(1));
+            case 'min':
+            case 'max': {
+                const values = args.flatMap(a => a.type === 'number' ? [a.value] : toList(a).map(parseFloat)).filter(n => !isNaN(n));
+                return num(values.length === 0 ? 0 : (name === 'min' ? Math.min(...values) : Math.max(...values)));
+            }
+            case 'between': return bool(argNumber(0) >= argNumber(1) && argNumber(0) <= argNumber(2));
+
+            // Strings
+            case 'string': return str(argText(0));
+            case 'capitalize': return this.callMethod(str(argText(0)), 'capitalize', [], locals, node);
+            case 'lowercase': return str(argText(0).toLowerCase());
+            case 'uppercase': return str(argText(0).toUpperCase());
+            case 'substr': return this.substr(argText(0), argNumber(1), args[2] ? argNumber(2) : undefined);
+            case 'firstWord': return str(argText(0).trim().split(/\s+/)[0] || '');
+            case 'lastWord': {
+                const words = argText(0).trim().split(/\s+/);
+                return str(words[words.length - 1] || '');
+            }
+            case 'urlEncode': return str(encodeURIComponent(argText(0)));
+            case 'escapeHTML':
+            case 'attributeEncode':
+                return str(argText(0).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;'));
+            case 'jsonEncode': return str(JSON.stringify(argText(0)).slice(1, -1));
+
+            // Collections
+            case 'dictionary': return { type: 'dictionary', value: toDictionary(str(argText(0))) };
+
+            // Dates and intervals
+            case 'date': {
+                if (args.length >= 3) {
+                    return { type: 'date', value: new Date(argNumber(0), argNumber(1) - 1, argNumber(2), argNumber(3), argNumber(4)) };
+                }
+                if (args[0]?.type === 'date') return args[0];
+                const date = parseDate(argText(0), this.now);
+                if (date === undefined) throw new EvaluationError(`'${argText(0)}' is not a date.`, node.start, node.end);
+                return { type: 'date', value: date };
+            }
+            case 'interval': {
+                if (args.length >= 2) {
+                    const start = argDate(0);
+                    const end = argDate(1);
+                    return { type: 'interval', value: start && end ? end.getTime() - start.getTime() : 0 };
+                }
+                return coerce(args[0] || str(''), 'interval', this.now);
+            }
+            case 'time': {
+                const date = argDate(0);
+                if (args.length === 1) return str(date ? `${pad(date.getHours())}:${pad(date.getMinutes())}` : '');
+                if (!date) return { type: 'date', value: null };
+                const copy = new Date(date.getTime());
+                copy.setHours(argNumber(1), argNumber(2), argNumber(3), 0);
+                return { type: 'date', value: copy };
+            }
+            case 'year': return adjustDate((d, n) => d.setFullYear(n), d => d.getFullYear());
+            case 'month': return adjustDate((d, n) => d.setMonth(n - 1), d => d.getMonth() + 1);
+            case 'day': return adjustDate((d, n) => d.setDate(n), d => d.getDate());
+            case 'hour': return adjustDate((d, n) => d.setHours(n), d => d.getHours());
+            case 'minute': return adjustDate((d, n) => d.setMinutes(n), d => d.getMinutes());
+            case 'seconds': return between(MS_PER_SECOND);
+            case 'minutes': return between(MS_PER_MINUTE);
+            case 'hours': return between(MS_PER_HOUR);
+            case 'days': return between(MS_PER_DAY);
+            case 'weeks': return between(7 * MS_PER_DAY);
+            case 'months':
+            case 'years': {
+                const start = argDate(0);
+                const end = argDate(1);
+                if (!start || !end) return num(0);
+                const months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth() - (end.getDate() < start.getDate() ? 1 : 0);
+                return num(name === 'months' ? months : Math.trunc(months / 12));
+            }
+
+            // Colors
+            case 'rgb': return { type: 'color', value: toHex(argNumber(0), argNumber(1), argNumber(2)) };
+        }
+
+        throw new EvaluationError(`'${name}()' is not available in the evaluator: it is unknown or needs a Tinderbox document.`, node.start, node.end);
+    }
+
+    // --- Document access ---
+
+    private resolveNotes(designator: string, node: Node): N[] {
+        return this.withHost(node, () => this.options.host.resolveNotes!(designator, this.context));
+    }
+
+    // Runs fn with `this` set to note and `that` to the note running the code
+    private inNote<T>(note: N, fn: () => T): T {
+        const saved = this.context;
+        this.context = { this: note, that: saved.this };
+        try {
+            return fn();
+        } finally {
+            this.context = saved;
+        }
+    }
+
+    // A scope argument: a designator (`children`, `/Projects`, `"Note"`, `descendants(parent)`),
+    // find(...), or a variable holding a list of note paths
+    private resolveScope(arg: Expression, locals: Locals): N[] {
+        if (arg.kind === 'CallExpression' && arg.callee.name === 'find') {
+            return this.findNotes(arg.args[0], locals, arg);
+        }
+        if (arg.kind === 'Identifier' && locals.has(arg.name)) {
+            return toList(locals.get(arg.name)!).flatMap(path => this.resolveNotes(path, arg));
+        }
+        return this.resolveNotes(this.text.substring(arg.start, arg.end), arg);
+    }
+
+    private findNotes(query: Expression | undefined, locals: Locals, node: Node): N[] {
+        if (!query) throw new EvaluationError(`'find()' expects a query.`, node.start, node.end);
+        return this.resolveNotes('all', node).filter(note => this.inNote(note, () => toBoolean(this.evaluate(query, locals))));
+    }
+
+    private notePath(note: N, node: Node): string {
+        return toText(this.withHost(node, () => this.options.host.getAttribute('Path', undefined, { this: note, that: note })));
+    }
+
+    private inheritsFrom(note: N, prototype: string, node: Node): boolean {
+        const seen = new Set<N>();
+        let current: N | undefined = note;
+        while (current !== undefined && !seen.has(current)) {
+            seen.add(current);
+            const name = toText(this.withHost(node, () => this.options.host.getAttribute('Prototype', undefined, { this: current, that: current })));
+            if (name === '') return false;
+            if (name === prototype) return true;
+            current = this.resolveNotes(JSON.stringify(name), node)[0];
+        }
+        return false;
+    }
+
+    // Group operators, find() and link queries. Returns undefined for anything else.
+    private callDocumentFunction(name: string, argNodes: Expression[], locals: Locals, node: Node): Value | undefined {
+        const require = (count: number) => {
+            if (argNodes.length < count) throw new EvaluationError(`'${name}()' expects ${count} arguments.`, node.start, node.end);
+        };
+
+        if (GROUP_FUNCTIONS.includes(name)) {
+            require(name === 'count' ? 1 : name === 'values' ? 1 : 2);
+            // count() also takes a list, and values() an attribute name only
+            const first = argNodes[0];
+            if (name === 'count' && (first.kind === 'ListLiteral' || first.kind === 'MemberExpression' || (first.kind === 'Identifier' && locals.has(first.name)))) {
+                return num(toList(this.evaluate(first, locals)).length);
+            }
+            if (name === 'values' && argNodes.length === 1) {
+                const attribute = toText(this.evaluate(argNodes[0], locals)).replace(/^\$/, '');
+                return list(unique(this.resolveNotes('all', node).flatMap(note =>
+                    toList(this.inNote(note, () => this.withHost(node, () => this.options.host.getAttribute(attribute, undefined, this.context)))))), 'set');
+            }
+            const notes = this.resolveScope(argNodes[0], locals);
+            const each = <T>(index: number, fn: (v: Value) => T): T[] => notes.map(note => this.inNote(note, () => fn(this.evaluate(argNodes[index], locals))));
+            const matching = () => notes.filter(note => this.inNote(note, () => toBoolean(this.evaluate(argNodes[1], locals))));
+            const valuesOf = (items: N[], index: number) => items.map(note => this.inNote(note, () => this.evaluate(argNodes[index], locals)));
+            const average = (values: Value[]) => num(values.length === 0 ? 0 : values.reduce((sum, v) => sum + toNumber(v), 0) / values.length);
+            switch (name) {
+                case 'collect': return list(each(1, v => toList(v)).flat());
+                case 'collect_if': require(3); return list(valuesOf(matching(), 2).flatMap(v => toList(v)));
+                case 'count': return num(notes.length);
+                case 'count_if': return num(matching().length);
+                case 'sum': return num(each(1, v => toNumber(v)).reduce((a, b) => a + b, 0));
+                case 'sum_if': require(3); return num(valuesOf(matching(), 2).reduce((sum, v) => sum + toNumber(v), 0));
+                case 'avg': return average(valuesOf(notes, 1));
+                case 'avg_if': require(3); return average(valuesOf(matching(), 2));
+                case 'any': return bool(notes.some(note => this.inNote(note, () => toBoolean(this.evaluate(argNodes[1], locals)))));
+                case 'every': return bool(notes.every(note => this.inNote(note, () => toBoolean(this.evaluate(argNodes[1], locals)))));
+                case 'values': {
+                    const attribute = toText(this.evaluate(argNodes[1], locals)).replace(/^\$/, '');
+                    return list(unique(notes.flatMap(note =>
+                        toList(this.inNote(note, () => this.withHost(node, () => this.options.host.getAttribute(attribute, undefined, this.context)))))), 'set');
+                }
+            }
+        }
+
+        switch (name) {
+            case 'find':
+                return list(this.findNotes(argNodes[0], locals, node).map(note => this.notePath(note, node)));
+            case 'linkedTo':
+            case 'linkedFrom': {
+                require(1);
+                const host = this.options.host;
+                const self = this.context.this;
+                if (!host.isLinked || self === undefined) return undefined;
+                const linkType = argNodes[1] ? toText(this.evaluate(argNodes[1], locals)) : undefined;
+                const others = this.resolveScope(argNodes[0], locals);
+                return bool(others.some(other => name === 'linkedTo' ? host.isLinked!(self, other, linkType) : host.isLinked!(other, self, linkType)));
+            }
+            case 'inheritsFrom': {
+                require(1);
+                const notes = argNodes.length >= 2 ? this.resolveScope(argNodes[0], locals) : (this.context.this !== undefined ? [this.context.this] : []);
+                const prototype = toText(this.evaluate(argNodes[argNodes.length - 1], locals));
+                return bool(notes.length > 0 && notes.every(note => this.inheritsFrom(note, prototype, node)));
+            }
+        }
+        return undefined;
+    }
+
+    private substr(text: string, start: number, length?: number): Value {
+        return str(length === undefined ? text.substring(start) : text.substr(start, length));
+    }
+
+    // Dot operators. Strings fall back to list operators, since a list is stored as 'a;b;c'.
+    private callMethod(receiver: Value, name: string, argNodes: Expression[], locals: Locals, node: Node): Value {
+        if (LOOP_METHODS.includes(name)) {
+            return this.callLoopMethod(receiver, name, argNodes, locals, node);
+        }
+        const args = argNodes.map(arg => this.evaluate(arg, locals));
+        const argText = (i: number) => args[i] ? toText(args[i]) : '';
+        const argNumber = (i: number, fallback = 0) => args[i] ? toNumber(args[i]) : fallback;
+        const fail = () => new EvaluationError(`'.${name}()' is not available for ${receiver.type} values in the evaluator.`, node.start, node.end);
+
+        switch (receiver.type) {
+            case 'number': {
+                const n = receiver.value;
+                switch (name) {
+                    case 'format': {
+                        if (args[0] && args[0].type === 'string' && isNaN(parseFloat(args[0].value))) {
+                            throw new EvaluationError(`Format strings are not supported by the evaluator; use .format(decimals[, width, pad]).`, node.start, node.end);
+                        }
+                        const text = n.toFixed(Math.max(0, Math.min(20, argNumber(0))));
+                        return str(args[1] ? text.padStart(argNumber(1), argText(2) || ' ') : text);
+                    }
+                    case 'precision': {
+                        const factor = Math.pow(10, argNumber(0));
+                        return num(Math.round(n * factor) / factor);
+                    }
+                    case 'round': return num(Math.round(n));
+                    case 'floor': return num(Math.floor(n));
+                    case 'ceil': return num(Math.ceil(n));
+                }
+                break;
+            }
+            case 'date': {
+                const d = receiver.value;
+                const part = (read: (date: Date) => number) => num(d ? read(d) : 0);
+                switch (name) {
+                    case 'year': return part(date => date.getFullYear());
+                    case 'month': return part(date => date.getMonth() + 1);
+                    case 'day': return part(date => date.getDate());
+                    case 'hour': return part(date => date.getHours());
+                    case 'minute': return part(date => date.getMinutes());
+                    case 'second': return part(date => date.getSeconds());
+                    case 'weekday': return part(date => date.getDay() + 1);
+                    case 'week': return part(date => {
+                        const jan1 = new Date(date.getFullYear(), 0, 1);
+                        return Math.ceil(((date.getTime() - jan1.getTime()) / MS_PER_DAY + jan1.getDay() + 1) / 7);
+                    });
+                    case 'format': return str(formatDate(d, argText(0)));
+                }
+                break;
+            }
+            case 'interval': {
+                const ms = receiver.value;
+                switch (name) {
+                    case 'day': return num(Math.trunc(ms / MS_PER_DAY));
+                    case 'hour': return num(Math.trunc((ms % MS_PER_DAY) / MS_PER_HOUR));
+                    case 'minute': return num(Math.trunc((ms % MS_PER_HOUR) / MS_PER_MINUTE));
+                    case 'second': return num(Math.trunc((ms % MS_PER_MINUTE) / MS_PER_SECOND));
+                    case 'format': {
+                        if (ms === 0) return str('');
+                        const hours = Math.trunc(ms / MS_PER_HOUR);
+                        const minutes = Math.round((ms % MS_PER_HOUR) / MS_PER_MINUTE);
+                        return str(argText(0) === 'L' ? `${hours} hours, ${minutes} minutes` : `${hours}:${pad(minutes)}`);
+                    }
+                }
+                break;
+            }
+            case 'color': {
+                const [r, g, b] = parseColor(receiver, this.options.colors, node);
+                const [h, s, v] = rgbToHsv(r, g, b);
+                switch (name) {
+                    case 'red': return num(r);
+                    case 'green': return num(g);
+                    case 'blue': return num(b);
+                    case 'hue': return num(h);
+                    case 'saturation': return num(s);
+                    case 'brightness': return num(v);
+                    case 'format': return str(toHex(r, g, b));
+                }
+                break;
+            }
+            case 'dictionary': {
+                const map = receiver.value;
+                switch (name) {
+                    case 'keys': return list(Array.from(map.keys()));
+                    case 'count':
+                    case 'size': return num(map.size);
+                    case 'empty': return bool(map.size === 0);
+                    case 'contains': return bool(map.has(argText(0)));
+                    case 'icontains': return bool(Array.from(map.keys()).some(k => k.toLowerCase() === argText(0).toLowerCase()));
+                    case 'add':
+                    case 'extend': {
+                        const merged = new Map(map);
+                        toDictionary(args[0] || str('')).forEach((v, k) => merged.set(k, v));
+                        return { type: 'dictionary', value: merged };
+                    }
+                }
+                break;
+            }
+            case 'boolean':
+            case 'string': {
+                const result = this.stringMethod(toText(receiver), name, args, node);
+                if (result) return result;
+                break;
+            }
+        }
+
+        // Lists, sets and strings read as lists
+        if (receiver.type === 'list' || receiver.type === 'set' || receiver.type === 'string') {
+            const result = this.listMethod(toList(receiver), receiver.type === 'set' ? 'set' : 'list', name, args, node);
+            if (result) return result;
+        }
+        throw fail();
+    }
+
+    private stringMethod(s: string, name: string, args: Value[], node: Node): Value | undefined {
+        const argText = (i: number) => args[i] ? toText(args[i]) : '';
+        const argNumber = (i: number, fallback = 0) => args[i] ? toNumber(args[i]) : fallback;
+        switch (name) {
+            case 'lowercase': return str(s.toLowerCase());
+            case 'uppercase': return str(s.toUpperCase());
+            case 'capitalize': return str(s.replace(/(^|\s)(\S)/g, (_m, space: string, ch: string) => space + ch.toUpperCase()));
+            case 'size': return num(s.length);
+            case 'empty': return bool(s.length === 0);
+            case 'reverse': return str(Array.from(s).reverse().join(''));
+            case 'toNumber': return num(toNumber(str(s)));
+            case 'trim': {
+                if (!args[0]) return str(s.trim());
+                const chars = new Set(Array.from(argText(0)));
+                let start = 0;
+                let end = s.length;
+                while (start < end && chars.has(s[start])) start++;
+                while (end > start && chars.has(s[end - 1])) end--;
+                return str(s.substring(start, end));
+            }
+            case 'contains': return bool(makeRegex(argText(0), '', node).test(s));
+            case 'icontains': return bool(makeRegex(argText(0), 'i', node).test(s));
+            case 'containsAnyOf': return bool(toList(args[0] || str('')).some(p => makeRegex(p, '', node).test(s)));
+            case 'icontainsAnyOf': return bool(toList(args[0] || str('')).some(p => makeRegex(p, 'i', node).test(s)));
+            case 'beginsWith': return bool(s.startsWith(argText(0)));
+            case 'endsWith': return bool(s.endsWith(argText(0)));
+            case 'find': return num(s.indexOf(argText(0)));
+            case 'following': {
+                const index = s.indexOf(argText(0));
+                return str(index === -1 ? '' : s.substring(index + argText(0).length));
+            }
+            case 'replace': return str(s.replace(makeRegex(argText(0), 'g', node), argText(1)));
+            case 'split': return list(s.split(makeRegex(argText(0), '', node)));
+            case 'substr': return this.substr(s, argNumber(0), args[1] ? argNumber(1) : undefined);
+            case 'extract': {
+                const match = s.match(makeRegex(argText(0), args[1] && toBoolean(args[1]) ? 'i' : '', node));
+                return str(match ? (match[1] ?? match[0]) : '');
+            }
+            case 'extractAll': {
+                const regex = makeRegex(argText(0), args[1] && toBoolean(args[1]) ? 'gi' : 'g', node);
+                return list(Array.from(s.matchAll(regex)).map(m => m[1] ?? m[0]));
+            }
+            case 'countOccurrencesOf': {
+                const needle = argText(0);
+                return num(needle ? s.split(needle).length - 1 : 0);
+            }
+            case 'deleteCharacters': {
+                const chars = new Set(Array.from(argText(0)));
+                return str(Array.from(s).filter(ch => !chars.has(ch)).join(''));
+            }
+            case 'tr': {
+                const from = Array.from(argText(0));
+                const to = Array.from(argText(1));
+                return str(Array.from(s).map(ch => {
+                    const i = from.indexOf(ch);
+                    return i === -1 ? ch : (to[i] ?? '');
+                }).join(''));
+            }
+            case 'wordCount': return num(s.trim() === '' ? 0 : s.trim().split(/\s+/).length);
+            case 'wordList': return list(s.trim() === '' ? [] : s.trim().split(/\s+/));
+            case 'words': return str(s.trim().split(/\s+/).slice(0, argNumber(0)).join(' '));
+            case 'paragraphCount': return num(s === '' ? 0 : s.split(/\r?\n/).length);
+            case 'paragraphList': return list(s.split(/\r?\n/));
+            case 'paragraph': return str(s.split(/\r?\n/)[argNumber(0, 1) - 1] ?? '');
+            case 'paragraphs': return str(s.split(/\r?\n/).slice(0, argNumber(0)).join('\n'));
+            case 'jsonEncode': return str(JSON.stringify(s).slice(1, -1));
+        }
+        return undefined;
+    }
+
+    private listMethod(items: string[], type: 'list' | 'set', name: string, args: Value[], node: Node): Value | undefined {
+        const argText = (i: number) => args[i] ? toText(args[i]) : '';
+        const numbers = () => items.map(item => parseFloat(item)).filter(n => !isNaN(n));
+        switch (name) {
+            case 'count':
+            case 'size': return num(items.length);
+            case 'empty': return bool(items.length === 0);
+            case 'first': return str(items[0] ?? '');
+            case 'last': return str(items[items.length - 1] ?? '');
+            case 'at': return this.listAt(items, args[0] ? toNumber(args[0]) : 0);
+            case 'contains': return bool(items.includes(argText(0)));
+            case 'icontains': return bool(items.some(item => item.toLowerCase() === argText(0).toLowerCase()));
+            case 'containsAnyOf': return bool(toList(args[0] || str('')).some(p => items.some(item => makeRegex(p, '', node).test(item))));
+            case 'icontainsAnyOf': return bool(toList(args[0] || str('')).some(p => items.some(item => makeRegex(p, 'i', node).test(item))));
+            case 'countOccurrencesOf': return num(items.filter(item => item === argText(0)).length);
+            case 'sort': return list([...items].sort((a, b) => a < b ? -1 : a > b ? 1 : 0), type);
+            case 'isort': return list([...items].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase())), type);
+            case 'nsort': return list([...items].sort((a, b) => (parseFloat(a) || 0) - (parseFloat(b) || 0)), type);
+            case 'reverse': return list([...items].reverse(), type);
+            case 'unique': return list(unique(items), type);
+            case 'sum': return num(numbers().reduce((a, b) => a + b, 0));
+            case 'avg': {
+                const values = numbers();
+                return num(values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length);
+            }
+            case 'min':
+            case 'max': {
+                const values = numbers();
+                return values.length === items.length && values.length > 0
+                    ? num(name === 'min' ? Math.min(...values) : Math.max(...values))
+                    : str([...items].sort()[name === 'min' ? 0 : items.length - 1] ?? '');
+            }
+            case 'format':
+                if (args.length >= 4) {
+                    return str(argText(0) + items.map(item => argText(1) + item + argText(2)).join('') + argText(3));
+                }
+                return str(items.join(argText(0)));
+            case 'asString': return str(items.join(';'));
+            case 'extend': return list([...items, ...toList(args[0] || str(''))], type);
+            case 'intersect': {
+                const other = new Set(toList(args[0] || str('')));
+                return list(items.filter(item => other.has(item)), 'set');
+            }
+            case 'remove': return list(items.filter(item => item !== argText(0)), type);
+            case 'replace': {
+                const regex = makeRegex(argText(0), 'g', node);
+                return list(items.map(item => item.replace(regex, argText(1))), type);
+            }
+            case 'lookup': {
+                const prefix = argText(0) + ':';
+                const entry = items.find(item => item.startsWith(prefix));
+                return str(entry ? entry.substring(prefix.length) : '');
+            }
+        }
+        return undefined;
+    }
+
+    // list.collect(x, expression), list.any(x, condition), list.each(x){...} and friends
+    private callLoopMethod(receiver: Value, name: string, argNodes: Expression[], locals: Locals, node: Node): Value {
+        const loopVarNode = argNodes[0];
+        if (!loopVarNode || loopVarNode.kind !== 'Identifier') {
+            throw new EvaluationError(`'.${name}()' expects a loop variable as its first argument.`, node.start, node.end);
+        }
+        const loopVar = loopVarNode.name;
+        const items = toList(receiver);
+        const saved = locals.get(loopVar);
+        const forEach = (fn: (item: string) => void) => {
+            try {
+                for (const item of items) {
+                    locals.set(loopVar, str(item));
+                    fn(item);
+                }
+            } finally {
+                if (saved) locals.set(loopVar, saved);
+                else locals.delete(loopVar);
+            }
+        };
+        const test = (i: number) => toBoolean(this.evaluate(argNodes[i], locals));
+        const value = (i: number) => this.evaluate(argNodes[i], locals);
+        const require = (count: number) => {
+            if (argNodes.length < count) throw new EvaluationError(`'.${name}()' expects ${count} arguments.`, node.start, node.end);
+        };
+
+        switch (name) {
+            case 'collect': {
+                require(2);
+                const result: string[] = [];
+                forEach(() => result.push(...toList(value(1))));
+                return list(result);
+            }
+            case 'collect_if': {
+                require(3);
+                const result: string[] = [];
+                forEach(() => { if (test(1)) result.push(...toList(value(2))); });
+                return list(result);
+            }
+            case 'any': {
+                require(2);
+                let found = false;
+                forEach(() => { found = found || test(1); });
+                return bool(found);
+            }
+            case 'every': {
+                require(2);
+                let all = true;
+                forEach(() => { all = all && test(1); });
+                return bool(all);
+            }
+            case 'count_if': {
+                require(2);
+                let count = 0;
+                forEach(() => { if (test(1)) count++; });
+                return num(count);
+            }
+            case 'sum_if': {
+                require(2);
+                let sum = 0;
+                forEach(item => { if (test(1)) sum += argNodes[2] ? toNumber(value(2)) : (parseFloat(item) || 0); });
+                return num(sum);
+            }
+        }
+        throw new EvaluationError(`'.${name}()' needs a block and cannot be used as a value.`, node.start, node.end);
+    }
+}
+
+// Parses code for evaluation. The first syntax error is thrown as EvaluationError.
+export function parseForEvaluation(text: string): Program {
+    const { program, errors } = parse(text);
+    // A lone expression needs no semicolon
+    const firstError = errors.find(e => !(e.message.startsWith(`Expected ';'`) && e.start >= text.trimEnd().length));
+    if (firstError) {
+        throw new EvaluationError(`Syntax Error: ${firstError.message}`, firstError.start, firstError.end);
+    }
+    return program;
+}
+
+// Parses and runs the text. Syntax errors and runtime errors are thrown as EvaluationError,
+// with offsets relative to the text.
+export function evaluate<N>(text: string, options: EvaluationOptions<N>): EvaluationResult {
+    const program = parseForEvaluation(text);
+    const locals = options.locals || new Map<string, Value>();
+    const value = new Interpreter(text, options).run(program, locals);
+    return { value, locals };
+}
+
+// Evaluates one expression of a program parsed from text, e.g. a part of a condition
+export function evaluateExpression<N>(expr: Expression, text: string, options: EvaluationOptions<N>): Value {
+    return new Interpreter(text, options).evaluate(expr, options.locals || new Map<string, Value>());
+}
@@ -0,0 +1,4128 @@
+import {
+    SemanticTokensBuilder,
+    SemanticTokens,
+    Diagnostic,
+    DiagnosticSeverity,
+    DiagnosticRelatedInformation,
+    CompletionItem,
+    CompletionItemKind,
+    InsertTextFormat,
+    Hover,
+    Definition,
+    Location,
+    Range,
+    TextEdit,
+    DocumentSymbol,
+    SymbolKind,
+    InlayHint,
+    InlayHintKind,
+    CodeAction,
+    CodeActionKind,
+    SymbolInformation,
+    Position,
+    DiagnosticTag,
+    FormattingOptions,
+    SignatureHelp,
+    SignatureInformation,
+    ParameterInformation
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI, Utils } from 'vscode-uri';
+import { Token, tokenize } from './tokenizer';
+import { parse, parseExpression, walk, getChildren, Node, Program, Expression, Identifier, AttributeRef, VarDeclaration, FunctionDeclaration, Parameter } from './parser';
+import { TbxDocument, TbxNote } from './tbx';
+import { Value, EvaluationError, EvaluationHost, LibraryFunction, DATE_KEYWORDS, evaluate, coerce, valueFromJson } from './interpreter';
+import { AttributeChange, AttributeLookup, Fixture, FixtureNote, SimulationOptions, simulate } from './fixture';
+import { AgentQueryResult, runAgentQuery } from './query';
+import { TestResult, findTests, runTest } from './testing';
+import { DebugRecording, recordRun } from './debugging';
+
+// --- Language Service ---
+// Everything the language server knows about Tinderbox action code, without a connection: the resource
+// tables, the workspace's user functions, attributes and .tbx documents, and a method per feature that
+// works on plain text and offsets. The LSP server (server.ts) is an adapter over it; the command line
+// tools and other hosts can embed it directly.
+
+const tokenTypes = ['keyword', 'string', 'number', 'comment', 'variable', 'function', 'property', 'method', 'type', 'parameter', 'enumMember', 'class', 'interface', 'namespace', 'macro'];
+const tokenModifiers: string[] = ['declaration', 'definition', 'readonly', 'static', 'deprecated', 'abstract', 'async', 'modification', 'documentation', 'defaultLibrary'];
+export const SEMANTIC_TOKENS_LEGEND = { tokenTypes, tokenModifiers };
+
+export const ACTION_CODE_LANGUAGE_ID = 'tinderbox-action-code';
+export const EXPORT_CODE_LANGUAGE_ID = 'tinderbox-export-code';
+
+// Positions of results for text given without a document, e.g. the ranges of completion items, are in that text
+const UNTITLED_URI = 'untitled:tinderbox';
+
+function toDocument(text: string, languageId = ACTION_CODE_LANGUAGE_ID, uri = UNTITLED_URI): TextDocument {
+    return TextDocument.create(uri, languageId, 0, text);
+}
+
+export interface Logger {
+    log(message: string): void;
+    warn(message: string): void;
+    error(message: string): void;
+}
+
+export interface LanguageServiceHost {
+    // Text of a file in the resource folder (operators.csv, system_attributes.csv, ...), or undefined when it is missing
+    readResource(name: string): Promise<string | undefined>;
+    logger?: Logger;
+}
+
+const silentLogger: Logger = { log() { }, warn() { }, error() { } };
+
+// Workspace Symbol Cache
+export interface GlobalSymbol {
+    name: string;
+    kind: SymbolKind;
+    location: Location; // Full range
+    selectionRange: Range; // Name range
+    description?: string;
+    signature?: string;
+    entrypoint?: boolean; // A function documented with `// @entrypoint`: called from outside the workspace, e.g. by a stamp
+}
+
+export interface ValidationOptions {
+    uri?: string; // Document URI for the locations of related information
+    suppressSemicolon?: boolean; // The text is a single expression, e.g. $AgentQuery or $DisplayExpression
+    isCondition?: boolean; // The text is a condition, e.g. $AgentQuery
+    relatedInformation?: boolean; // Whether the client shows related information; defaults to true
+    exportTag?: string; // Lowercase name of the export tag whose argument the text is, e.g. 'action'
+}
+
+// language: 'en' or 'ja', for descriptions
+export interface PresentationOptions {
+    languageId?: string; // 'tinderbox-action-code' (default) or 'tinderbox-export-code'
+    language?: string;
+}
+
+// Errors are given as offsets into the evaluated text, or into the library function's text when source is set
+export interface EvaluationFailure {
+    message: string;
+    start: number;
+    end: number;
+    source?: string;
+}
+
+export interface EvaluationOutcome {
+    value?: Value;
+    attributes?: Map<string, Value>; // Attributes the code assigned to
+    error?: EvaluationFailure;
+}
+
+export interface SimulationOutcome {
+    changes: AttributeChange[];
+    value?: Value;
+    error?: EvaluationFailure;
+}
+
+export interface AgentQueryOutcome extends AgentQueryResult {
+    error?: EvaluationFailure;
+}
+
+// --- Resource Tables ---
+interface OperatorParameter {
+    name: string; // e.g. 'scope', 'condition', 'linkTypeStr'
+    optional: boolean;
+    kind: 'scope' | 'condition' | 'regex' | 'value';
+    type?: string; // Data type implied by the name suffix, e.g. 'string' for dataStr
+    variadic?: boolean; // Accepts any number of further arguments, e.g. do(macroStr[,argumentsList]) or list(expressionList)
+}
+
+interface TinderboxOperator {
+    name: string;
+    type: string; // OpType
+    returnType: string; // OpReturnType
+    isDotOp: boolean;
+    opScope: string;
+    signature: string;
+    description: string;
+    descriptionJa?: string;
+    kind: CompletionItemKind;
+    callName: string; // Identifier used at the call site: 'collect_if', or 'replace' for String.replace()
+    argumentFlags: OperatorArgumentFlags;
+    parameters?: OperatorParameter[]; // Undefined when the label is not a plain call form
+    minArgs: number;
+    maxArgs: number;
+}
+
+// operators.csv flag columns that describe an operator's arguments
+interface OperatorArgumentFlags {
+    numberOfArgs: number; // Infinity when the CSV leaves it empty or gives '*'
+    hasNeededArguments: boolean;
+    hasOptionalArgument: boolean;
+    hasScopeArgument: boolean;
+    hasRegExArgument: boolean;
+    hasConditionalArgument: boolean;
+}
+
+// Type suffixes used by parameter names in the operator signatures, e.g. dataStr, sourceNum, regexList
+const PARAMETER_TYPE_SUFFIXES: [RegExp, string][] = [
+    [/(Str|String)$/, 'string'],
+    [/(Num|Number)$/, 'number'],
+    [/List$/, 'list'],
+    [/Set$/, 'set'],
+    [/Dict$/, 'dictionary'],
+    [/Date$/, 'date'],
+    [/Bln$/, 'boolean'],
+    [/Color$/, 'color']
+];
+
+interface SystemAttribute {
+    name: string;
+    type: string;
+    group: string;
+    defaultValue: string;
+    readOnly: boolean;
+    description: string;
+    descriptionJa?: string;
+    source?: string; // URI of the declaration file for user attributes
+}
+
+interface DataType {
+    name: string;
+    description: string;
+    descriptionJa?: string;
+}
+
+interface TinderboxDesignator {
+    name: string;
+    description: string;
+    descriptionJa?: string;
+}
+
+interface TinderboxColor {
+    name: string;
+    description: string;
+    descriptionJa?: string;
+    colorValue?: string;
+}
+
+// Reserved words strictly from file (for Completion)
+interface TinderboxExportTag {
+    name: string;
+    description: string;
+    descriptionJa?: string;
+}
+
+export function extractSymbolsFromText(text: string, uri: string, doc: TextDocument): GlobalSymbol[] {
+    const { program, tokens } = parse(text);
+    const symbols: GlobalSymbol[] = [];
+    const rangeOf = (start: number, end: number) => Range.create(doc.positionAt(start), doc.positionAt(end));
+
+    walk(program, node => {
+        if (node.kind === 'FunctionDeclaration') {
+            if (!node.name.name) return;
+            // Full range runs from the 'function' keyword to the closing brace of the body
+            let end = node.end;
+            // Include trailing semicolon if present
+            if (text[end] === ';') end++;
+            const nameIndex = tokens.findIndex(t => t.start === node.name.start);
+            const description = extractPrecedingComments(tokens, nameIndex);
+            symbols.push({
+                name: node.name.name,
+                kind: SymbolKind.Function,
+                location: Location.create(uri, rangeOf(node.start, end)),
+                selectionRange: rangeOf(node.name.start, node.name.end),
+                description,
+                signature: text.substring(node.name.start, node.paramsEnd),
+                // Block tags are bold at the start of their line in the description
+                entrypoint: /^\*\*@entrypoint\*\*/m.test(description) || undefined
+            });
+        } else if (node.kind === 'VarDeclaration' || node.kind === 'Parameter') {
+            // Local variables, function arguments and loop variables of .each()
+            if (!node.name.name) return;
+            const nameRange = rangeOf(node.name.start, node.name.end);
+            symbols.push({
+                name: node.name.name,
+                kind: SymbolKind.Variable,
+                location: Location.create(uri, nameRange),
+                selectionRange: nameRange
+            });
+        }
+    });
+    return symbols.sort((a, b) => doc.offsetAt(a.selectionRange.start) - doc.offsetAt(b.selectionRange.start));
+}
+
+// The parameters of a function signature such as "fmtDate(d: date)", without whitespace, for comparing definitions
+// The declared type of each parameter of a signature such as "fmtDate(d:date, format)", undefined where none is declared
+function parameterTypes(signature: string): (string | undefined)[] {
+    const open = signature.indexOf('(');
+    if (open < 0) return [];
+    const close = signature.indexOf(')', open);
+    const list = signature.substring(open + 1, close < 0 ? undefined : close).trim();
+    if (!list) return [];
+    return list.split(',').map(param => {
+        const colon = param.indexOf(':');
+        return colon < 0 ? undefined : param.substring(colon + 1).trim().toLowerCase() || undefined;
+    });
+}
+
+// Parameter lists match when they are as long and no parameter is declared with a different type on each side
+function sameParameters(a: (string | undefined)[], b: (string | undefined)[]): boolean {
+    return a.length === b.length && a.every((type, i) => !type || !b[i] || type === b[i]);
+}
+
+function extractPrecedingComments(tokens: Token[], identifierIndex: number): string {
+    // identifierIndex is the index of the function name
+    // The keyword 'function' should be just before it (skipping whitespace)
+    let j = identifierIndex - 1;
+    while (j >= 0 && tokens[j].type === 'Whitespace') j--;
+    if (j < 0 || tokens[j].value !== 'function') return '';
+
+    // Scan backwards from 'function' keyword
+    let k = j - 1;
+    const comments: string[] = [];
+    while (k >= 0) {
+        const token = tokens[k];
+        if (token.type === 'Whitespace') {
+            // If it's a newline, we can check if it's multiple newlines
+            // but for now, just skip whitespace
+        } else if (token.type === 'Comment') {
+            let val = token.value;
+            if (val.startsWith('//')) {
+                let content = val.substring(2).trim();
+                // Block tags: @param, @return, etc.
+                if (content.startsWith('@')) {
+                    content = content.replace(/^@(\w+)/, '**@$1**');
+                }
+                // Inline tags: {@link URL text} or {@link URL}
+                content = content.replace(/\{@link\s+([^}]+)\}/g, (match, p1) => {
+                    const parts = p1.trim().split(/\s+/);
+                    if (parts.length > 1) {
+                        return `[${parts.slice(1).join(' ')}](${parts[0]})`;
+                    }
+                    return `[${parts[0]}](${parts[0]})`;
+                });
+                comments.unshift(content);
+            }
+        } else {
+            break;
+        }
+        k--;
+    }
+    return comments.join('  \n');
+}
+
+function formatActionCode(text: string, options: FormattingOptions): string {
+    const lines = text.split(/\r?\n/);
+    const indentSize = options.tabSize || 4;
+    const indentChar = options.insertSpaces ? ' '.repeat(indentSize) : '\t';
+
+    let currentIndent = 0;
+    const newLines: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        let trimmed = line.trim();
+
+        if (trimmed.length === 0) {
+            continue;
+        }
+
+        // --- Spacing Rule: 2 blank lines before function ---
+        if (trimmed.startsWith('function') && newLines.length > 0) {
+            // Ensure exactly two blank lines before function
+            while (newLines.length > 0 && newLines[newLines.length - 1] === '') {
+                newLines.pop();
+            }
+            newLines.push('', '');
+        }
+
+        // Decrease indent if line starts with closing brace
+        // We check for '}' at the very beginning of the trimmed line
+        if (trimmed.startsWith('}')) {
+            currentIndent = Math.max(0, currentIndent - 1);
+        }
+
+        // Apply current indentation
+        let newLine = indentChar.repeat(currentIndent) + trimmed;
+
+        // Space optimization for operators (string-aware version)
+        // Ensure space around =, +, -, *, /, ==, !=, <, >, <=, >=
+        // We skip string literals and comments.
+        if (!trimmed.startsWith('//')) {
+            let parts: { type: 'code' | 'string' | 'comment', text: string }[] = [];
+            let current = '';
+            let inString: string | null = null;
+            
+            for (let j = 0; j < newLine.length; j++) {
+                const char = newLine[j];
+                
+                // Handle in-line comment
+                if (!inString && char === '/' && j + 1 < newLine.length && newLine[j + 1] === '/') {
+                    let codeText = current;
+                    let spacePrefix = '';
+                    const spaceMatch = codeText.match(/\s+$/);
+                    if (spaceMatch) {
+                        spacePrefix = spaceMatch[0];
+                        codeText = codeText.substring(0, codeText.length - spacePrefix.length);
+                    }
+                    if (codeText) parts.push({ type: 'code', text: codeText });
+                    parts.push({ type: 'comment', text: spacePrefix + newLine.substring(j) });
+                    current = '';
+                    break;
+                }
+
+                if ((char === '"' || char === "'")) {
+                    if (inString === char) {
+                        current += char;
+                        parts.push({ type: 'string', text: current });
+                        current = '';
+                        inString = null;
+                    } else if (!inString) {
+                        if (current) parts.push({ type: 'code', text: current });
+                        current = char;
+                        inString = char;
+                    } else {
+                        current += char;
+                    }
+                } else {
+                    current += char;
+                }
+            }
+            if (current) parts.push({ type: inString ? 'string' : 'code', text: current });
+
+            newLine = parts.map(p => {
+                if (p.type === 'code') {
+                    let s = p.text;
+                    // 1. Handle common operators (except slash and hyphen)
+                    s = s.replace(/\s*([=+*<>!&|]=|[=+*<>!&|])\s*/g, ' $1 ');
+                    
+                    // 2. Handle slash (/) and hyphen (-) carefully to avoid issues with paths or unary minus
+                    // Heuristic: only space it if it's between alphanumeric/ID chars or closing brackets/quotes.
+                    s = s.replace(/([a-zA-Z0-9_$)"'])\s*([\/\-])\s*([a-zA-Z0-9_$"(])/g, '$1 $2 $3');
+
+                    s = s.replace(/\s*,\s*/g, ', ') // Space after comma
+                         .replace(/\s*;\s*$/g, ';') // Remove space before trailing semicolon
+                         .replace(/ {2,}/g, ' '); // Collapse multiple spaces
+                    return s;
+                }
+                return p.text;
+            }).join('');
+
+            // Restore indentation which might have been affected
+            const indent = indentChar.repeat(currentIndent);
+            newLine = indent + newLine.trim();
+            trimmed = newLine.trim(); // Update trimmed for subsequent checks
+        }
+
+        // --- Semicolon Completion (Heuristic) ---
+        if (!trimmed.endsWith(';') &&
+            !trimmed.endsWith('{') &&
+            !trimmed.endsWith('}') &&
+            !trimmed.endsWith(',') &&
+            !trimmed.endsWith('(') &&
+            !trimmed.match(/^function\s+/) &&
+            !trimmed.match(/^(if|while|each|for)\b/) &&
+            !/(^|\s)else$/.test(trimmed) &&
+            !/[+\-*/|&=]$/.test(trimmed)
+        ) {
+            // Check if it ends with alphanumeric or closing paren/quote
+            if (/[a-zA-Z0-9_"')]/.test(trimmed[trimmed.length - 1])) {
+                // Check next line (if any) doesn't start with operator or block
+                let nextIdx = i + 1;
+                let nextLine = '';
+                while (nextIdx < lines.length) {
+                    nextLine = lines[nextIdx].trim();
+                    if (nextLine.length > 0) break;
+                    nextIdx++;
+                }
+                if (!/^[\+\-\*\/\.\|&=]/.test(nextLine) && !nextLine.startsWith('{')) {
+                    newLine += ';';
+                    trimmed += ';'; // Update trimmed for brace check
+                }
+            }
+        }
+
+        newLines.push(newLine);
+
+        // --- Spacing Rule: 1 blank line after var declaration block ---
+        if (trimmed.startsWith('var:')) {
+            let nextIdx = i + 1;
+            let nextTrimmed = '';
+            while (nextIdx < lines.length) {
+                nextTrimmed = lines[nextIdx].trim();
+                if (nextTrimmed.length > 0) break;
+                nextIdx++;
+            }
+            if (nextTrimmed.length > 0 && !nextTrimmed.startsWith('var:')) {
+                newLines.push('');
+            }
+        }
+
+        // Increase indent if line ends with opening brace
+        if (trimmed.endsWith('{')) {
+            currentIndent++;
+        }
+    }
+
+    return newLines.join('\n');
+}
+
+// Carried in Diagnostic.data so the quick fix knows what to edit
+interface ReadOnlyAssignmentFix {
+    kind: 'remove' | 'compare';
+    range: Range;
+}
+
+// Carried in Diagnostic.data of an undefined name: the known names offered instead, closest first
+interface UndefinedNameFix {
+    suggestions: string[];
+}
+
+// The number of single-character insertions, deletions, substitutions and swaps of adjacent characters
+// (optimal string alignment distance), so that 'itme' is one edit away from 'item'
+function editDistance(a: string, b: string): number {
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+            }
+        }
+        beforePrevious = previous;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// The candidates within a few edits of a misspelled name (one per three characters, ignoring case), closest first
+function suggestNames(name: string, candidates: Iterable<string>, limit = 3): string[] {
+    const maxDistance = Math.max(1, Math.floor(name.length / 3));
+    const scored: { candidate: string, distance: number }[] = [];
+    for (const candidate of new Set(candidates)) {
+        if (candidate === name || Math.abs(candidate.length - name.length) > maxDistance) continue;
+        const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+        if (distance <= maxDistance) scored.push({ candidate, distance });
+    }
+    return scored
+        .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+        .slice(0, limit)
+        .map(s => s.candidate);
+}
+
+// Visits every identifier and attribute reference that is read or written as a value
+// (not declaration names, type annotations or dot-operator names), along with the
+// chain of enclosing scopes (Program and FunctionDeclaration nodes).
+function forEachReference(program: Program, callback: (ref: Identifier | AttributeRef, scopes: Node[]) => void) {
+    const scopeStack: Node[] = [];
+    const visit = (node: Node, parent: Node | null) => {
+        if (node.kind === 'Program' || node.kind === 'FunctionDeclaration') scopeStack.push(node);
+        if (node.kind === 'AttributeRef') {
+            callback(node, scopeStack);
+        } else if (node.kind === 'Identifier') {
+            const isDeclarationName = parent && (
+                parent.kind === 'VarDeclaration' || parent.kind === 'Parameter' || parent.kind === 'FunctionDeclaration' ||
+                (parent.kind === 'MemberExpression' && parent.property === node) ||
+                (parent.kind === 'EachExpression' && parent.method === node)
+            );
+            if (!isDeclarationName) callback(node, scopeStack);
+        }
+        for (const child of getChildren(node)) visit(child, node);
+        if (node.kind === 'Program' || node.kind === 'FunctionDeclaration') scopeStack.pop();
+    };
+    visit(program, null);
+}
+
+// The declaration that a variable, argument or loop variable name at offset refers to. Only the functions
+// enclosing the offset are searched, the innermost first; then the top level. Within one scope, the last
+// declaration before the offset wins, or else the first one after it.
+function findLocalDeclaration(program: Program, name: string, offset: number): { node: VarDeclaration | Parameter, parent: Node } | undefined {
+    const enclosing: FunctionDeclaration[] = [];
+    const candidates: { node: VarDeclaration | Parameter, parent: Node }[] = [];
+    walk(program, (node, parent) => {
+        if (node.kind === 'FunctionDeclaration') {
+            if (offset < node.start || offset > node.end) return false;
+            enclosing.push(node);
+        }
+        if ((node.kind === 'VarDeclaration' || node.kind === 'Parameter') && node.name.name === name && parent) {
+            candidates.push({ node, parent });
+        }
+    });
+    const depth = (node: Node) => enclosing.filter(f => node.start >= f.start && node.end <= f.end).length;
+    const innermost = Math.max(-1, ...candidates.map(c => depth(c.node)));
+    const inScope = candidates.filter(c => depth(c.node) === innermost);
+    return inScope.filter(c => c.node.start <= offset).pop() || inScope[0];
+}
+
+// --- Helper to collect declared variable types ---
+// Maps each typed `var:type name` declaration and `name:type` argument to its lowercased type.
+function collectVariableTypes(text: string): Map<string, string> {
+    const locals = new Map<string, string>();
+    walk(parse(text).program, node => {
+        if (node.kind === 'VarDeclaration' && node.varType && node.name.name) {
+            locals.set(node.name.name, node.varType.name.toLowerCase());
+        } else if (node.kind === 'Parameter' && node.paramType) {
+            locals.set(node.name.name, node.paramType.name.toLowerCase());
+        }
+    });
+    return locals;
+}
+
+// Operator return types from operators.csv are descriptive ("boolean test", "success boolean").
+function normalizeReturnType(returnType: string): string {
+    const lower = returnType.toLowerCase();
+    if (lower === 'boolean test' || lower === 'success boolean') return 'boolean';
+    return lower;
+}
+
+// Types a value of each type converts to without losing its meaning. Every value has a text form, and a string
+// stands for a list, set, date, color or dictionary ("a;b", "today", "red"). Types missing here are never reported.
+const TYPE_CONVERSIONS: { [targetType: string]: string[] } = {
+    number: ['number'],
+    boolean: ['boolean'],
+    color: ['color', 'string'],
+    date: ['date', 'string'],
+    interval: ['interval', 'number', 'string'],
+    list: ['list', 'set', 'number', 'string'],
+    set: ['list', 'set', 'number', 'string'],
+    dictionary: ['dictionary', 'string']
+};
+
+function isCompatible(targetType: string, valueType: string): boolean {
+    const accepted = TYPE_CONVERSIONS[targetType.toLowerCase()];
+    const normValue = valueType.toLowerCase();
+    if (!accepted || (normValue !== 'string' && !(normValue in TYPE_CONVERSIONS))) return true;
+    return accepted.includes(normValue);
+}
+
+// Builds the parameter list from a signature such as "linkTo(scope[, linkTypeStr])".
+// Parameters inside [...] are optional, and an unclosed '[' leaves the rest of the list optional;
+// the CSV flags decide which ones are scopes, conditions and regexes.
+function parseOperatorParameters(label: string, flags: OperatorArgumentFlags): OperatorParameter[] | undefined {
+    const match = label.match(/^(?:[A-Za-z0-9_]+\.)?[A-Za-z0-9_]+\(/);
+    if (!match) return undefined;
+
+    const parameters: OperatorParameter[] = [];
+    let bracketDepth = 0;
+    let current = '';
+    let currentOptional = false;
+    const flush = () => {
+        const name = current.trim();
+        if (name) {
+            let kind: OperatorParameter['kind'] = 'value';
+            if (flags.hasScopeArgument && name === 'scope') kind = 'scope';
+            else if (flags.hasConditionalArgument && name === 'condition') kind = 'condition';
+            else if (flags.hasRegExArgument && /regex/i.test(name)) kind = 'regex';
+            const param: OperatorParameter = { name, optional: currentOptional, kind };
+            if (kind === 'condition') param.type = 'boolean';
+            else if (kind !== 'scope') param.type = PARAMETER_TYPE_SUFFIXES.find(([suffix]) => suffix.test(name))?.[1];
+            // A list parameter may also be given as separate arguments, e.g. list(1,2,3) or max(a,b)
+            if (/arguments/i.test(name) || /List$/.test(name)) param.variadic = true;
+            parameters.push(param);
+        }
+        current = '';
+        currentOptional = false;
+    };
+
+    let parenDepth = 1;
+    for (let i = match[0].length; i < label.length; i++) {
+        const char = label[i];
+        if (char === '(') parenDepth++;
+        else if (char === ')') {
+            parenDepth--;
+            if (parenDepth === 0) break;
+        }
+        if (char === '[') {
+            bracketDepth++;
+        } else if (char === ']') {
+            bracketDepth = Math.max(0, bracketDepth - 1);
+        } else if (char === ',') {
+            flush();
+        } else if (char !== ' ') {
+            if (!current) currentOptional = bracketDepth > 0;
+            current += char;
+        }
+    }
+    flush();
+    return parameters;
+}
+
+function formatOperatorParameters(parameters: OperatorParameter[]): string {
+    return parameters.map(p => p.optional ? `[${p.name}]` : p.name).join(', ');
+}
+
+function applyOperatorParameters(op: TinderboxOperator, parameters: OperatorParameter[] | undefined) {
+    op.parameters = parameters;
+    if (!parameters) return;
+    // NumberOfArgs is the documented maximum; never be stricter than the signature itself
+    const required = parameters.filter(p => !p.optional).length;
+    op.minArgs = op.argumentFlags.hasNeededArguments ? required : 0;
+    op.maxArgs = parameters.some(p => p.variadic) ? Infinity : Math.max(parameters.length, op.argumentFlags.numberOfArgs);
+}
+
+// Snippet with a tab stop per required parameter, e.g. "collect_if(${1:scope}, ${2:condition}, ${3:expressionStr})"
+function buildOperatorSnippet(insertName: string, op: TinderboxOperator | undefined): string {
+    const required = op?.parameters?.filter(p => !p.optional) || [];
+    if (required.length === 0) return `${insertName}($0)`;
+    return `${insertName}(${required.map((p, i) => `\${${i + 1}:${p.name}}`).join(', ')})$0`;
+}
+
+function toSignatureInformation(op: TinderboxOperator, description: string): SignatureInformation {
+    const parameters: ParameterInformation[] = [];
+    // Offsets into the label let the client highlight the exact parameter text
+    let cursor = op.signature.indexOf('(') + 1;
+    for (const param of op.parameters || []) {
+        const start = op.signature.indexOf(param.name, cursor);
+        const documentation = [param.type, param.optional ? 'optional' : ''].filter(Boolean).join(', ');
+        if (start === -1) {
+            parameters.push(ParameterInformation.create(param.name, documentation || undefined));
+            continue;
+        }
+        cursor = start + param.name.length;
+        parameters.push(ParameterInformation.create([start, cursor], documentation || undefined));
+    }
+    return {
+        label: op.signature,
+        documentation: { kind: 'markdown', value: description },
+        parameters
+    };
+}
+
+// The defaults in system_attributes.csv are partly descriptions, e.g. '(not set - empty string)' or '<code>&lt;p&gt;</code>'
+function getAttributeDefaultText(attr: SystemAttribute): string {
+    const text = attr.defaultValue.trim();
+    if (/^\(.*\)$/.test(text)) return '';
+    return text.replace(/<\/?code>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
+
+// Operator parameters that take a note, beyond the `scope` parameters, e.g. createLink(sourceItem, destinationItem)
+const NOTE_PARAMETER_NAMES = ['startItem', 'endItem', 'sourceItem', 'destinationItem', 'originalNote', 'containerStr'];
+
+function getTbxNameKind(param: OperatorParameter): 'prototype' | 'linkType' | 'note' | undefined {
+    if (/^linkType/i.test(param.name)) return 'linkType';
+    if (/^prototype/i.test(param.name)) return 'prototype';
+    if (param.kind === 'scope' || NOTE_PARAMETER_NAMES.includes(param.name)) return 'note';
+    return undefined;
+}
+
+export function isDeclaration(tokens: Token[], identifierIndex: number, functionStartOffset: number = 0): boolean {
+    let j = identifierIndex - 1;
+    while (j >= 0 && tokens[j].type === 'Whitespace') j--;
+    if (j < 0) return false;
+
+    // 1. var decl (var x or var:Type x)
+    if (tokens[j].value === 'var') return true;
+    if (tokens[j].type === 'Identifier') {
+        let k = j - 1;
+        while (k >= 0 && tokens[k].type === 'Whitespace') k--;
+        if (k >= 0 && tokens[k].value === ':') {
+            k--;
+            while (k >= 0 && tokens[k].type === 'Whitespace') k--;
+            if (k >= 0 && tokens[k].value === 'var') return true;
+        }
+    }
+
+    // 2. function decl (function x)
+    if (tokens[j].value === 'function') return true;
+
+    // 3. loop var (.each(x))
+    if (tokens[j].value === '(') {
+        let k = j - 1;
+        while (k >= 0 && tokens[k].type === 'Whitespace') k--;
+        if (k >= 0 && (tokens[k].value === 'each' || tokens[k].value === 'eachLine')) return true;
+    }
+
+    // 4. function argument
+    let depthCounter = 0;
+    let foundFunction = false;
+    for (let k = identifierIndex - 1; k >= 0; k--) {
+        if (tokens[k].start < functionStartOffset) break;
+        if (tokens[k].value === ')') depthCounter++;
+        else if (tokens[k].value === '(') {
+            depthCounter--;
+            if (depthCounter < 0) {
+                let m = k - 1;
+                while (m >= 0 && tokens[m].type === 'Whitespace') m--;
+                if (m >= 0 && tokens[m].type === 'Identifier') {
+                    m--;
+                    while (m >= 0 && tokens[m].type === 'Whitespace') m--;
+                    if (m >= 0 && tokens[m].value === 'function') {
+                        foundFunction = true;
+                    }
+                }
+                break;
+            }
+        }
+    }
+    if (foundFunction && depthCounter < 0) return true;
+
+    return false;
+}
+
+// Top-level function whose declaration (keyword through closing brace) contains the offset.
+// The parser recovers from a missing '}', so the range stays sensible while the user is typing.
+export function findContainingFunctionDeclaration(text: string, offset: number): FunctionDeclaration | null {
+    const { program } = parse(text);
+    for (const stmt of program.body) {
+        if (stmt.kind === 'FunctionDeclaration' && offset >= stmt.start && offset <= stmt.end) {
+            return stmt;
+        }
+    }
+    return null;
+}
+
+export class LanguageService {
+    // Resource tables
+    private readonly tinderboxOperators = new Map<string, TinderboxOperator>();
+    private readonly typeMethods = new Map<string, TinderboxOperator[]>(); // Map<lowercasedType, operators[]>
+    private readonly dotOperatorsMap = new Map<string, TinderboxOperator[]>(); // Map<suffix, operator[]> for fallback
+    private readonly operatorFamilies = new Map<string, string[]>(); // Map<FamilyName, members[]>
+    private readonly operatorsByCallName = new Map<string, TinderboxOperator[]>(); // Map<callName, overloads[]> for argument checking
+    private readonly systemAttributes = new Map<string, SystemAttribute>();
+    private readonly tinderboxDataTypes = new Map<string, DataType>();
+    private readonly tinderboxDesignators = new Map<string, TinderboxDesignator>();
+    private readonly tinderboxColors = new Map<string, TinderboxColor>();
+    // keywordNames is used for fast lookup in semantic tokens
+    private readonly keywordNames = new Set<string>();
+    // Reserved words for validation
+    private readonly reservedWords = new Set<string>();
+    private readonly tinderboxExportTags = new Map<string, TinderboxExportTag>();
+    // Reserved words strictly from file (for Completion)
+    private readonly textReservedWords = new Set<string>();
+
+    // Workspace state
+    private readonly workspaceSymbolCache = new Map<string, GlobalSymbol[]>(); // Key: file URI
+    private readonly allUserFunctionNames = new Set<string>();
+    private readonly userAttributeSources = new Map<string, string[]>(); // Key: declaration file URI, Value: attribute names
+    private readonly tbxDocuments = new Map<string, TbxDocument>(); // Key: .tbx file URI
+
+    private readonly logger: Logger;
+    private resolveLoaded!: () => void;
+    // Settles once load() has read the resources, whether or not that succeeded
+    readonly loaded = new Promise<void>(resolve => {
+        this.resolveLoaded = resolve;
+    });
+
+    constructor(private readonly host: LanguageServiceHost) {
+        this.logger = host.logger || silentLogger;
+    }
+
+    private rebuildUserFunctionNameCache() {
+        this.allUserFunctionNames.clear();
+        for (const symbols of this.workspaceSymbolCache.values()) {
+            for (const sym of symbols) {
+                if (sym.kind === SymbolKind.Function) {
+                    this.allUserFunctionNames.add(sym.name);
+                }
+            }
+        }
+    }
+
+    // --- Formatting ---
+
+    // Edits that format the text. For export code only the action code inside ^...^ tags is formatted.
+    formattingEdits(text: string, options: FormattingOptions, languageId = ACTION_CODE_LANGUAGE_ID): TextEdit[] {
+        const doc = toDocument(text, languageId);
+
+        if (languageId === EXPORT_CODE_LANGUAGE_ID) {
+            // Intelligent Formatting for Export Code: Only format content inside ^...^ tags
+            const edits: TextEdit[] = [];
+            const findExportTags = (input: string) => {
+                const results: { start: number, end: number, content: string }[] = [];
+                let i = 0;
+                while (i < input.length) {
+                    if (input[i] === '^') {
+                        const start = i;
+                        i++;
+                        let tagName = '';
+                        while (i < input.length && /[a-zA-Z0-9$]/.test(input[i])) {
+                            tagName += input[i];
+                            i++;
+                        }
+                        if (tagName === '') continue;
+
+                        if (i < input.length && input[i] === '(') {
+                            const contentStart = i + 1;
+                            let depth = 1;
+                            i++;
+                            let inString: string | null = null;
+                            while (i < input.length) {
+                                const char = input[i];
+                                if (inString) {
+                                    if (char === inString) inString = null;
+                                } else if (char === '"' || char === "'") {
+                                    inString = char;
+                                } else if (char === '(') {
+                                    depth++;
+                                } else if (char === ')') {
+                                    depth--;
+                                }
+
+                                if (depth === 0 && !inString) {
+                                    if (i + 1 < input.length && input[i + 1] === '^') {
+                                        results.push({
+                                            start: contentStart,
+                                            end: i,
+                                            content: input.substring(contentStart, i)
+                                        });
+                                        i += 2;
+                                        break;
+                                    } else {
+                                        break;
+                                    }
+                                }
+                                i++;
+                            }
+                        } else if (i < input.length && input[i] === '^') {
+                            i++;
+                        }
+                    } else {
+                        i++;
+                    }
+                }
+                return results;
+            };
+
+            const tags = findExportTags(text);
+            for (const tag of tags) {
+                if (tag.content.trim().length > 0) {
+                    let formatted = formatActionCode(tag.content, options).trim();
+                    // Tag arguments such as ^if(...)^ conditions are expressions, so the semicolon added to statements is dropped
+                    if (formatted.endsWith(';') && !tag.content.trim().endsWith(';')) {
+                        formatted = formatted.substring(0, formatted.length - 1);
+                    }
+                    if (formatted !== tag.content.trim()) {
+                        edits.push(TextEdit.replace(
+                            Range.create(doc.positionAt(tag.start), doc.positionAt(tag.end)),
+                            formatted
+                        ));
+                    }
+                }
+            }
+            return edits;
+        }
+
+        // formatActionCode drops blank lines, including the last one; a final newline is kept
+        const formatted = formatActionCode(text, options) + (/\n$/.test(text) ? '\n' : '');
+        return [
+            TextEdit.replace(
+                Range.create(doc.positionAt(0), doc.positionAt(text.length)),
+                formatted
+            )
+        ];
+    }
+
+    format(text: string, options: FormattingOptions, languageId = ACTION_CODE_LANGUAGE_ID): string {
+        return TextDocument.applyEdits(toDocument(text, languageId), this.formattingEdits(text, options, languageId));
+    }
+
+    // --- Symbols ---
+
+    symbols(text: string): DocumentSymbol[] {
+        return extractSymbolsFromText(text, UNTITLED_URI, toDocument(text)).map(s => DocumentSymbol.create(
+            s.name,
+            s.signature || undefined,
+            s.kind,
+            s.location.range,
+            s.selectionRange
+        ));
+    }
+
+    // Functions and variables of every workspace file whose name contains the query
+    workspaceSymbols(query: string): SymbolInformation[] {
+        query = query.toLowerCase();
+        const symbols: SymbolInformation[] = [];
+
+        for (const [uri, globalSymbols] of this.workspaceSymbolCache.entries()) {
+            for (const sym of globalSymbols) {
+                if (sym.name.toLowerCase().includes(query)) {
+                    symbols.push({
+                        name: sym.name,
+                        kind: sym.kind,
+                        location: Location.create(uri, sym.selectionRange),
+                        containerName: sym.kind === SymbolKind.Function ? 'tinderbox function' : undefined
+                    });
+                }
+            }
+        }
+
+        return symbols;
+    }
+
+    // The name at the offset and its range, or null when there is nothing to rename
+    prepareRename(text: string, offset: number): { range: Range, placeholder: string } | null {
+        const doc = toDocument(text);
+        const tokens = tokenize(text);
+        const targetToken = tokens.find(t =>
+            (t.type === 'Identifier' || t.type === 'Keyword') &&
+            offset >= t.start && offset <= t.start + t.length
+        );
+        if (!targetToken) return null;
+
+        return {
+            range: Range.create(doc.positionAt(targetToken.start), doc.positionAt(targetToken.start + targetToken.length)),
+            placeholder: targetToken.value
+        };
+    }
+
+    // Parameter names before the arguments of calls to user functions and built-in operators
+    inlayHints(text: string): InlayHint[] {
+        const doc = toDocument(text);
+        const hints: InlayHint[] = [];
+        const { program } = parse(text);
+
+        // 1. Parameter names of the functions defined in this text
+        const functions = new Map<string, string[]>();
+        walk(program, node => {
+            if (node.kind === 'FunctionDeclaration' && node.name.name) {
+                functions.set(node.name.name, node.params.map(p => p.name.name));
+            }
+        });
+
+        // 2. A hint before each argument of a call whose parameters are known
+        walk(program, node => {
+            let callName: string;
+            let args: Expression[];
+            if (node.kind === 'CallExpression') {
+                callName = node.callee.name;
+                args = node.args;
+            } else if (node.kind === 'MemberExpression' && node.args) {
+                callName = node.property.name;
+                args = node.args;
+            } else {
+                return;
+            }
+
+            // Built-in overloads are chosen by argument count; functions defined in other files have no hints
+            let paramNames: string[] | undefined = node.kind === 'CallExpression' ? functions.get(callName) : undefined;
+            if (!paramNames && !this.allUserFunctionNames.has(callName)) {
+                paramNames = this.resolveOperatorOverload(callName, node.kind === 'MemberExpression', args.length)?.parameters?.map(p => p.name);
+            }
+            if (!paramNames) return;
+
+            args.forEach((arg, argIndex) => {
+                if (arg.kind === 'ErrorExpression' || argIndex >= paramNames!.length) return;
+                hints.push({
+                    position: doc.positionAt(arg.start),
+                    label: `${paramNames![argIndex]}:`,
+                    kind: InlayHintKind.Parameter,
+                    paddingRight: true
+                });
+            });
+        });
+
+        return hints;
+    }
+
+    // --- Validation ---
+
+    validate(text: string, languageId = ACTION_CODE_LANGUAGE_ID, options: ValidationOptions = {}): Diagnostic[] {
+        const textDocument = toDocument(text, languageId, options.uri);
+        const diagnostics: Diagnostic[] = [];
+
+        if (languageId === EXPORT_CODE_LANGUAGE_ID) {
+            // --- 1. Export Code Parsing ---
+            // We use a robust scanner to handle nested tags and balanced parentheses
+            interface ExportTagMatch {
+                tagName: string;
+                tagContent: string;
+                tagStart: number;
+                tagEnd: number;
+                contentStart: number;
+            }
+
+            const findExportTags = (input: string, baseOffset: number): ExportTagMatch[] => {
+                const results: ExportTagMatch[] = [];
+                let i = 0;
+                while (i < input.length) {
+                    if (input[i] === '^') {
+                        const start = i;
+                        i++;
+                        // Find tag name
+                        let tagName = '';
+                        while (i < input.length && /[a-zA-Z0-9$]/.test(input[i])) {
+                            tagName += input[i];
+                            i++;
+                        }
+
+                        if (tagName === '') {
+                            // Just a caret, skip
+                            continue;
+                        }
+
+                        if (i < input.length && input[i] === '(') {
+                            // Potential tag with arguments: ^name(args)^
+                            const contentStartIdx = i + 1;
+                            let depth = 1;
+                            i++;
+                            let inString: string | null = null;
+                            let isEscaped = false;
+
+                            while (i < input.length) {
+                                const char = input[i];
+                                if (isEscaped) {
+                                    isEscaped = false;
+                                } else if (char === '\\') {
+                                    isEscaped = true;
+                                } else if (inString) {
+                                    if (char === inString) {
+                                        inString = null;
+                                    }
+                                } else if (char === '"' || char === "'") {
+                                    inString = char;
+                                } else if (char === '(') {
+                                    depth++;
+                                } else if (char === ')') {
+                                    depth--;
+                                }
+
+                                if (depth === 0 && !inString) {
+                                    if (i + 1 < input.length && input[i + 1] === '^') {
+                                        results.push({
+                                            tagName,
+                                            tagContent: input.substring(contentStartIdx, i),
+                                            tagStart: baseOffset + start,
+                                            tagEnd: baseOffset + i + 2,
+                                            contentStart: baseOffset + contentStartIdx
+                                        });
+                                        i += 2;
+                                        break;
+                                    } else {
+                                        // Found closing paren but no trailing caret, strictly no match in TBX
+                                        break;
+                                    }
+                                }
+                                i++;
+                            }
+                        } else if (i < input.length && input[i] === '^') {
+                            // Argument-less tag: ^name^
+                            results.push({
+                                tagName,
+                                tagContent: '',
+                                tagStart: baseOffset + start,
+                                tagEnd: baseOffset + i + 1,
+                                contentStart: -1
+                            });
+                            i++;
+                        }
+                    } else {
+                        i++;
+                    }
+                }
+                return results;
+            };
+
+            const allTags: ExportTagMatch[] = [];
+            const processInputRecursively = (input: string, baseOffset: number) => {
+                const tags = findExportTags(input, baseOffset);
+                for (const tag of tags) {
+                    allTags.push(tag);
+                    if (tag.tagContent) {
+                        processInputRecursively(tag.tagContent, tag.contentStart);
+                    }
+                }
+            };
+
+            processInputRecursively(text, 0);
+
+            const processedTagStarts = new Set<number>();
+            for (const tag of allTags) {
+                processedTagStarts.add(tag.tagStart);
+                const lowerTagName = tag.tagName.toLowerCase();
+
+                // Basic tag validation (existence)
+                if (!this.tinderboxExportTags.has(lowerTagName)) {
+                    diagnostics.push({
+                        severity: DiagnosticSeverity.Warning,
+                        range: {
+                            start: textDocument.positionAt(tag.tagStart),
+                            end: textDocument.positionAt(tag.tagStart + tag.tagName.length + 1)
+                        },
+                        message: `Unknown Export Tag: '^${tag.tagName}'`,
+                        source: 'Tinderbox Export Code'
+                    });
+                }
+
+                // Inner Action Code validation for specific tags
+                // Note: 'include' and others often take paths, which are NOT Action Code.
+                // We only validate Action Code for 'value', 'if', 'action', 'do', 'not'.
+                // 'include' arguments are handled by recursive tag extraction but not as a full expression.
+                if (['value', 'if', 'action', 'do', 'not'].includes(lowerTagName)) {
+                    if (tag.contentStart !== -1) {
+                        const suppressSemicolon = ['value', 'if', 'not', 'do'].includes(lowerTagName);
+                        const isCondition = ['if', 'not'].includes(lowerTagName);
+
+                        // --- MASK NESTED TAGS for parent validation ---
+                        // If we are validating ^if(...)^, we should mask any ^value()^ inside it
+                        // so the inner carets and content don't interfere with parent's action code validation.
+                        let contentToValidate = tag.tagContent;
+                        for (const otherTag of allTags) {
+                            if (otherTag !== tag &&
+                                otherTag.tagStart >= tag.contentStart &&
+                                otherTag.tagEnd <= (tag.tagStart + tag.tagName.length + 2 + tag.tagContent.length)) {
+                                // This tag is inside the current tag. Mask it.
+                                const relativeStart = otherTag.tagStart - tag.contentStart;
+                                const relativeEnd = otherTag.tagEnd - tag.contentStart;
+                                if (relativeStart >= 0 && relativeEnd <= contentToValidate.length) {
+                                    contentToValidate = contentToValidate.substring(0, relativeStart) +
+                                        ' '.repeat(relativeEnd - relativeStart) +
+                                        contentToValidate.substring(relativeEnd);
+                                }
+                            }
+                        }
+
+                        const innerDiagnostics = this.performActionCodeValidation(contentToValidate, textDocument, tag.contentStart, { ...options, suppressSemicolon, isCondition, exportTag: lowerTagName });
+                        diagnostics.push(...innerDiagnostics);
+                    }
+                }
+            }
+
+            // --- 2. Unclosed Caret Check ---
+            // Carets not belonging to any extracted tag
+            for (let i = 0; i < text.length; i++) {
+                if (text[i] === '^') {
+                    let isMatched = false;
+                    for (const tag of allTags) {
+                        if (i >= tag.tagStart && i < tag.tagEnd) {
+                            isMatched = true;
+                            break;
+                        }
+                    }
+                    if (!isMatched) {
+                        diagnostics.push({
+                            severity: DiagnosticSeverity.Warning,
+                            range: {
+                                start: textDocument.positionAt(i),
+                                end: textDocument.positionAt(i + 1)
+                            },
+                            message: `Unclosed or unexpected caret '^'. Export tags must be '^name^' or '^name(args)^'.`,
+                            source: 'Tinderbox Export Code'
+                        });
+                    }
+                }
+            }
+        } else {
+            // --- .tbxa (Action Code only) ---
+            const actionDiagnostics = this.performActionCodeValidation(text, textDocument, 0, options);
+            diagnostics.push(...actionDiagnostics);
+        }
+
+        return diagnostics;
+    }
+
+    // isCondition: the text is the condition of an export ^if()^ / ^not()^ tag rather than a sequence of actions
+    private performActionCodeValidation(text: string, textDocument: TextDocument, baseOffset: number, options: ValidationOptions): Diagnostic[] {
+        const diagnostics: Diagnostic[] = [];
+        const { program, tokens, errors } = parse(text);
+        const rangeOf = (start: number, end: number) => Range.create(
+            textDocument.positionAt(baseOffset + start),
+            textDocument.positionAt(baseOffset + end)
+        );
+
+        // --- 0. Syntax Errors ---
+        // Unbalanced brackets, unterminated strings, stray 'else' etc. The parser recovers, so later checks still run.
+        for (const error of errors) {
+            if (options.suppressSemicolon && error.message.startsWith(`Expected ';'`)) continue;
+            const diagnostic: Diagnostic = {
+                severity: DiagnosticSeverity.Error,
+                range: rangeOf(error.start, error.end),
+                message: `Syntax Error: ${error.message}`,
+                source: 'Tinderbox Action Code'
+            };
+            if (error.related && options.relatedInformation !== false) {
+                diagnostic.relatedInformation = [
+                    DiagnosticRelatedInformation.create(
+                        Location.create(textDocument.uri, rangeOf(error.related.start, error.related.end)),
+                        error.related.message
+                    )
+                ];
+            }
+            diagnostics.push(diagnostic);
+        }
+
+        // --- 1. Smart Quote Check ---
+        // Smart quotes inside strings and comments are fine; the tokenizer leaves stray ones as single-character tokens.
+        for (const t of tokens) {
+            if (t.type === 'Identifier' && /^[“”‘’]$/.test(t.value)) {
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Warning,
+                    range: rangeOf(t.start, t.start + t.length),
+                    message: `Smart quote '${t.value}' detected. Use straight quotes (" or ').`,
+                    source: 'Tinderbox Action Code'
+                });
+            }
+        }
+
+        // --- Gather Valid Identifiers ---
+        const validIdentifiers = new Set<string>();
+        const lowerToOriginal = new Map<string, string>();
+
+        const baseKeywords = [
+            'var', 'if', 'else', 'while', 'do', 'return', 'each', 'to', 'in', 'end',
+            'string', 'number', 'boolean', 'list', 'date', 'color', 'set', 'interval',
+            'adornment', 'agent', 'cover', 'current', 'find', 'firstSibling', 'grandparent',
+            'lastChild', 'lastSibling', 'library', 'next', 'nextItem', 'nextSibling',
+            'nextSiblingItem', 'original', 'parent', 'previous', 'previousItem',
+            'previousSiblingItem', 'prevSibling', 'randomChild', 'selection', 'that', 'this',
+            'adorments', 'all', 'ancestors', 'children', 'descendants', 'siblings',
+            'destination', 'source', 'child', 'links'
+        ];
+        baseKeywords.forEach(k => validIdentifiers.add(k));
+        // Bare dates such as `if ($DueDate < today)`
+        DATE_KEYWORDS.forEach(k => validIdentifiers.add(k));
+
+        const operatorNames: string[] = []; // Operators called without a dot, e.g. collect_if
+        for (const op of this.tinderboxOperators.values()) {
+            const baseName = op.name.match(/^([a-zA-Z0-9_]+)(?:\(|$)/);
+            validIdentifiers.add(op.name);
+            if (baseName) {
+                operatorNames.push(baseName[1]);
+                validIdentifiers.add(baseName[1]);
+                lowerToOriginal.set(baseName[1].toLowerCase(), baseName[1]);
+            }
+        }
+        for (const attr of this.systemAttributes.values()) {
+            validIdentifiers.add(attr.name);
+            lowerToOriginal.set(attr.name.toLowerCase(), attr.name);
+        }
+        for (const name of this.allUserFunctionNames) {
+            validIdentifiers.add(name);
+            lowerToOriginal.set(name.toLowerCase(), name);
+        }
+        const globalIdentifiers = new Set(validIdentifiers); // Without the names this text declares
+        walk(program, node => {
+            if (node.kind === 'VarDeclaration' || node.kind === 'Parameter' || node.kind === 'FunctionDeclaration') {
+                if (!node.name.name) return;
+                validIdentifiers.add(node.name.name);
+                lowerToOriginal.set(node.name.name.toLowerCase(), node.name.name);
+            }
+        });
+
+        // --- 2. Case Sensitivity Check ---
+        forEachReference(program, ref => {
+            const word = ref.name;
+            if (validIdentifiers.has(word)) return;
+            const correctCase = lowerToOriginal.get(word.toLowerCase());
+            if (correctCase && correctCase !== word) {
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Warning,
+                    range: rangeOf(ref.start, ref.start + word.length),
+                    message: `Case Mismatch: '${word}' should be '${correctCase}'.`,
+                    source: 'Tinderbox Action Code'
+                });
+            }
+        });
+
+        // --- 2b. Undefined Identifiers ---
+        // A name that is not a variable, argument or loop variable of an enclosing scope, nor a keyword, designator,
+        // operator, attribute or function of the workspace. The first argument of ^do()^ is a macro name, not action code.
+        const firstToken = tokens.find(t => t.type !== 'Whitespace' && t.type !== 'Comment');
+        const macroNameStart = options.exportTag === 'do' && firstToken?.type === 'Identifier' ? firstToken.start : -1;
+        const fileFunctionNames = new Set<string>();
+        const callees = new Set<Node>();
+        const scopeNames = new Map<Node, Set<string>>(); // Key: Program or FunctionDeclaration
+        const nameScopes: Node[] = [];
+        const collectNames = (node: Node): boolean | void => {
+            if (node.kind === 'FunctionDeclaration' && node.name.name) fileFunctionNames.add(node.name.name);
+            if (node.kind === 'CallExpression') callees.add(node.callee);
+            if (node.kind === 'Program' || node.kind === 'FunctionDeclaration') {
+                scopeNames.set(node, new Set());
+                nameScopes.push(node);
+                getChildren(node).forEach(child => walk(child, collectNames));
+                nameScopes.pop();
+                return false;
+            }
+            if ((node.kind === 'VarDeclaration' || node.kind === 'Parameter') && node.name.name) {
+                scopeNames.get(nameScopes[nameScopes.length - 1])!.add(node.name.name);
+            }
+        };
+        walk(program, collectNames);
+
+        const isFunction = (name: string) => this.allUserFunctionNames.has(name) || fileFunctionNames.has(name);
+        forEachReference(program, (ref, enclosing) => {
+            if (ref.kind !== 'Identifier' || !ref.name || ref.start === macroNameStart) return;
+            const name = ref.name;
+            // Smart quotes, and words quoted with them, are reported by the smart quote check
+            const lineStart = text.lastIndexOf('\n', ref.start - 1) + 1;
+            const lineEnd = text.indexOf('\n', ref.end) < 0 ? text.length : text.indexOf('\n', ref.end);
+            if (/[“”‘’]/.test(name) ||
+                (/[“”‘’]/.test(text.substring(lineStart, ref.start)) && /[“”‘’]/.test(text.substring(ref.end, lineEnd)))) return;
+            const inScope = enclosing.map(scope => scopeNames.get(scope)!);
+            if (inScope.some(names => names.has(name))) return;
+            if (globalIdentifiers.has(name) || isFunction(name) || this.tinderboxDesignators.has(name)) return;
+            // Reported as a case mismatch instead
+            const correctCase = lowerToOriginal.get(name.toLowerCase());
+            if (correctCase && correctCase !== name) return;
+
+            const locals = inScope.flatMap(names => Array.from(names));
+            const suggestions = suggestNames(name, [...locals, ...operatorNames, ...this.allUserFunctionNames, ...fileFunctionNames]);
+            const didYouMean = suggestions.length > 0 ? ` Did you mean '${suggestions[0]}'?` : '';
+            const fix: UndefinedNameFix = { suggestions };
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: rangeOf(ref.start, ref.end),
+                message: callees.has(ref)
+                    ? `Unknown Function: '${name}' is neither an operator nor a function defined in the workspace.${didYouMean}`
+                    : `Undefined Identifier: '${name}' is not a variable in scope, an operator, a designator or a workspace function.${didYouMean}`,
+                source: 'Tinderbox Action Code',
+                data: fix
+            });
+        });
+
+        // --- 3. Missing Semicolon Check ---
+        // A statement that runs to the end of its line without a ';'. Statements followed by more code
+        // on the same line are reported by the parser instead.
+        if (!options.suppressSemicolon) {
+            walk(program, node => {
+                if (node.kind !== 'VarDeclaration' && node.kind !== 'ReturnStatement' &&
+                    node.kind !== 'AssignmentStatement' && node.kind !== 'ExpressionStatement') return;
+                if (node.semicolon !== undefined) return;
+                if (node.kind === 'ExpressionStatement' &&
+                    (node.expression.kind === 'EachExpression' || node.expression.kind === 'ErrorExpression')) return;
+
+                // A syntax error at the end of the statement already explains the missing terminator
+                if (errors.some(e => e.end === node.end || (e.start <= node.end && node.end <= e.end))) return;
+
+                const rest = text.substring(node.end).match(/^[ \t]*(\/\/.*)?(\r?\n|$)/);
+                if (rest) {
+                    diagnostics.push({
+                        severity: DiagnosticSeverity.Warning,
+                        range: rangeOf(node.end, node.end),
+                        message: `Missing semicolon?`,
+                        source: 'Tinderbox Action Code'
+                    });
+                }
+            });
+        }
+
+        // --- 4. Assignment Type Checking ---
+        const localVars = new Map<string, string>();
+        const statementRange = (node: { start: number, end: number, semicolon?: number }) =>
+            rangeOf(node.start, node.semicolon !== undefined ? node.semicolon + 1 : node.end);
+
+        walk(program, node => {
+            if (node.kind === 'Parameter' && node.paramType) {
+                localVars.set(node.name.name, node.paramType.name);
+            } else if (node.kind === 'VarDeclaration') {
+                const varName = node.name.name;
+                if (!varName) return;
+                if (this.reservedWords.has(varName)) {
+                    diagnostics.push({
+                        severity: DiagnosticSeverity.Error,
+                        range: rangeOf(node.name.start, node.name.end),
+                        message: `Reserved Word Error: '${varName}' cannot be used as a variable name.`,
+                        source: 'Tinderbox Action Code'
+                    });
+                }
+                if (!node.varType) return;
+                const typeDecl = node.varType.name;
+                localVars.set(varName, typeDecl);
+
+                if (node.init) {
+                    const inferredType = this.inferExpressionType(node.init, localVars);
+                    if (inferredType && !isCompatible(typeDecl, inferredType)) {
+                        diagnostics.push({
+                            severity: DiagnosticSeverity.Warning,
+                            range: statementRange(node),
+                            message: `Type Mismatch: Variable '${varName}' declared as ${typeDecl}, but initialized with ${inferredType}.`,
+                            source: 'Tinderbox Action Code'
+                        });
+                    }
+                }
+            } else if (node.kind === 'AssignmentStatement' && node.target.kind === 'AttributeRef' && this.systemAttributes.get(node.target.name)?.readOnly) {
+                const target = node.target;
+                let fix: ReadOnlyAssignmentFix;
+                if (options.isCondition) {
+                    // In a condition the author almost certainly meant to compare
+                    fix = { kind: 'compare', range: rangeOf(node.operatorStart, node.operatorStart + node.operator.length) };
+                } else {
+                    // Remove the whole line when the statement is the only thing on it
+                    let removeStart = node.start;
+                    let removeEnd = node.semicolon !== undefined ? node.semicolon + 1 : node.end;
+                    const lineStart = text.lastIndexOf('\n', removeStart - 1) + 1;
+                    const lineEndMatch = text.substring(removeEnd).match(/^[ \t]*(\r?\n|$)/);
+                    if (lineEndMatch && /^[ \t]*$/.test(text.substring(lineStart, removeStart))) {
+                        removeStart = lineStart;
+                        removeEnd += lineEndMatch[0].length;
+                    } else {
+                        removeEnd += text.substring(removeEnd).match(/^[ \t]*/)![0].length;
+                    }
+                    fix = { kind: 'remove', range: rangeOf(removeStart, removeEnd) };
+                }
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Error,
+                    range: rangeOf(target.start, target.end),
+                    message: `Read-only Attribute: '${target.name}' cannot be assigned with '${node.operator}'.`,
+                    source: 'Tinderbox Action Code',
+                    data: fix
+                });
+            } else if (node.kind === 'AssignmentStatement' && node.operator === '=') {
+                const target = node.target;
+                if (target.kind === 'AttributeRef') {
+                    const attr = this.systemAttributes.get(target.name);
+                    if (!attr) return;
+                    const inferredType = this.inferExpressionType(node.value, localVars);
+                    if (inferredType && !isCompatible(attr.type, inferredType)) {
+                        diagnostics.push({
+                            severity: DiagnosticSeverity.Warning,
+                            range: statementRange(node),
+                            message: `Type Mismatch: '${target.name}' is ${attr.type}, but assigned ${inferredType}.`,
+                            source: 'Tinderbox Action Code'
+                        });
+                    }
+                } else if (target.kind === 'Identifier') {
+                    const declaredType = localVars.get(target.name);
+                    if (!declaredType) return;
+                    const inferredType = this.inferExpressionType(node.value, localVars);
+                    if (inferredType && !isCompatible(declaredType, inferredType)) {
+                        diagnostics.push({
+                            severity: DiagnosticSeverity.Warning,
+                            range: statementRange(node),
+                            message: `Type Mismatch: Variable '${target.name}' is ${declaredType}, but assigned ${inferredType}.`,
+                            source: 'Tinderbox Action Code'
+                        });
+                    }
+                }
+            }
+        });
+
+        // --- 5. Built-in Operator Arguments ---
+        const declaredFuncNames = new Set<string>();
+        program.body.forEach(stmt => {
+            if (stmt.kind === 'FunctionDeclaration') declaredFuncNames.add(stmt.name.name);
+        });
+        walk(program, node => {
+            let callName: string;
+            let args: Expression[];
+            let nameStart: number;
+            let isMember: boolean;
+            if (node.kind === 'CallExpression') {
+                callName = node.callee.name;
+                args = node.args;
+                nameStart = node.callee.start;
+                isMember = false;
+                // A user function of the same name is not a built-in call
+                if (this.allUserFunctionNames.has(callName) || declaredFuncNames.has(callName)) return;
+            } else if (node.kind === 'MemberExpression' && node.args) {
+                callName = node.property.name;
+                args = node.args;
+                nameStart = node.property.start;
+                isMember = true;
+            } else {
+                return;
+            }
+
+            // Overloads such as date(dateStr) / date(yearNum, monthNum, dayNum[, hourNum, minNum])
+            // An unclosed call is still being typed and already has a syntax error
+            if (text[node.argsEnd! - 1] !== ')') return;
+            const candidates = this.getOperatorOverloads(callName, isMember);
+            if (candidates.length === 0) return;
+            const range = rangeOf(nameStart, node.argsEnd!);
+
+            const matching = candidates.filter(op => args.length >= op.minArgs && args.length <= op.maxArgs);
+            if (matching.length === 0) {
+                const expected = Array.from(new Set(candidates.map(op => `(${formatOperatorParameters(op.parameters!)})`))).join(' or ');
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Warning,
+                    range,
+                    message: `Argument Count: '${callName}' expects ${expected}, but ${args.length} ${args.length === 1 ? 'was' : 'were'} given.`,
+                    source: 'Tinderbox Action Code'
+                });
+                return;
+            }
+
+            // Argument types are only checked when every matching overload agrees on the parameter
+            args.forEach((arg, index) => {
+                const params = matching.map(op => op.parameters![index]);
+                if (params.some(p => !p)) return;
+                const kind = params[0].kind;
+                if (params.some(p => p.kind !== kind)) return;
+
+                if (kind === 'condition') {
+                    // A bare attribute reference is the short-form test for a value, e.g. collect_if(children, $Checked, ...)
+                    if (arg.kind === 'AttributeRef' || (arg.kind === 'UnaryExpression' && arg.operator === '!')) return;
+                    const argType = this.inferExpressionType(arg, localVars);
+                    if (argType && argType !== 'boolean') {
+                        diagnostics.push({
+                            severity: DiagnosticSeverity.Warning,
+                            range: rangeOf(arg.start, arg.end),
+                            message: `Argument Type: '${params[0].name}' of '${callName}' must be a boolean condition, but got ${argType}.`,
+                            source: 'Tinderbox Action Code'
+                        });
+                    }
+                } else if (kind === 'scope') {
+                    const argType = this.inferExpressionType(arg, localVars);
+                    if (argType === 'number' || argType === 'boolean' || argType === 'color') {
+                        diagnostics.push({
+                            severity: DiagnosticSeverity.Warning,
+                            range: rangeOf(arg.start, arg.end),
+                            message: `Argument Type: '${params[0].name}' of '${callName}' must be a designator, path or list of notes, but got ${argType}.`,
+                            source: 'Tinderbox Action Code'
+                        });
+                    }
+                } else if (kind === 'value') {
+                    // The type suffix of the parameter name, e.g. sourceNum or regexList
+                    const type = params[0].type;
+                    if (!type || params.some(p => p.type !== type)) return;
+                    const argType = this.inferExpressionType(arg, localVars);
+                    if (argType && !isCompatible(type, argType)) {
+                        diagnostics.push({
+                            severity: DiagnosticSeverity.Warning,
+                            range: rangeOf(arg.start, arg.end),
+                            message: `Argument Type: '${params[0].name}' of '${callName}' must be a ${type}, but got ${argType}.`,
+                            source: 'Tinderbox Action Code'
+                        });
+                    }
+                }
+            });
+        });
+
+        // --- 5b. Prototype, Link Type and Note Names ---
+        // Only checked against names read from .tbx files in the workspace; without one there is nothing to compare to.
+        if (this.tbxDocuments.size > 0) {
+            const prototypeNames = this.getTbxPrototypeNames();
+            const linkTypeNames = this.getTbxLinkTypeNames();
+            const checkName = (arg: Expression | undefined, known: Set<string>, label: string) => {
+                if (!arg || arg.kind !== 'StringLiteral' || !arg.terminated || !arg.value || known.has(arg.value)) return;
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Warning,
+                    range: rangeOf(arg.start, arg.end),
+                    message: `Unknown ${label}: '${arg.value}' is not defined in any Tinderbox document in the workspace.`,
+                    source: 'Tinderbox Action Code'
+                });
+            };
+            walk(program, node => {
+                if (node.kind === 'AssignmentStatement' && node.operator === '=' && node.target.kind === 'AttributeRef' && node.target.name === '$Prototype') {
+                    checkName(node.value, prototypeNames, 'Prototype');
+                } else if (node.kind === 'BinaryExpression' && (node.operator === '==' || node.operator === '!=' || node.operator === '=')) {
+                    if (node.left.kind === 'AttributeRef' && node.left.name === '$Prototype') checkName(node.right, prototypeNames, 'Prototype');
+                } else if ((node.kind === 'CallExpression' && !this.allUserFunctionNames.has(node.callee.name) && !declaredFuncNames.has(node.callee.name)) ||
+                    (node.kind === 'MemberExpression' && node.args)) {
+                    const callName = node.kind === 'CallExpression' ? node.callee.name : node.property.name;
+                    const args = node.args!;
+                    const op = this.resolveOperatorOverload(callName, node.kind === 'MemberExpression', args.length);
+                    op?.parameters?.forEach((param, index) => {
+                        const kind = getTbxNameKind(param);
+                        if (kind === 'linkType') checkName(args[index], linkTypeNames, 'Link Type');
+                        else if (kind === 'prototype') checkName(args[index], prototypeNames, 'Prototype');
+                    });
+                }
+            });
+
+            const isUserFunction = (name: string) => this.allUserFunctionNames.has(name) || declaredFuncNames.has(name);
+            for (const ref of this.collectNoteReferences(program, isUserFunction)) {
+                if (this.findTbxNotes(ref.reference).length > 0) continue;
+                const isPath = ref.reference.startsWith('/');
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Warning,
+                    range: rangeOf(ref.start, ref.end),
+                    message: isPath
+                        ? `Unknown Note Path: '${ref.reference}' does not match a note in any Tinderbox document in the workspace.`
+                        : `Unknown Note: no note named '${ref.reference}' was found in any Tinderbox document in the workspace.`,
+                    source: 'Tinderbox Action Code'
+                });
+            }
+        }
+
+        // --- 6. Unused and Duplicate Symbol Detection ---
+        const declaredFuncsInFile = new Set<string>();
+        walk(program, node => {
+            if (node.kind !== 'FunctionDeclaration' || !node.name.name) return;
+            const name = node.name.name;
+            if (declaredFuncsInFile.has(name)) {
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Warning,
+                    range: rangeOf(node.name.start, node.name.end),
+                    message: `Duplicate function definition: '${name}' is already defined in this file.`,
+                    source: 'Tinderbox Action Code'
+                });
+            }
+            declaredFuncsInFile.add(name);
+
+            // All functions are global in Tinderbox, so a definition in another file conflicts with this one,
+            // and which of them is used depends on the order of the notes in the outline
+            if (!options.uri) return;
+            const others = this.findFunctionDefinitions(name).filter(d => d.uri !== options.uri);
+            if (others.length === 0) return;
+            const parameters = parameterTypes(text.substring(node.name.start, node.paramsEnd));
+            const differs = (other: GlobalSymbol) => !sameParameters(parameterTypes(other.signature || ''), parameters);
+            const files = Array.from(new Set(others.map(d => Utils.basename(URI.parse(d.uri))))).join(', ');
+            const diagnostic: Diagnostic = {
+                severity: DiagnosticSeverity.Warning,
+                range: rangeOf(node.name.start, node.name.end),
+                message: `Conflicting function definition: '${name}' is also defined in ${files}` +
+                    (others.some(d => differs(d.symbol)) ? ' with different parameters.' : ' with the same parameters.'),
+                source: 'Tinderbox Action Code'
+            };
+            if (options.relatedInformation !== false) {
+                diagnostic.relatedInformation = others.map(d => DiagnosticRelatedInformation.create(
+                    Location.create(d.uri, d.symbol.selectionRange),
+                    `Also defined here as ${d.symbol.signature || name}` + (differs(d.symbol) ? ' (different parameters)' : '')
+                ));
+            }
+            diagnostics.push(diagnostic);
+        });
+
+        // Variables are scoped to the enclosing function (or the whole text at top level)
+        const scopes = new Map<Node, Map<string, { node: VarDeclaration, used: boolean }>>();
+        const scopeStack: Node[] = [];
+        const collectDeclarations = (node: Node): boolean | void => {
+            if (node.kind === 'Program' || node.kind === 'FunctionDeclaration') {
+                scopes.set(node, new Map());
+                scopeStack.push(node);
+                getChildren(node).forEach(child => walk(child, collectDeclarations));
+                scopeStack.pop();
+                return false;
+            }
+            if (node.kind === 'VarDeclaration' && node.name.name) {
+                scopes.get(scopeStack[scopeStack.length - 1])!.set(node.name.name, { node, used: false });
+            }
+        };
+        walk(program, collectDeclarations);
+
+        forEachReference(program, (ref, enclosing) => {
+            if (ref.kind !== 'Identifier') return;
+            for (let s = enclosing.length - 1; s >= 0; s--) {
+                const def = scopes.get(enclosing[s])?.get(ref.name);
+                if (def) {
+                    def.used = true;
+                    break;
+                }
+            }
+        });
+
+        for (const scope of scopes.values()) {
+            for (const [name, def] of scope.entries()) {
+                if (!def.used) {
+                    diagnostics.push({
+                        severity: DiagnosticSeverity.Hint,
+                        range: rangeOf(def.node.name.start, def.node.name.end),
+                        message: `Unused variable: '${name}'`,
+                        tags: [DiagnosticTag.Unnecessary],
+                        source: 'Tinderbox Action Code'
+                    });
+                }
+            }
+        }
+
+        return diagnostics;
+    }
+
+    // --- Helper for Type Inference ---
+    private recursiveInferType(text: string, document: TextDocument, offset: number): string | null {
+        // Look backwards from offset
+        const content = document.getText();
+        const before = content.slice(0, offset).trimEnd();
+
+        // 1. Check for method call at end: e.g. .reverse()
+        // We match parentheses balanced? No, regex is hard.
+        // Simple heuristic: ".methodName("
+        const methodMatch = before.match(/\.([a-zA-Z0-9_]+)\s*\([^)]*\)$/);
+        // Note: this regex is simplistic and won't handle nested parens well.
+        // For accurate chaining, we might need a better parser or step backwards token by token.
+        // Let's try a simpler approach: match the immediate preceding token.
+
+        // Better Approach: extract the chain.
+        // Find the start of the expression ending at offset.
+        // e.g. "$MyList.sort.reverse" (cursor after reverse)
+        // or "$MyList.sort().reverse"
+
+        // Let's rely on valid identifier chars and dots and parens.
+        // Traverse backwards until we hit a terminator (space, ;, {, etc)
+        let i = offset - 1;
+        let depth = 0;
+        while (i >= 0) {
+            const char = content[i];
+            if (char === ')') depth++;
+            else if (char === '(') depth--;
+            else if (depth === 0 && /[;{}\s=]/.test(char)) {
+                break;
+            }
+            i--;
+        }
+        const expr = content.slice(i + 1, offset).trim();
+
+        if (!expr) return null;
+
+        // Gather locals to help inference
+        const locals = collectVariableTypes(content);
+
+        return this.evaluateExpressionType(expr, locals);
+    }
+
+    // --- Helper to evaluate expression type ---
+    private evaluateExpressionType(expr: string, locals?: Map<string, string>): string | null {
+        const node = parseExpression(expr.trim());
+        return node ? this.inferExpressionType(node, locals) : null;
+    }
+
+    private lookupDotOperatorReturnType(leftType: string, methodName: string): string | null {
+        // Look up method on leftType
+        const methods = this.typeMethods.get(leftType.toLowerCase());
+        if (methods) {
+            const op = methods.find(m => {
+                // FIX: CSV names often have (), e.g. "String.lowercase()".
+                // User might type "$Name.lowercase".
+                // We must strip parens/brackets from the DEFINITION for comparison.
+                const suffix = m.name.split('.').pop()?.replace(/\(.*\)$/, '').replace(/\[.*\]$/, '') || m.name;
+                return suffix === methodName;
+            });
+
+            // Return type logic
+            if (op && op.returnType) {
+                return normalizeReturnType(op.returnType);
+            }
+        }
+
+        // Fallback for context-switching methods on strings
+        if (leftType.toLowerCase() === 'string') {
+            if (methodName === 'json') return 'json';
+            if (methodName === 'xml') return 'xml';
+        }
+        return null;
+    }
+
+    private inferExpressionType(node: Expression, locals?: Map<string, string>): string | null {
+        switch (node.kind) {
+            case 'StringLiteral':
+                return 'string';
+            case 'NumberLiteral':
+                return 'number';
+            case 'BooleanLiteral':
+                return 'boolean';
+            case 'ColorLiteral':
+                return /^#[0-9a-fA-F]{6}$/.test(node.raw) ? 'color' : null;
+            case 'ListLiteral':
+                return 'list';
+            case 'GroupExpression':
+                return this.inferExpressionType(node.expression, locals);
+            case 'Identifier':
+                return locals?.get(node.name) ?? null;
+            case 'AttributeRef': {
+                const attr = this.systemAttributes.get(node.name);
+                return attr ? attr.type.toLowerCase() : null;
+            }
+            case 'UnaryExpression':
+                if (node.operator === '!') return 'boolean';
+                return this.inferExpressionType(node.argument, locals) === 'number' ? 'number' : null;
+            case 'BinaryExpression': {
+                if (['==', '!=', '=', '<', '>', '<=', '>=', '&', '&&', '|', '||'].includes(node.operator)) return 'boolean';
+                const left = this.inferExpressionType(node.left, locals);
+                const right = this.inferExpressionType(node.right, locals);
+                if (node.operator === '+' && (left === 'string' || right === 'string')) return 'string';
+                if (left === 'number' && right === 'number') return 'number';
+                return null;
+            }
+            case 'MemberExpression': {
+                const leftType = this.inferExpressionType(node.object, locals);
+                return leftType ? this.lookupDotOperatorReturnType(leftType, node.property.name) : null;
+            }
+            case 'CallExpression': {
+                // Only built-in operators carry a known return type
+                const op = this.tinderboxOperators.get(node.callee.name);
+                if (!op || !op.returnType) return null;
+                const returnType = normalizeReturnType(op.returnType);
+                return this.tinderboxDataTypes.has(returnType) || returnType === 'boolean' ? returnType : null;
+            }
+            default:
+                return null;
+        }
+    }
+
+    // Built-in overloads callable as `name(...)` or, for dot operators, as `x.name(...)`
+    private getOperatorOverloads(callName: string, isMember: boolean): TinderboxOperator[] {
+        return (this.operatorsByCallName.get(callName) || []).filter(op =>
+            isMember ? op.isDotOp || op.callName !== op.name.substring(0, op.callName.length) : op.name.startsWith(op.callName + '('));
+    }
+
+    // Picks the overload that accepts the given number of arguments, falling back to the first one
+    private resolveOperatorOverload(callName: string, isMember: boolean, argCount: number): TinderboxOperator | undefined {
+        const overloads = this.getOperatorOverloads(callName, isMember);
+        return overloads.find(op => argCount >= op.minArgs && argCount <= op.maxArgs) || overloads[0];
+    }
+
+    // actioncodefunctionlist.txt carries the documented signatures (e.g. "avg_if(scope, condition, expressionStr)").
+    // Each one replaces the parameters of the operators.csv overload with the same name and parameter count;
+    // signatures without a CSV counterpart become additional overloads of that operator.
+    private mergeOperatorSignatures(signatures: string[]) {
+        const byQualifiedName = new Map<string, string[]>();
+        for (const signature of signatures) {
+            const match = signature.match(/^((?:[A-Za-z0-9_]+\.)?[A-Za-z0-9_]+)\(/);
+            if (!match) continue;
+            const key = match[1].toLowerCase();
+            if (!byQualifiedName.has(key)) byQualifiedName.set(key, []);
+            byQualifiedName.get(key)!.push(signature);
+        }
+
+        for (const [qualifiedName, sigs] of byQualifiedName.entries()) {
+            const callName = qualifiedName.substring(qualifiedName.lastIndexOf('.') + 1);
+            const ops = Array.from(this.operatorsByCallName.entries())
+                .filter(([name]) => name.toLowerCase() === callName)
+                .flatMap(([, list]) => list)
+                .filter(op => op.name.toLowerCase().startsWith(qualifiedName + '('));
+            if (ops.length === 0) continue;
+
+            const unused = [...sigs];
+            for (const op of ops) {
+                let index = unused.findIndex(sig => parseOperatorParameters(sig, op.argumentFlags)?.length === op.parameters!.length);
+                if (index === -1 && ops.length === 1 && unused.length === 1) index = 0;
+                if (index === -1) continue;
+                const signature = unused.splice(index, 1)[0];
+                op.signature = signature;
+                applyOperatorParameters(op, parseOperatorParameters(signature, op.argumentFlags));
+            }
+            for (const signature of unused) {
+                const overload: TinderboxOperator = { ...ops[0], name: signature, signature };
+                applyOperatorParameters(overload, parseOperatorParameters(signature, overload.argumentFlags));
+                this.operatorsByCallName.get(overload.callName)!.push(overload);
+                if (!this.tinderboxOperators.has(signature)) this.tinderboxOperators.set(signature, overload);
+            }
+        }
+    }
+
+    // Helper to add operator to this.typeMethods map
+    private addOpToType(type: string, op: TinderboxOperator) {
+        if (!this.typeMethods.has(type)) {
+            this.typeMethods.set(type, []);
+        }
+        // Prevent duplicates
+        const methods = this.typeMethods.get(type)!;
+        if (!methods.includes(op)) {
+            methods.push(op);
+        }
+    }
+
+    // --- Workspace ---
+    // User functions come from the files of the workspace, indexed by updateFile/removeFile
+
+    // Both return whether the functions the file defines changed, names or parameters, which other files' diagnostics depend on
+    updateFile(uri: string, text: string): boolean {
+        return this.setFileSymbols(uri, extractSymbolsFromText(text, uri, toDocument(text, ACTION_CODE_LANGUAGE_ID, uri)));
+    }
+
+    // Symbols extracted earlier, e.g. by the server's persisted workspace index
+    setFileSymbols(uri: string, symbols: GlobalSymbol[]): boolean {
+        const functionSignatures = (list: GlobalSymbol[] | undefined) =>
+            JSON.stringify((list || []).filter(s => s.kind === SymbolKind.Function).map(s => s.signature));
+        const changed = functionSignatures(this.workspaceSymbolCache.get(uri)) !== functionSignatures(symbols);
+        if (symbols.length > 0) {
+            this.workspaceSymbolCache.set(uri, symbols);
+        } else {
+            this.workspaceSymbolCache.delete(uri);
+        }
+        this.rebuildUserFunctionNameCache();
+        return changed;
+    }
+
+    removeFile(uri: string) {
+        if (this.workspaceSymbolCache.delete(uri)) this.rebuildUserFunctionNameCache();
+    }
+
+    isUserFunction(name: string): boolean {
+        return this.allUserFunctionNames.has(name);
+    }
+
+    // Files that declare at least one function
+    getFunctionFileUris(): string[] {
+        return Array.from(this.workspaceSymbolCache.entries())
+            .filter(([, symbols]) => symbols.some(symbol => symbol.kind === SymbolKind.Function))
+            .map(([uri]) => uri);
+    }
+
+    findFunction(name: string): { uri: string, symbol: GlobalSymbol } | undefined {
+        for (const [uri, symbols] of this.workspaceSymbolCache.entries()) {
+            const symbol = symbols.find(s => s.name === name && s.kind === SymbolKind.Function);
+            if (symbol) return { uri, symbol };
+        }
+        return undefined;
+    }
+
+    // Every definition of a function in the workspace; Tinderbox has one global namespace, so more than one is a conflict
+    findFunctionDefinitions(name: string): { uri: string, symbol: GlobalSymbol }[] {
+        const definitions: { uri: string, symbol: GlobalSymbol }[] = [];
+        for (const [uri, symbols] of this.workspaceSymbolCache.entries()) {
+            for (const symbol of symbols) {
+                if (symbol.name === name && symbol.kind === SymbolKind.Function) definitions.push({ uri, symbol });
+            }
+        }
+        return definitions;
+    }
+
+    getUserAttributeFileUris(): string[] {
+        return Array.from(this.userAttributeSources.keys());
+    }
+
+    unloadUserAttributeFile(uri: string) {
+        for (const name of this.userAttributeSources.get(uri) || []) {
+            // Only remove what this file added; a system attribute of the same name always wins
+            if (this.systemAttributes.get(name)?.source === uri) {
+                this.systemAttributes.delete(name);
+                this.keywordNames.delete(name);
+            }
+        }
+        this.userAttributeSources.delete(uri);
+    }
+
+    // content is the JSON of a declarations file: a bare array or { "attributes": [...] }
+    loadUserAttributeFile(uri: string, content: string) {
+        this.unloadUserAttributeFile(uri);
+
+        let declarations: any;
+        try {
+            declarations = JSON.parse(content);
+        } catch (err) {
+            this.logger.warn(`Could not load user attributes from ${uri}: ${err}`);
+            return;
+        }
+        const entries: any[] = Array.isArray(declarations) ? declarations : (Array.isArray(declarations?.attributes) ? declarations.attributes : []);
+
+        this.registerUserAttributes(uri, entries
+            .filter(entry => entry && typeof entry.name === 'string' && entry.name.trim())
+            .map(entry => ({
+                name: entry.name,
+                type: typeof entry.type === 'string' ? entry.type : '',
+                defaultValue: entry.default !== undefined ? String(entry.default) : '',
+                description: typeof entry.description === 'string' ? entry.description : '',
+                descriptionJa: typeof entry.descriptionJa === 'string' ? entry.descriptionJa : undefined
+            })));
+    }
+
+    private registerUserAttributes(uri: string, entries: { name: string, type: string, defaultValue: string, description: string, descriptionJa?: string }[]) {
+        const names: string[] = [];
+        for (const entry of entries) {
+            const name = entry.name.trim().startsWith('$') ? entry.name.trim() : '$' + entry.name.trim();
+            const existing = this.systemAttributes.get(name);
+            if (existing && existing.source !== uri) {
+                this.logger.warn(`User attribute ${name} in ${uri} is already declared${existing.source ? ` in ${existing.source}` : ' as a system attribute'}; ignored.`);
+                continue;
+            }
+            this.systemAttributes.set(name, {
+                name,
+                type: entry.type || 'string',
+                group: 'User',
+                defaultValue: entry.defaultValue,
+                readOnly: false,
+                description: entry.description,
+                descriptionJa: entry.descriptionJa,
+                source: uri
+            });
+            this.keywordNames.add(name);
+            names.push(name);
+        }
+        this.userAttributeSources.set(uri, names);
+        this.logger.log(`Loaded ${names.length} user attributes from ${uri}.`);
+    }
+
+    // Returns whether the document was loaded
+    unloadTbxDocument(uri: string): boolean {
+        this.unloadUserAttributeFile(uri);
+        return this.tbxDocuments.delete(uri);
+    }
+
+    // Its user attributes join the system attributes; prototypes, link types and notes back completion and validation
+    loadTbxDocument(uri: string, tbx: TbxDocument) {
+        this.unloadTbxDocument(uri);
+        this.tbxDocuments.set(uri, tbx);
+        this.registerUserAttributes(uri, tbx.attributes);
+        this.logger.log(`Loaded ${tbx.prototypes.length} prototypes and ${tbx.linkTypes.length} link types from ${uri}.`);
+    }
+
+    getTbxDocument(uri: string): TbxDocument | undefined {
+        return this.tbxDocuments.get(uri);
+    }
+
+    private getTbxPrototypeNames(): Set<string> {
+        const names = new Set<string>();
+        this.tbxDocuments.forEach(tbx => tbx.prototypes.forEach(name => names.add(name)));
+        return names;
+    }
+
+    private getColorValues(): Map<string, string> {
+        const colors = new Map<string, string>();
+        for (const [name, color] of this.tinderboxColors) {
+            if (color.colorValue) colors.set(name, color.colorValue);
+        }
+        return colors;
+    }
+
+    // A host for code that runs outside any document: attributes read as the supplied values or their
+    // defaults, and assignments are collected in `assigned`
+    private createAttributeHost(supplied: { [name: string]: unknown }, now: Date): { host: EvaluationHost, assigned: Map<string, Value> } {
+        const assigned = new Map<string, Value>();
+        const systemAttributes = this.systemAttributes;
+        const checkDesignator = (designator: string | undefined) => {
+            if (designator !== undefined && designator.trim() !== 'this') {
+                throw new Error(`The designator '${designator}' needs a Tinderbox document and cannot be evaluated here.`);
+            }
+        };
+        const host: EvaluationHost = {
+            getAttribute(name, designator) {
+                checkDesignator(designator);
+                const value = assigned.get(name);
+                if (value) return value;
+                const attr = systemAttributes.get('$' + name);
+                if (Object.prototype.hasOwnProperty.call(supplied, name)) return valueFromJson(supplied[name], attr?.type, now);
+                if (!attr) throw new Error(`Unknown attribute '$${name}'. Supply its value in the evaluation attributes.`);
+                return valueFromJson(getAttributeDefaultText(attr), attr.type, now);
+            },
+            setAttribute(name, value, designator) {
+                checkDesignator(designator);
+                const attr = systemAttributes.get('$' + name);
+                if (attr?.readOnly) throw new Error(`'$${name}' is read-only.`);
+                assigned.set(name, coerce(value, attr?.type, now));
+            }
+        };
+        return { host, assigned };
+    }
+
+    // --- Evaluation ---
+    // Runs code outside any document. Attributes read as the supplied values or their defaults.
+    evaluate(text: string, attributes: { [name: string]: unknown } = {}): EvaluationOutcome {
+        const now = new Date();
+        const { host, assigned } = this.createAttributeHost(attributes, now);
+        try {
+            const { value } = evaluate(text, { host, now, colors: this.getColorValues() });
+            return { value, attributes: assigned };
+        } catch (err) {
+            if (err instanceof EvaluationError) {
+                return { error: { message: err.message, start: err.start, end: err.end } };
+            }
+            throw err;
+        }
+    }
+
+    private readonly lookupAttribute: AttributeLookup = name => {
+        const attr = this.systemAttributes.get('$' + name);
+        return attr && { type: attr.type, defaultValue: getAttributeDefaultText(attr), readOnly: attr.readOnly };
+    };
+
+    private getSimulationOptions(): SimulationOptions {
+        return {
+            lookup: this.lookupAttribute,
+            designators: new Set(this.tinderboxDesignators.keys()),
+            colors: this.getColorValues()
+        };
+    }
+
+    // Runs code on the given notes of a fixture and returns the attribute changes
+    simulate(fixture: Fixture, notes: FixtureNote[], text: string): SimulationOutcome {
+        try {
+            const { value, changes } = simulate(fixture, notes, text, this.getSimulationOptions());
+            return { changes, value };
+        } catch (err) {
+            if (err instanceof EvaluationError) {
+                return { changes: [], error: { message: err.message, start: err.start, end: err.end } };
+            }
+            throw err;
+        }
+    }
+
+    runAgentQuery(fixture: Fixture, query: string): AgentQueryOutcome {
+        try {
+            return runAgentQuery(fixture, query, {
+                ...this.getSimulationOptions(),
+                inferType: expr => this.inferExpressionType(expr)
+            });
+        } catch (err) {
+            if (err instanceof EvaluationError) {
+                return { matches: [], notes: [], error: { message: err.message, start: err.start, end: err.end } };
+            }
+            throw err;
+        }
+    }
+
+    // Runs every @test of the text, or only the one starting at testStart
+    runTests(text: string, functions: LibraryFunction[], testStart?: number): TestResult[] {
+        const now = new Date();
+        const colors = this.getColorValues();
+        return findTests(text)
+            .filter(test => testStart === undefined || test.start === testStart)
+            .map(test => runTest(test, { host: this.createAttributeHost({}, now).host, now, colors, functions }));
+    }
+
+    // Records every step of running the code on a note of the fixture
+    recordRun(fixture: Fixture, note: FixtureNote, text: string, functions: LibraryFunction[]): DebugRecording {
+        return recordRun(fixture, note, text, { ...this.getSimulationOptions(), functions });
+    }
+
+    // Detects a name being typed at the end of textBefore that refers to something in a .tbx document:
+    // a prototype ($Prototype = "Ta|), a link type (linkTo(child, "ag|) or a note name or outline path
+    // ($Text("Meeting|, $Name(/Projects/Al|, linkTo("Target|)
+    private getTbxNameContext(textBefore: string): { kind: 'prototype' | 'linkType' | 'note', partial: string } | undefined {
+        if (this.tbxDocuments.size === 0) return undefined;
+        const scanText = textBefore.length > 2000 ? textBefore.substring(textBefore.length - 2000) : textBefore;
+
+        let partial: string;
+        let before: string;
+        // Unquoted outline path, e.g. collect(/Projects/Al|
+        const pathMatch = scanText.match(/[(,]\s*(\/[^()"',;\n]*)$/);
+        if (pathMatch) {
+            partial = pathMatch[1];
+            before = scanText.substring(0, scanText.length - partial.length);
+        } else {
+            const tokens = tokenize(scanText);
+            const last = tokens[tokens.length - 1];
+            if (!last || last.type !== 'String' || last.start + last.length !== scanText.length) return undefined;
+            if (last.length > 1 && last.value.endsWith(last.value[0])) return undefined; // Already closed
+            partial = last.value.substring(1);
+            before = scanText.substring(0, last.start);
+        }
+
+        const tokens = tokenize(before).filter(t => t.type !== 'Whitespace' && t.type !== 'Comment');
+        const prev = tokens[tokens.length - 1];
+        const beforePrev = tokens[tokens.length - 2];
+        if (!pathMatch && prev && ['=', '==', '!='].includes(prev.value) && beforePrev?.value === '$Prototype') {
+            return { kind: 'prototype', partial };
+        }
+
+        // Find the enclosing call (or attribute designator) and which argument the name is
+        let depth = 0;
+        let argIndex = 0;
+        for (let i = tokens.length - 1; i >= 0; i--) {
+            const t = tokens[i];
+            if (t.type !== 'Punctuation') continue;
+            if (t.value === ')' || t.value === ']') {
+                depth++;
+            } else if (t.value === '[') {
+                if (depth === 0) return undefined;
+                depth--;
+            } else if (t.value === '(') {
+                if (depth > 0) {
+                    depth--;
+                    continue;
+                }
+                const nameToken = tokens[i - 1];
+                if (!nameToken || nameToken.type !== 'Identifier') return undefined;
+                if (nameToken.value.startsWith('$')) {
+                    // Designator of an attribute reference, e.g. $Name("Note")
+                    return argIndex === 0 && nameToken.start + nameToken.length === t.start ? { kind: 'note', partial } : undefined;
+                }
+                const isMember = tokens[i - 2]?.value === '.';
+                const param = this.resolveOperatorOverload(nameToken.value, isMember, argIndex + 1)?.parameters?.[argIndex];
+                const kind = param && getTbxNameKind(param);
+                // Prototype and link type names are always quoted
+                if (!kind || (kind !== 'note' && pathMatch)) return undefined;
+                return { kind, partial };
+            } else if (t.value === ',' && depth === 0) {
+                argIndex++;
+            } else if (t.value === ';' || t.value === '{' || t.value === '}') {
+                return undefined;
+            }
+        }
+        return undefined;
+    }
+
+    // Note names and outline paths written in attribute designators ($Text("Meeting notes"), $Name(/Projects/Alpha))
+    // and in the note arguments of built-in operators (linkTo("Target Note"), collect(/Projects, $Name)).
+    // Bare designators such as $Name(parent) or $Name(vTarget) are keywords or variables and are not collected.
+    private collectNoteReferences(program: Program, isUserFunction: (name: string) => boolean): { reference: string, start: number, end: number }[] {
+        const references: { reference: string, start: number, end: number }[] = [];
+        const addArgument = (arg: Expression | undefined) => {
+            if (!arg) return;
+            if (arg.kind === 'PathLiteral') {
+                references.push({ reference: arg.text, start: arg.start, end: arg.end });
+            } else if (arg.kind === 'StringLiteral' && arg.terminated && arg.value && !/[$^]/.test(arg.value)) {
+                references.push({ reference: arg.value, start: arg.start, end: arg.end });
+            }
+        };
+        walk(program, node => {
+            // An unclosed designator (still being typed) ends where its text does
+            if (node.kind === 'AttributeRef' && node.designator && node.end > node.designator.end) {
+                const text = node.designator.text;
+                const quoted = text.length >= 2 && /^["']/.test(text) && text.endsWith(text[0]);
+                if (quoted && text.length > 2) {
+                    references.push({ reference: text.substring(1, text.length - 1), start: node.designator.start, end: node.designator.end });
+                } else if (text.startsWith('/')) {
+                    references.push({ reference: text, start: node.designator.start, end: node.designator.end });
+                }
+            } else if ((node.kind === 'CallExpression' && !isUserFunction(node.callee.name)) || (node.kind === 'MemberExpression' && node.args)) {
+                const callName = node.kind === 'CallExpression' ? node.callee.name : node.property.name;
+                const args = node.args!;
+                this.resolveOperatorOverload(callName, node.kind === 'MemberExpression', args.length)?.parameters?.forEach((param, index) => {
+                    if (getTbxNameKind(param) === 'note') addArgument(args[index]);
+                });
+            }
+        });
+        return references;
+    }
+
+    private getTbxNoteCompletions(partial: string, range: Range): CompletionItem[] {
+        const items = new Map<string, CompletionItem>();
+        const byPath = partial.startsWith('/');
+        this.tbxDocuments.forEach((tbx, tbxUri) => {
+            for (const note of tbx.notes) {
+                if (!note.name) continue;
+                const label = byPath ? note.path : note.name;
+                const existing = items.get(label);
+                if (existing) {
+                    // The same name in several places
+                    if (!byPath) existing.detail = 'Note (several)';
+                    continue;
+                }
+                items.set(label, {
+                    label,
+                    kind: CompletionItemKind.Reference,
+                    detail: byPath ? 'Note' : `Note: ${note.path}`,
+                    labelDetails: { description: Utils.basename(URI.parse(tbxUri)) },
+                    textEdit: { range, newText: label }
+                });
+            }
+        });
+        return Array.from(items.values());
+    }
+
+    // Notes a name or an absolute outline path refers to, across every .tbx document in the workspace
+    private findTbxNotes(reference: string): { tbxUri: string, note: TbxNote }[] {
+        const matches: { tbxUri: string, note: TbxNote }[] = [];
+        const isPath = reference.startsWith('/');
+        const target = isPath && reference.length > 1 ? reference.replace(/\/+$/, '') : reference;
+        this.tbxDocuments.forEach((tbx, tbxUri) => {
+            for (const note of tbx.notes) {
+                if ((isPath ? note.path : note.name) === target) matches.push({ tbxUri, note });
+            }
+        });
+        return matches;
+    }
+
+    private getTbxLinkTypeNames(): Set<string> {
+        // 'untitled' is the default type of every link and is never listed explicitly
+        const names = new Set<string>(['untitled']);
+        this.tbxDocuments.forEach(tbx => tbx.linkTypes.forEach(name => names.add(name)));
+        return names;
+    }
+
+    // --- Resources ---
+    // Reads the resource tables through the host. `loaded` settles when this finishes.
+    async load() {
+        try {
+            this.logger.log(`Starting asynchronous resource loading`);
+            const readResource = async (name: string): Promise<string> => {
+                const content = await this.host.readResource(name);
+                if (content === undefined) this.logger.warn(`Could not find the resource ${name}`);
+                return content || '';
+            };
+
+            // Helper to parse CSV (handles multiline fields and escapes)
+            const parseCSV = (text: string) => {
+                const rows = [];
+                let currentRow = [];
+                let currentField = '';
+                let insideQuotes = false;
+                for (let i = 0; i < text.length; i++) {
+                    const char = text[i];
+                    const nextChar = text[i + 1];
+                    if (char === '"') {
+                        if (insideQuotes && nextChar === '"') {
+                            currentField += '"';
+                            i++;
+                        } else {
+                            insideQuotes = !insideQuotes;
+                        }
+                    } else if (char === ',' && !insideQuotes) {
+                        currentRow.push(currentField);
+                        currentField = '';
+                    } else if ((char === '\r' || char === '\n') && !insideQuotes) {
+                        if (char === '\r' && nextChar === '\n') i++;
+                        currentRow.push(currentField);
+                        rows.push(currentRow);
+                        currentRow = [];
+                        currentField = '';
+                    } else {
+                        currentField += char;
+                    }
+                }
+                if (currentField || currentRow.length > 0) {
+                    currentRow.push(currentField);
+                    rows.push(currentRow);
+                }
+                return rows;
+            };
+
+            // --- Load Operators from CSV ---
+            const opCsvContent = await readResource('operators.csv');
+
+            if (opCsvContent) {
+                const rows = parseCSV(opCsvContent);
+                // Migrated logic:
+
+                let successCount = 0;
+                rows.forEach((row, index) => {
+                    if (index === 0) return; // Skip header
+                    if (row.length >= 5) {
+                        const label = row[0].trim();
+                        // Fix: Skip empty labels or comments (if any)
+                        if (!label || label.startsWith('#')) return;
+
+                        const isDotOp = row[13]?.toLowerCase() === 'true';
+                        const opScope = row[2]?.trim() || 'Item';
+
+                        let returnType = row[4] || '';
+                        if (returnType === 'source context dependent') {
+                            if (label.toLowerCase().startsWith('json.')) returnType = 'json';
+                            else if (label.toLowerCase().startsWith('xml.')) returnType = 'xml';
+                        }
+
+                        const numberOfArgs = row[11]?.trim();
+                        const argumentFlags: OperatorArgumentFlags = {
+                            numberOfArgs: !numberOfArgs || numberOfArgs === '*' ? Infinity : parseInt(numberOfArgs) || 0,
+                            hasNeededArguments: row[12]?.toLowerCase() === 'true',
+                            hasRegExArgument: row[16]?.toLowerCase() === 'true',
+                            hasScopeArgument: row[17]?.toLowerCase() === 'true',
+                            hasConditionalArgument: row[18]?.toLowerCase() === 'true',
+                            hasOptionalArgument: row[19]?.toLowerCase() === 'true'
+                        };
+                        const parameters = parseOperatorParameters(label, argumentFlags);
+                        const callNameMatch = label.match(/^(?:[A-Za-z0-9_]+\.)?([A-Za-z0-9_]+)/);
+
+                        const op: TinderboxOperator = {
+                            name: label,
+                            type: row[3], // OpType
+                            returnType: returnType, // OpReturnType
+                            isDotOp: isDotOp,
+                            opScope: opScope,
+                            signature: parameters ? label : label + (row[11] && parseInt(row[11]) > 0 ? '(...)' : ''), // Simple signature approximation
+                            description: row[23] ? row[23].replace(/^"|"$/g, '').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n') : '',
+                            descriptionJa: row[24] ? row[24].replace(/^"|"$/g, '').replace(/""/g, '"').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n') : undefined,
+                            kind: CompletionItemKind.Function, // Default
+                            callName: callNameMatch ? callNameMatch[1] : label,
+                            argumentFlags,
+                            minArgs: 0,
+                            maxArgs: Infinity
+                        };
+                        applyOperatorParameters(op, parameters);
+                        if (parameters) {
+                            if (!this.operatorsByCallName.has(op.callName)) {
+                                this.operatorsByCallName.set(op.callName, []);
+                            }
+                            this.operatorsByCallName.get(op.callName)!.push(op);
+                        }
+
+                        // Refine Kind
+                        if (op.type.toLowerCase().includes('cond')) {
+                            op.kind = CompletionItemKind.Keyword;
+                        }
+
+                        this.tinderboxOperators.set(label, op);
+
+                        // セマンティック・ハイライトやホバー表示のために、引数を除いたベース名でも登録を行う
+                        // "func(args)" や "Type.func(args)" の形式から名前部分を抽出
+                        const baseNameMatch = label.match(/^([a-zA-Z0-9_.]+)/);
+                        if (baseNameMatch) {
+                            const baseName = baseNameMatch[1];
+                            if (!this.tinderboxOperators.has(baseName)) {
+                                this.tinderboxOperators.set(baseName, op);
+                            }
+                            this.keywordNames.add(baseName); // ハイライト対象に追加
+
+                            // ドット演算子 (例: List.each) の場合、末尾の単語 (each) もハイライト対象にする
+                            if (baseName.includes('.')) {
+                                const parts = baseName.split('.');
+                                const suffix = parts[parts.length - 1];
+                                if (suffix) {
+                                    this.keywordNames.add(suffix);
+                                }
+                            }
+                        }
+
+                        const lowerName = label.toLowerCase();
+                        // Populate this.typeMethods based on Prefix or OpScope
+                        if (isDotOp || lowerName.startsWith('json.') || lowerName.startsWith('xml.')) {
+                            const scope = opScope.toLowerCase();
+
+                            // Priority 1: Prefix-based association (e.g. "List.each" -> list)
+                            const prefixMatch = label.match(/^([a-zA-Z0-9]+)\./);
+                            if (prefixMatch) {
+                                const prefixType = prefixMatch[1].toLowerCase();
+                                this.addOpToType(prefixType, op);
+
+                                // Special case: JSON and XML operators are often used as dot-operators on strings (e.g. $Text.json.each)
+                                if (prefixType === 'json' || prefixType === 'xml') {
+                                    this.addOpToType('string', op);
+                                } else if (prefixType === 'list' || prefixType === 'set') {
+                                    this.addOpToType('list', op);
+                                    this.addOpToType('set', op);
+                                } else {
+                                    this.addOpToType(prefixType, op);
+                                }
+                            } else if (lowerName.startsWith('list.')) {
+                                this.addOpToType('list', op);
+                                this.addOpToType('set', op);
+                            } else if (lowerName.startsWith('set.')) {
+                                this.addOpToType('set', op);
+                                this.addOpToType('list', op);
+                            } else if (lowerName.startsWith('string.')) {
+                                this.addOpToType('string', op);
+                            } else if (lowerName.startsWith('number.')) {
+                                this.addOpToType('number', op);
+                            } else if (lowerName.startsWith('date.')) {
+                                this.addOpToType('date', op);
+                            } else if (lowerName.startsWith('color.')) {
+                                this.addOpToType('color', op);
+                            } else if (lowerName.startsWith('boolean.')) {
+                                this.addOpToType('boolean', op);
+                            } else if (lowerName.startsWith('dictionary.')) {
+                                this.addOpToType('dictionary', op);
+                            } else if (lowerName.startsWith('interval.')) {
+                                this.addOpToType('interval', op);
+                            } else if (isDotOp) {
+                                // Priority 2: Fallback to Scope-based association
+                                if (scope === 'item') {
+                                    // Truly generic "Item" scope
+                                    ['string', 'list', 'set', 'number', 'color', 'boolean', 'dictionary', 'date', 'interval'].forEach(t => this.addOpToType(t, op));
+                                } else if (scope === 'list') {
+                                    this.addOpToType('list', op);
+                                    this.addOpToType('set', op);
+                                } else if (scope === 'set') {
+                                    this.addOpToType('set', op);
+                                    this.addOpToType('list', op);
+                                } else {
+                                    // Direct mapping: "String", "Number", "Color" etc.
+                                    this.addOpToType(scope, op);
+                                }
+                            }
+                        }
+
+                        // Also populate this.dotOperatorsMap (Suffix based) for hover fallback
+                        // We extract suffix after LAST dot
+                        const dotIdx = label.lastIndexOf('.');
+                        const cleanLabel = label.replace(/\(.*\)$/, '').replace(/\{.*\}$/, '').replace(/\(.*\)/, '');
+                        if (dotIdx > 0) {
+                            const suffix = label.substring(dotIdx + 1);
+                            const cleanSuffix = suffix.replace(/\(.*\)$/, '').replace(/\{.*\}$/, '').replace(/\(.*\)/, '');
+                            if (cleanSuffix) {
+                                if (!this.dotOperatorsMap.has(cleanSuffix)) {
+                                    this.dotOperatorsMap.set(cleanSuffix, []);
+                                }
+                                this.dotOperatorsMap.get(cleanSuffix)?.push(op);
+                            }
+                        } else {
+                            if (cleanLabel) {
+                                if (!this.dotOperatorsMap.has(cleanLabel)) {
+                                    this.dotOperatorsMap.set(cleanLabel, []);
+                                }
+                                this.dotOperatorsMap.get(cleanLabel)?.push(op);
+                            }
+                        }
+                        // OpFamily logic (independent of IsDotOp, usually for static access like Color.blue)
+                        const dotIdx2 = label.indexOf('.');
+                        if (dotIdx2 > 0 && !label.includes(' ')) {
+                            const familyName = label.substring(0, dotIdx2);
+                            if (!this.operatorFamilies.has(familyName)) {
+                                this.operatorFamilies.set(familyName, []);
+                            }
+                            // Avoid duplicates
+                            const member = label.substring(dotIdx2 + 1);
+                            if (!this.operatorFamilies.get(familyName)?.includes(member)) {
+                                this.operatorFamilies.get(familyName)?.push(member);
+                            }
+                        }
+
+                        successCount++;
+                    }
+                });
+                this.logger.log(`Loaded ${successCount} operators (async).`);
+
+                this.logger.log(`Loaded ${this.tinderboxOperators.size} operators from CSV (async).`);
+
+                // --- Merge Operator Signatures ---
+                const signaturesContent = await readResource('actioncodefunctionlist.txt');
+                if (signaturesContent) {
+                    const signatures = signaturesContent.split(/\r?\n/).map(line => line.trim()).filter(line => line);
+                    this.mergeOperatorSignatures(signatures);
+                    this.logger.log(`Merged ${signatures.length} operator signatures (async).`);
+                }
+
+                // Add operators to reserved words
+                for (const opName of this.tinderboxOperators.keys()) {
+                    this.reservedWords.add(opName);
+                }
+            }
+
+            // --- Load Reserved Words from File ---
+            const reservedContent = await readResource('reserved_list.txt');
+            if (reservedContent) {
+                reservedContent.split(/\r?\n/).forEach((line: string) => {
+                    const word = line.trim();
+                    if (word) {
+                        this.reservedWords.add(word);
+                        this.textReservedWords.add(word);
+                    }
+                });
+                this.logger.log(`Loaded ${this.textReservedWords.size} keywords from file (async).`);
+            }
+
+            // --- Load System Attributes ---
+            const csvContent = await readResource('system_attributes.csv');
+
+            if (csvContent) {
+                const parsedRows = parseCSV(csvContent);
+                // Skip header (row 0)
+                for (let i = 1; i < parsedRows.length; i++) {
+                    const row = parsedRows[i];
+                    if (row.length < 18) continue;
+                    const firstCol = row[0].trim().replace(/^"|"$/g, '');
+                    // Check if it's the header row (Name, AttributeDataType, ...)
+                    if (firstCol.toLowerCase() === 'name' && row[1].trim() === 'AttributeDataType') continue;
+                    if (firstCol.startsWith('#')) continue;
+
+                    // Name,AttributeDataType,AttributeDefault,AttributeGroup,AttributePurpose,AttributeInheritsPrefs,AttributeReadOnly,AttributeIntrinsic,OriginalVersion,CodeFirstAdded,CodeAltered,PlainLinkCount,TextLinkCount,WebLinkCount,ChangeRefSet,IsInternalOnly,HasUISetting,Text
+                    // Name,AttributeDataType,...
+                    const name = '$' + firstCol; // Add $ prefix
+                    // Check type and skip if excluded
+                    const rawType = row[1]?.trim().replace(/^"|"$/g, '') || 'string';
+                    const normType = rawType.toLowerCase().replace(/[^a-z]/g, '');
+                    if (normType === 'action' || normType === 'font' || normType === 'actiontype' || normType === 'fonttype') {
+                        continue;
+                    }
+
+                    const attr: SystemAttribute = {
+                        name: name,
+                        type: rawType,
+                        group: row[3],
+                        defaultValue: row[2],
+                        readOnly: row[6].toLowerCase() === 'true',
+                        description: row[17] ? row[17].replace(/^"|"$/g, '').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n') : '',
+                        descriptionJa: row[18] ? row[18].replace(/^"|"$/g, '').replace(/""/g, '"').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n') : undefined
+                    };
+                    this.systemAttributes.set(name, attr);
+                    this.keywordNames.add(name); // Add to semantic tokens list
+                }
+                this.logger.log(`Loaded ${this.systemAttributes.size} system attributes (async).`);
+            }
+
+            // --- Load Data Types ---
+            const typesContent = await readResource('data_types.csv');
+
+            if (typesContent) {
+                const rows = parseCSV(typesContent);
+                for (let i = 1; i < rows.length; i++) {
+                    const row = rows[i];
+                    if (row.length < 3) continue;
+                    const rawName = row[0].trim().replace(/^"|"$/g, '');
+                    // Name format: "Action-Type Attributes" -> "action"
+                    // Name format: "Action-Type Attributes" -> "action"
+                    const typeKey = rawName.split('-')[0].toLowerCase();
+
+                    if (typeKey === 'action' || typeKey === 'font') continue;
+
+                    const dataType: DataType = {
+                        name: rawName,
+                        description: row[1].replace(/^"|"$/g, '').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n'),
+                        descriptionJa: row[2] ? row[2].replace(/^"|"$/g, '').replace(/""/g, '"').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n') : undefined
+                    };
+                    this.tinderboxDataTypes.set(typeKey, dataType);
+                    // Handle "boolean" explicit overlap if needed, but key is safe
+                }
+                this.logger.log(`Loaded ${this.tinderboxDataTypes.size} data types (async).`);
+            }
+
+            // --- Load Designators ---
+            const designatorsContent = await readResource('designator.csv');
+
+            if (designatorsContent) {
+                const rows = parseCSV(designatorsContent);
+                for (let i = 1; i < rows.length; i++) {
+                    const row = rows[i];
+                    if (row.length < 2) continue;
+                    const name = row[0].trim().replace(/^"|"$/g, '');
+                    const designator: TinderboxDesignator = {
+                        name: name,
+                        description: row[1].replace(/^"|"$/g, '').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n'),
+                        descriptionJa: row[2] ? row[2].replace(/^"|"$/g, '').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n') : undefined
+                    };
+                    this.tinderboxDesignators.set(name.toLowerCase(), designator);
+                }
+                this.logger.log(`Loaded ${this.tinderboxDesignators.size} designators (async).`);
+            }
+
+            // --- Load Colors ---
+            const colorsContent = await readResource('colors.csv');
+
+            if (colorsContent) {
+                const rows = parseCSV(colorsContent);
+                for (let i = 1; i < rows.length; i++) {
+                    const row = rows[i];
+                    if (row.length < 2) continue;
+                    const name = row[0].trim().replace(/^"|"$/g, '');
+                    const color: TinderboxColor = {
+                        name: name,
+                        description: row[1].replace(/^"|"$/g, '').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n'),
+                        descriptionJa: row[2] ? row[2].replace(/^"|"$/g, '').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n') : undefined,
+                        colorValue: row[3] ? row[3].trim() : undefined
+                    };
+                    this.tinderboxColors.set(name.toLowerCase(), color);
+                }
+                this.logger.log(`Loaded ${this.tinderboxColors.size} colors (async).`);
+            }
+
+            // --- Load Export Tags ---
+            const exportTagsContent = await readResource('export_tags.csv');
+
+            if (exportTagsContent) {
+                const rows = parseCSV(exportTagsContent);
+                for (let i = 1; i < rows.length; i++) {
+                    const row = rows[i];
+                    if (row.length < 2) continue;
+                    const rawName = row[0].trim().replace(/^"|"$/g, '');
+                    const baseName = rawName.replace(/\^/g, '').replace(/\(.*\)/, '').trim().toLowerCase();
+                    const tag: TinderboxExportTag = {
+                        name: rawName,
+                        description: row[1] ? row[1].replace(/^"|"$/g, '').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n') : '',
+                        descriptionJa: row[2] ? row[2].replace(/^"|"$/g, '').replace(/""/g, '"').replace(/\\n/g, '\n').replace(/(\r\n|\n|\r)/g, '  \n') : undefined
+                    };
+                    this.tinderboxExportTags.set(baseName, tag);
+                }
+                this.logger.log(`Loaded ${this.tinderboxExportTags.size} export tags (async).`);
+            }
+            this.logger.log("All resources loaded successfully (async).");
+        } catch (err: any) {
+            this.logger.error(`Failed to load data asynchronously: ${err.message}`);
+        } finally {
+            this.resolveLoaded();
+        }
+    }
+
+    // --- Completion ---
+    // Items for the position at offset; their documentation is added by resolveCompletion
+    complete(text: string, offset: number, options: PresentationOptions = {}): CompletionItem[] {
+        const document = toDocument(text, options.languageId);
+        const content = text;
+        if (!content) return [];
+
+        const lang = options.language;
+        const position = document.positionAt(offset);
+        let textBefore = content.slice(0, offset); // keep original for caret context
+        let triggerPrefix = '';
+
+        const isExportCode = document.languageId === EXPORT_CODE_LANGUAGE_ID;
+
+        if (isExportCode) {
+            // Check if we are inside a ^...^ block
+            const caretRegex = /\^/g;
+            let m;
+            let lastCaret = -1;
+            while ((m = caretRegex.exec(textBefore))) {
+                lastCaret = m.index;
+            }
+
+            if (lastCaret !== -1) {
+                // Potential inside tag
+                const tagText = textBefore.substring(lastCaret + 1);
+                // If it contains another ^, we are OUTSIDE a tag (or in a new one)
+                // But we already checked for ALL carets.
+
+                // If we just typed ^ (tagText is empty), suggest tags
+                if (tagText === '' || /^[a-zA-Z0-9]+$/.test(tagText)) {
+                    const range = {
+                        start: document.positionAt(offset - tagText.length - 1),
+                        end: position
+                    };
+
+                    return Array.from(this.tinderboxExportTags.values()).map(tag => {
+                        const cleanName = tag.name.replace(/\^/g, '');
+                        const isFunc = cleanName.includes('(');
+                        const insertText = isFunc ? `^${cleanName.replace(/\(.*\)/, '($0)^')}` : `^${cleanName}^`;
+                        const desc = (lang === 'ja' && tag.descriptionJa) ? tag.descriptionJa : tag.description;
+                        return {
+                            label: tag.name,
+                            kind: CompletionItemKind.Keyword,
+                            detail: 'Export Tag',
+                            documentation: { kind: 'markdown', value: desc },
+                            textEdit: {
+                                range: range,
+                                newText: insertText
+                            },
+                            insertTextFormat: InsertTextFormat.Snippet,
+                            data: { type: 'export_tag', key: tag.name.toLowerCase(), language: lang }
+                        };
+                    });
+                }
+
+                // If inside a tag that takes action code: ^value(...)
+                const actionTagMatch = textBefore.match(/\^([a-zA-Z0-9$]+)\(([^)]*)$/);
+                if (actionTagMatch) {
+                    const tagName = actionTagMatch[1].toLowerCase();
+                    if (['value', 'if', 'action', 'include', 'do', 'not'].includes(tagName)) {
+                        // FALL THROUGH to normal action code completion logic
+                        // but we need to adjust textBefore so normal matchers work
+                        textBefore = actionTagMatch[2]; // Simulate action code context
+                    }
+                } else {
+                    // Inside a tag but not in args? maybe just after name e.g. ^value
+                    // Don't show global action code here.
+                    return [];
+                }
+            } else if (textBefore.endsWith('^')) {
+                // Handled above usually but just in case
+            }
+        }
+
+        // Names from .tbx documents: $Prototype = "Ta|, linkTo(child, "ag|, $Text("Meeting|, collect(/Projects/Al|
+        const nameContext = this.getTbxNameContext(textBefore);
+        if (nameContext) {
+            const range = Range.create(document.positionAt(offset - nameContext.partial.length), position);
+            if (nameContext.kind === 'note') {
+                return this.getTbxNoteCompletions(nameContext.partial, range);
+            }
+            const names = nameContext.kind === 'prototype' ? this.getTbxPrototypeNames() : this.getTbxLinkTypeNames();
+            return Array.from(names).map(name => ({
+                label: name,
+                kind: CompletionItemKind.Value,
+                detail: nameContext.kind === 'prototype' ? 'Prototype' : 'Link Type',
+                textEdit: { range, newText: name }
+            }));
+        }
+
+        // FIX: Update regex to support arguments with quotes, slashes, spaces (e.g. $Name("target"). )
+        const dotMatch = textBefore.match(/([$a-zA-Z0-9_.()\[\]"'/\- ]+)\.([a-zA-Z0-9_]*)$/);
+
+        if (dotMatch) {
+            const receiver = dotMatch[1]; // e.g. "vList", "Color", "$Name"
+            const partial = dotMatch[2];  // e.g. "so", ""
+            let type: string | null = null;
+
+            // 1. System Attribute (Direct lookup with potential args)
+            if (receiver.startsWith('$')) {
+                // Strip args ($Name("foo") -> $Name)
+                const bareReceiver = receiver.replace(/\(.*\)$/, '');
+                const attr = this.systemAttributes.get(bareReceiver);
+                if (attr) type = attr.type;
+            }
+
+            // 2. Class/Group (e.g. Color.blue)
+            if (!type && this.operatorFamilies.has(receiver)) {
+                triggerPrefix = receiver; // Fallback to existing logic for families
+            }
+
+            // 3. Local Variable
+            if (!type) {
+                type = collectVariableTypes(content).get(receiver) || null;
+            }
+
+            // 4. Recursive Inference (Chaining)
+            if (!type) {
+                // Pass position of the dot to infer what comes before it
+                const dotIndex = textBefore.lastIndexOf('.');
+                type = this.recursiveInferType(content, document, dotIndex);
+            }
+
+            if (type) {
+                const methods = this.typeMethods.get(type.toLowerCase());
+                if (methods) {
+                    return methods
+                        .filter(op => {
+                            const suffix = op.name.split('.').pop() || op.name;
+                            return suffix.toLowerCase().startsWith(partial.toLowerCase());
+                        })
+                        .map(op => {
+                            const label = op.parameters ? op.signature : op.name;
+                            const suffix = label.split('.').pop() || label;
+                            const desc = (lang === 'ja' && op.descriptionJa) ? op.descriptionJa : op.description;
+                            // Strip () AND (args) from suffix/name before appending our own snippet parens
+                            // "lowercase()" -> "lowercase", "sort(attrs)" -> "sort"
+                            const cleanSuffix = suffix.replace(/\(.*\)$/, '');
+                            return {
+                                label: suffix,
+                                kind: CompletionItemKind.Method,
+                                detail: op.signature,
+                                documentation: { kind: 'markdown', value: `**${op.name}**\n\n${desc}` },
+                                insertText: buildOperatorSnippet(cleanSuffix, op),
+                                insertTextFormat: InsertTextFormat.Snippet,
+                                data: { type: 'operator', key: op.name, language: lang }
+                            };
+                        });
+                }
+
+            }
+
+            // 5. Operator Families (e.g. Color.blue)
+            if (triggerPrefix && this.operatorFamilies.has(triggerPrefix)) {
+                const members = this.operatorFamilies.get(triggerPrefix) || [];
+                return members.map((mem) => {
+                    const fullName = triggerPrefix + '.' + mem;
+                    const op = this.tinderboxOperators.get(fullName);
+                    const isFunc = op && (op.kind === CompletionItemKind.Function || op.kind === CompletionItemKind.Method);
+                    const desc = (lang === 'ja' && op?.descriptionJa) ? op.descriptionJa : op?.description;
+                    return {
+                        label: op?.parameters ? op.signature.substring(triggerPrefix.length + 1) : mem,
+                        kind: op ? op.kind : CompletionItemKind.Method,
+                        detail: op ? op.signature : fullName,
+                        documentation: desc ? { kind: 'markdown', value: desc } : undefined,
+                        insertText: isFunc ? buildOperatorSnippet(mem.replace(/\(.*\)$/, ''), op) : mem,
+                        insertTextFormat: isFunc ? InsertTextFormat.Snippet : InsertTextFormat.PlainText,
+                        data: { type: 'operator', key: fullName, language: lang }
+                    };
+                });
+            }
+
+            // STRICT RETURN for Dot Completion
+            // If we found a dot, we MUST return something related to it (or nothing).
+            // We must NOT fall through to the global list (which includes attributes).
+            return [];
+        }
+        // Fallback for non-dot completion (Global)
+
+
+        const completions: CompletionItem[] = Array.from(new Set(this.tinderboxOperators.values())) // Operators are also keyed by call name
+            .filter(op => !op.name.includes('.'))
+            .map((op) => {
+                const isFunc = op.kind === CompletionItemKind.Function || op.kind === CompletionItemKind.Method;
+                // FIX: Strip parens from global functions too
+                const cleanName = op.name.replace(/\(.*\)$/, '');
+                return {
+                    label: op.parameters ? op.signature : op.name, // The merged signature, which the detail and snippet also show
+                    kind: op.kind,
+                    detail: op.signature,
+                    insertText: isFunc ? buildOperatorSnippet(cleanName, op) : cleanName,
+                    insertTextFormat: isFunc ? InsertTextFormat.Snippet : InsertTextFormat.PlainText,
+                    data: { type: 'operator', key: op.name, language: lang }
+                };
+            });
+
+        for (const family of this.operatorFamilies.keys()) {
+            if (!this.tinderboxOperators.has(family)) {
+                completions.push({
+                    label: family,
+                    kind: CompletionItemKind.Class,
+                    detail: `Class/Group: ${family}`,
+                    data: { type: 'family', key: family, language: lang }
+                });
+            }
+        }
+
+        // FIX: Robust backward scan for $ trigger
+        // We scan backwards from offset-1 until we hit a non-identifier char.
+        // If the char BEFORE the identifier is $, then hasDollarTrigger = true.
+        // offset is already defined above
+        let scanIdx = (content && offset > 0) ? offset - 1 : -1;
+
+        // Skip current word part (e.g. "Na" in "$Na")
+        while (scanIdx >= 0 && content && /[a-zA-Z0-9_]/.test(content[scanIdx])) {
+            scanIdx--;
+        }
+        // Now scanIdx point to the char BEFORE the word, or -1.
+        const charBefore = (scanIdx >= 0 && content) ? content[scanIdx] : '';
+        const hasDollarTrigger = charBefore === '$';
+
+        const attrCompletions: CompletionItem[] = Array.from(this.systemAttributes.values())
+            .map((attr) => {
+                const item: CompletionItem = {
+                    label: attr.name,
+                    kind: CompletionItemKind.Variable,
+                    detail: `${attr.type} (Default: ${attr.defaultValue})`,
+                    // Simple check: if already have $, don't insert it again.
+                    insertText: hasDollarTrigger ? attr.name.substring(1) : attr.name,
+                    data: { type: 'attribute', key: attr.name, language: lang }
+                };
+                return item;
+            });
+
+        // --- NEW: Function Snippet ---
+        completions.push({
+            label: 'function',
+            kind: CompletionItemKind.Snippet,
+            insertText: 'function ${1:name}(${2:args}){\n\t$0\n}',
+            insertTextFormat: InsertTextFormat.Snippet,
+            detail: 'Define a function',
+            data: { language: lang }
+        });
+
+        // --- NEW: Control flow Snippets (each, if, ifelse) ---
+        completions.push({
+            label: 'each',
+            kind: CompletionItemKind.Snippet,
+            insertText: '\\$${1:MyList}.each(${2:loopVar}){\n\t$0\n}',
+            insertTextFormat: InsertTextFormat.Snippet,
+            detail: 'Iterate over a list (each loop)',
+            data: { language: lang }
+        });
+
+        completions.push({
+            label: 'if',
+            kind: CompletionItemKind.Snippet,
+            insertText: 'if(${1:condition}){\n\t$0\n}',
+            insertTextFormat: InsertTextFormat.Snippet,
+            detail: 'if block',
+            data: { language: lang }
+        });
+
+        completions.push({
+            label: 'ifelse',
+            kind: CompletionItemKind.Snippet,
+            insertText: 'if(${1:condition}){\n\t$2\n} else {\n\t$0\n}',
+            insertTextFormat: InsertTextFormat.Snippet,
+            detail: 'if/else block',
+            data: { language: lang }
+        });
+
+        // --- NEW: Dynamic Function Detection (from workspace cache) ---
+        for (const [uri, symbols] of this.workspaceSymbolCache.entries()) {
+            for (const sym of symbols) {
+                if (sym.kind === SymbolKind.Function) {
+                    if (!completions.some(c => c.label === sym.name)) {
+                        completions.push({
+                            label: sym.name,
+                            kind: CompletionItemKind.Function,
+                            detail: sym.signature ? `User Function: ${sym.signature}` : 'User Function',
+                            data: { type: 'user_func', key: sym.name, uri: uri, language: lang }
+                        });
+                    }
+                }
+            }
+        }
+
+        // --- NEW: Local Variable and Argument Detection (Current Document) ---
+        if (content) {
+            const tokens = tokenize(content);
+            for (let i = 0; i < tokens.length; i++) {
+                const t = tokens[i];
+                if (t.type === 'Identifier') {
+                    if (isDeclaration(tokens, i, 0)) {
+                        // We already added global functions from cache.
+                        // Here we handle local variables and arguments.
+                        let isFunc = false;
+                        let j = i - 1;
+                        while (j >= 0 && tokens[j].type === 'Whitespace') j--;
+                        if (j >= 0 && tokens[j].value === 'function') {
+                            isFunc = true;
+                        }
+
+                        if (!isFunc) {
+                            if (!completions.some(c => c.label === t.value)) {
+                                completions.push({
+                                    label: t.value,
+                                    kind: CompletionItemKind.Variable,
+                                    detail: 'Local Variable/Argument',
+                                    data: { type: 'local_var', key: t.value, language: lang }
+                                });
+                            }
+                        }
+                    }
+                }
+            }
+        }
+
+        // --- NEW: Reserved Words Completion ---
+        for (const word of this.textReservedWords) {
+            // Skip if it's already an attribute or family
+            // We DO NOT skip operators, so that explicit keywords (like if/else) appear as Keywords even if they are also operators.
+            if (this.systemAttributes.has(word)) continue;
+            if (this.operatorFamilies.has(word)) continue;
+
+            completions.push({
+                label: word,
+                kind: CompletionItemKind.Keyword,
+                detail: 'Keyword',
+                data: { type: 'keyword', key: word, language: lang }
+            });
+        }
+
+        // --- NEW: Data Types (Lowercase) ---
+        for (const [typeKey, dataType] of this.tinderboxDataTypes) {
+            completions.push({
+                label: typeKey, // "string", "number", etc.
+                kind: CompletionItemKind.TypeParameter,
+                detail: dataType.name, // "String-Type Attributes"
+                data: { type: 'datatype', key: typeKey, language: lang }
+            });
+        }
+
+        // --- NEW: Designators (指定子) ---
+        const designatorCompletions: CompletionItem[] = Array.from(this.tinderboxDesignators.values())
+            .map((designator) => {
+                const name = designator.name;
+                // Check if it's a function-like designator (e.g. find, collect, etc. often have arguments)
+                // In Tinderbox, some designators can take arguments.
+                // For now, let's check if the description suggests usage with parentheses.
+                const isFunc = /\(.*\)/.test(designator.description) || ['find', 'collect', 'each'].some(d => name.toLowerCase().includes(d));
+
+                return {
+                    label: name,
+                    kind: CompletionItemKind.Constant,
+                    detail: 'Designator (指定子)',
+                    insertText: isFunc ? `${name}($0)` : name,
+                    insertTextFormat: isFunc ? InsertTextFormat.Snippet : InsertTextFormat.PlainText,
+                    data: { type: 'designator', key: name.toLowerCase(), language: lang }
+                };
+            });
+
+        const colorCompletions: CompletionItem[] = Array.from(this.tinderboxColors.values())
+            .map((color) => {
+                return {
+                    label: color.name,
+                    kind: CompletionItemKind.Color,
+                    detail: color.colorValue ? `Color (${color.colorValue})` : 'Color',
+                    data: { type: 'color', key: color.name.toLowerCase(), language: lang }
+                };
+            });
+
+        return completions.concat(attrCompletions).concat(designatorCompletions).concat(colorCompletions);
+
+    }
+
+
+    // Adds the documentation of a completion item
+    resolveCompletion(item: CompletionItem): CompletionItem {
+        const data = item.data;
+        if (!data) return item;
+        const lang = data.language || 'en';
+
+        if (data.type === 'operator') {
+            const op = this.tinderboxOperators.get(data.key);
+            if (op) {
+                const desc = (lang === 'ja' && op.descriptionJa) ? op.descriptionJa : op.description;
+                item.documentation = {
+                    kind: 'markdown',
+                    value: `**${op.name}**\n*${op.type}* -> ${op.returnType}\n\n\`\`\`tinderbox\n${op.signature}\n\`\`\`\n\n${desc}`
+                };
+            }
+        } else if (data.type === 'attribute') {
+            const attr = this.systemAttributes.get(data.key);
+            if (attr) {
+                const desc = (lang === 'ja' && attr.descriptionJa) ? attr.descriptionJa : attr.description;
+                item.documentation = {
+                    kind: 'markdown',
+                    value: `**${attr.name}**\n\n*Type*: ${attr.type}\n*Group*: ${attr.group}\n*Read Only*: ${attr.readOnly}\n\n${desc}`
+                };
+            }
+        } else if (data.type === 'designator') {
+            const d = this.tinderboxDesignators.get(data.key);
+            if (d) {
+                const desc = (lang === 'ja' && d.descriptionJa) ? d.descriptionJa : d.description;
+                item.documentation = {
+                    kind: 'markdown',
+                    value: `**${d.name}**\n\n*Designator (指定子)*\n\n${desc}`
+                };
+            }
+        } else if (data.type === 'datatype') {
+            const dt = this.tinderboxDataTypes.get(data.key);
+            if (dt) {
+                const desc = (lang === 'ja' && dt.descriptionJa) ? dt.descriptionJa : dt.description;
+                item.documentation = {
+                    kind: 'markdown',
+                    value: `**${dt.name}**\n\n${desc}`
+                };
+            }
+        } else if (data.type === 'color') {
+            const color = this.tinderboxColors.get(data.key);
+            if (color) {
+                const desc = (lang === 'ja' && color.descriptionJa) ? color.descriptionJa : color.description;
+                const hexInfo = color.colorValue ? `**${color.colorValue}**\n\n` : '';
+                item.documentation = {
+                    kind: 'markdown',
+                    value: `**${color.name}**\n\n${hexInfo}*Color*\n\n${desc}`
+                };
+            }
+        } else if (data.type === 'user_func') {
+            let userSymbol: GlobalSymbol | undefined;
+            if (data.uri) {
+                const symbols = this.workspaceSymbolCache.get(data.uri);
+                userSymbol = symbols?.find(s => s.name === data.key && s.kind === SymbolKind.Function);
+            } else {
+                for (const symbols of this.workspaceSymbolCache.values()) {
+                    userSymbol = symbols.find(s => s.name === data.key && s.kind === SymbolKind.Function);
+                    if (userSymbol) break;
+                }
+            }
+            if (userSymbol) {
+                let docText = `**${userSymbol.signature || userSymbol.name}**\n\n*User Function*`;
+                if (userSymbol.description) {
+                    docText += `\n\n${userSymbol.description}`;
+                }
+                item.documentation = { kind: 'markdown', value: docText };
+            }
+        }
+        return item;
+    }
+
+
+    // --- Semantic Tokens ---
+    semanticTokens(text: string, languageId = ACTION_CODE_LANGUAGE_ID): SemanticTokens {
+        const doc = toDocument(text, languageId);
+        const builder = new SemanticTokensBuilder();
+
+        const tokens = tokenize(text);
+
+        // 1. Reserved Words (Control Flow)
+        const controlKeywords = new Set([
+            'var', 'if', 'else', 'while', 'do', 'return', 'each', 'to', 'in', 'end'
+        ]);
+
+        // 1b. Boolean Constants
+        const booleanKeywords = new Set([
+            'true', 'false'
+        ]);
+
+        let braceDepth = 0;
+        let currentFunctionParams = new Set<string>();
+        let prevTokenWasFunctionKeyword = false;
+        const isExportCode = doc.languageId === EXPORT_CODE_LANGUAGE_ID;
+        let insideExportTag = false;
+        let justStartedExportTag = false;
+
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            const startPos = doc.positionAt(token.start);
+
+            if (token.type === 'Whitespace') continue;
+
+            if (token.type === 'Comment') {
+                builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('comment'), 0);
+                prevTokenWasFunctionKeyword = false;
+            } else if (token.type === 'String') {
+                builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('string'), 0);
+                prevTokenWasFunctionKeyword = false;
+            } else if (token.type === 'Number') {
+                builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('number'), 0);
+                prevTokenWasFunctionKeyword = false;
+            } else if (token.type === 'Keyword' || token.type === 'Identifier') {
+                const word = token.value;
+                if (isExportCode && !insideExportTag) {
+                    // エクスポートタグの外側では基本ハイライトしない
+                    prevTokenWasFunctionKeyword = false;
+                } else if (isExportCode && justStartedExportTag && !word.startsWith('$')) {
+                    // エクスポートタグの直後の単語（例: ^value(...)^ の value） -> method
+                    builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('method'), (1 << tokenModifiers.indexOf('defaultLibrary')));
+                    justStartedExportTag = false;
+                    prevTokenWasFunctionKeyword = false;
+                } else if (word === 'function') {
+                    builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('keyword'), 0);
+                    prevTokenWasFunctionKeyword = true;
+                    justStartedExportTag = false;
+
+                    // 新しい関数の解析前にパラメータキャッシュをクリア
+                    currentFunctionParams.clear();
+
+                    // 引数を抽出してスコープ管理に使用する
+                    let k = i + 1;
+                    while (k < tokens.length && tokens[k].type === 'Whitespace') k++;
+                    // 関数名のスキップ
+                    if (k < tokens.length && (tokens[k].type === 'Identifier' || tokens[k].type === 'Keyword')) {
+                        k++;
+                        while (k < tokens.length && tokens[k].type === 'Whitespace') k++;
+                        if (k < tokens.length && tokens[k].value === '(') {
+                            k++;
+                            while (k < tokens.length && tokens[k].value !== ')') {
+                                if (tokens[k].type === 'Identifier') {
+                                    currentFunctionParams.add(tokens[k].value);
+                                }
+                                k++;
+                            }
+                        }
+                    }
+                } else if (prevTokenWasFunctionKeyword) {
+                    // 関数定義名 -> function
+                    builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('function'), 0);
+                    prevTokenWasFunctionKeyword = false;
+                    justStartedExportTag = false;
+                } else if (controlKeywords.has(word) || booleanKeywords.has(word)) {
+                    builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('keyword'), 0);
+                    prevTokenWasFunctionKeyword = false;
+                    justStartedExportTag = false;
+                } else if (this.tinderboxDataTypes.has(word.toLowerCase())) {
+                    // date() などの関数呼び出し、またはドット演算子（.date）としての使用かチェック
+                    let isFunction = false;
+                    let next = i + 1;
+                    while (next < tokens.length && tokens[next].type === 'Whitespace') next++;
+                    if (next < tokens.length && tokens[next].value === '(') isFunction = true;
+
+                    let prev = i - 1;
+                    while (prev >= 0 && tokens[prev].type === 'Whitespace') prev--;
+                    if (prev >= 0 && tokens[prev].value === '.') isFunction = true;
+
+                    if (isFunction) {
+                        // 組み込み型名と同名の関数呼び出し -> method + defaultLibrary
+                        builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('method'), (1 << tokenModifiers.indexOf('defaultLibrary')));
+                    } else {
+                        builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('type'), 0);
+                    }
+                    prevTokenWasFunctionKeyword = false;
+                    justStartedExportTag = false;
+                } else if (this.tinderboxDesignators.has(word.toLowerCase())) {
+                    builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('keyword'), (1 << tokenModifiers.indexOf('defaultLibrary')));
+                    prevTokenWasFunctionKeyword = false;
+                    justStartedExportTag = false;
+                } else if (this.allUserFunctionNames.has(word)) {
+                    // ユーザー定義関数の呼び出し -> function
+                    builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('function'), 0);
+                    prevTokenWasFunctionKeyword = false;
+                    justStartedExportTag = false;
+                } else if (currentFunctionParams.has(word)) {
+                    // 関数の引数 -> parameter
+                    // 定義箇所（braceDepth == 0 の場合）か使用箇所（braceDepth > 0 の場合）かを判別
+                    let modifierMask = 0;
+                    if (braceDepth === 0) {
+                        modifierMask |= (1 << tokenModifiers.indexOf('declaration'));
+                    }
+                    builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('parameter'), modifierMask);
+                    prevTokenWasFunctionKeyword = false;
+                    justStartedExportTag = false;
+                } else if (word.startsWith('$')) {
+                    // 属性のハンドリング
+                    if (this.systemAttributes.has(word) && !this.systemAttributes.get(word)!.source) {
+                        // システム属性 -> property + defaultLibrary
+                        const attr = this.systemAttributes.get(word);
+                        let modifierMask = (1 << tokenModifiers.indexOf('defaultLibrary'));
+                        if (attr && attr.readOnly === true) {
+                            modifierMask |= (1 << tokenModifiers.indexOf('readonly'));
+                        }
+                        builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('property'), modifierMask);
+                    } else {
+                        // ユーザー属性 -> enumMember
+                        builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('enumMember'), 0);
+                    }
+                    prevTokenWasFunctionKeyword = false;
+                    justStartedExportTag = false;
+                } else if (this.keywordNames.has(word)) {
+                    // 組み込み関数 / 演算子 -> method + defaultLibrary
+                    let typeIdx = tokenTypes.indexOf('method');
+                    let modifierMask = (1 << tokenModifiers.indexOf('defaultLibrary'));
+                    const op = this.tinderboxOperators.get(word);
+                    if (op) {
+                        if (op.kind === CompletionItemKind.Variable) typeIdx = tokenTypes.indexOf('property');
+                        else if (op.kind === CompletionItemKind.Property) typeIdx = tokenTypes.indexOf('property');
+                        else if (op.kind === CompletionItemKind.Method) typeIdx = tokenTypes.indexOf('method');
+                        else if (['if', 'else', 'while', 'return'].includes(op.name)) {
+                            typeIdx = tokenTypes.indexOf('keyword');
+                            modifierMask = 0;
+                        }
+                    } else if (this.operatorFamilies.has(word)) {
+                        typeIdx = tokenTypes.indexOf('property');
+                    }
+                    builder.push(startPos.line, startPos.character, token.length, typeIdx, modifierMask);
+                    prevTokenWasFunctionKeyword = false;
+                    justStartedExportTag = false;
+                } else {
+                    // ドット演算子としての使用かチェック (例: vList.collect_if)
+                    let prev = i - 1;
+                    while (prev >= 0 && tokens[prev].type === 'Whitespace') prev--;
+                    if (prev >= 0 && tokens[prev].value === '.') {
+                        // 未知のドット演算子も method として扱う
+                        builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('method'), 0);
+                    } else {
+                        // 一般的な識別子（ローカル変数など） -> variable
+                        builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('variable'), 0);
+                    }
+                    prevTokenWasFunctionKeyword = false;
+                    justStartedExportTag = false;
+                }
+            } else if (token.value === '{') {
+                braceDepth++;
+                prevTokenWasFunctionKeyword = false;
+            } else if (token.value === '}') {
+                braceDepth--;
+                if (braceDepth === 0) {
+                    currentFunctionParams.clear();
+                }
+                prevTokenWasFunctionKeyword = false;
+            } else if (token.value === '^') {
+                if (isExportCode) {
+                    builder.push(startPos.line, startPos.character, token.length, tokenTypes.indexOf('macro'), 0);
+                    insideExportTag = !insideExportTag;
+                    justStartedExportTag = insideExportTag;
+                }
+                prevTokenWasFunctionKeyword = false;
+            } else {
+                justStartedExportTag = false;
+                prevTokenWasFunctionKeyword = false;
+            }
+        }
+        return builder.build();
+    }
+
+    // --- Hover ---
+    hover(text: string, offset: number, options: PresentationOptions = {}): Hover | null {
+        const document = toDocument(text, options.languageId);
+        const lang = options.language;
+        const content = text;
+
+        const isExportCode = document.languageId === EXPORT_CODE_LANGUAGE_ID;
+
+        if (isExportCode) {
+            // Priority: Check if we are over an Export Tag (^...^)
+            // We use the same recursive logic as validation to find the exact tag at the cursor
+            interface ExportTagMatch {
+                tagName: string;
+                tagContent: string;
+                tagStart: number;
+                tagEnd: number;
+                contentStart: number;
+            }
+
+            const findExportTags = (input: string, baseOffset: number): ExportTagMatch[] => {
+                const results: ExportTagMatch[] = [];
+                let i = 0;
+                while (i < input.length) {
+                    if (input[i] === '^') {
+                        const start = i;
+                        i++;
+                        let tagName = '';
+                        while (i < input.length && /[a-zA-Z0-9$]/.test(input[i])) {
+                            tagName += input[i];
+                            i++;
+                        }
+                        if (tagName === '') continue;
+
+                        if (i < input.length && input[i] === '(') {
+                            const contentStartIdx = i + 1;
+                            let depth = 1;
+                            i++;
+                            let inString: string | null = null;
+                            let isEscaped = false;
+
+                            while (i < input.length) {
+                                const char = input[i];
+                                if (isEscaped) {
+                                    isEscaped = false;
+                                } else if (char === '\\') {
+                                    isEscaped = true;
+                                } else if (inString) {
+                                    if (char === inString) {
+                                        inString = null;
+                                    }
+                                } else if (char === '"' || char === "'") {
+                                    inString = char;
+                                } else if (char === '(') {
+                                    depth++;
+                                } else if (char === ')') {
+                                    depth--;
+                                }
+
+                                if (depth === 0 && !inString) {
+                                    if (i + 1 < input.length && input[i + 1] === '^') {
+                                        results.push({
+                                            tagName,
+                                            tagContent: input.substring(contentStartIdx, i),
+                                            tagStart: baseOffset + start,
+                                            tagEnd: baseOffset + i + 2,
+                                            contentStart: baseOffset + contentStartIdx
+                                        });
+                                        i += 2;
+                                        break;
+                                    }
+                                    break;
+                                }
+                                i++;
+                            }
+                        } else if (i < input.length && input[i] === '^') {
+                            results.push({
+                                tagName,
+                                tagContent: '',
+                                tagStart: baseOffset + start,
+                                tagEnd: baseOffset + i + 1,
+                                contentStart: -1
+                            });
+                            i++;
+                        }
+                    } else {
+                        i++;
+                    }
+                }
+                return results;
+            };
+
+            const allTags: ExportTagMatch[] = [];
+            const collectRecursively = (input: string, baseOffset: number) => {
+                const tags = findExportTags(input, baseOffset);
+                for (const tag of tags) {
+                    allTags.push(tag);
+                    if (tag.tagContent) collectRecursively(tag.tagContent, tag.contentStart);
+                }
+            };
+
+            collectRecursively(content, 0);
+
+            // Find the most specific (inner-most) tag that contains the cursor
+            const containingTags = allTags
+                .filter(t => offset >= t.tagStart && offset < t.tagEnd)
+                .sort((a, b) => (a.tagEnd - a.tagStart) - (b.tagEnd - b.tagStart));
+
+            if (containingTags.length > 0) {
+                const tag = containingTags[0];
+                const tagNameLower = tag.tagName.toLowerCase();
+                const tagStartPos = document.positionAt(tag.tagStart);
+                const tagEndPos = document.positionAt(tag.tagEnd);
+
+                // If inside content of action-bearing tag, we might want to let Action Code hover handle it
+                if (['value', 'if', 'action', 'do', 'not'].includes(tagNameLower) &&
+                    tag.contentStart !== -1 && offset >= tag.contentStart && offset < (tag.tagEnd - 1)) {
+                    // FALL THROUGH to normal action code hover logic
+                } else {
+                    const tagInfo = this.tinderboxExportTags.get(tagNameLower);
+                    if (tagInfo) {
+                        const desc = (lang === 'ja' && tagInfo.descriptionJa) ? tagInfo.descriptionJa : tagInfo.description;
+                        return {
+                            contents: { kind: 'markdown', value: `**${tagInfo.name}**\n\n*Export Tag*\n\n${desc}` },
+                            range: { start: tagStartPos, end: tagEndPos }
+                        };
+                    }
+                }
+            }
+        }
+
+        // Find the word/expression under the cursor using Tokenizer
+        const tokens = tokenize(content);
+        const targetIndex = tokens.findIndex((t: Token) => offset >= t.start && offset <= t.start + t.length);
+
+        let hoveredWord = '';
+        let hoveredRange: Range | undefined;
+
+        if (targetIndex !== -1) {
+            const targetToken = tokens[targetIndex];
+
+            if (targetToken.type === 'Identifier' || targetToken.type === 'Keyword') {
+                hoveredWord = targetToken.value;
+                hoveredRange = {
+                    start: document.positionAt(targetToken.start),
+                    end: document.positionAt(targetToken.start + targetToken.length)
+                };
+
+                // Priority 1: Check for Designator
+                const designator = this.tinderboxDesignators.get(hoveredWord.toLowerCase());
+                if (designator) {
+                    const desc = (lang === 'ja' && designator.descriptionJa) ? designator.descriptionJa : designator.description;
+                    return {
+                        contents: { kind: 'markdown', value: `**${designator.name}**\n\n*Designator*\n\n${desc}` },
+                        range: hoveredRange
+                    };
+                }
+
+                // Priority 2: System Attribute
+                if (hoveredWord.startsWith('$')) {
+                    const attr = this.systemAttributes.get(hoveredWord);
+                    if (attr) {
+                        const desc = (lang === 'ja' && attr.descriptionJa) ? attr.descriptionJa : attr.description;
+                        return {
+                            contents: { kind: 'markdown', value: `**${attr.name}**\n\n*Type*: ${attr.type}\n*Group*: ${attr.group}\n\n${desc}` },
+                            range: hoveredRange
+                        };
+                    }
+                }
+
+                // Priority 2.5: User-defined Function
+                let userSymbol: GlobalSymbol | undefined;
+                for (const symbols of this.workspaceSymbolCache.values()) {
+                    userSymbol = symbols.find(s => s.name === hoveredWord && s.kind === SymbolKind.Function);
+                    if (userSymbol) break;
+                }
+
+                if (userSymbol) {
+                    let hoverText = `**${userSymbol.signature || userSymbol.name}**\n\n*User Function*`;
+                    if (userSymbol.description) {
+                        hoverText += `\n\n${userSymbol.description}`;
+                    }
+                    return {
+                        contents: { kind: 'markdown', value: hoverText },
+                        range: hoveredRange
+                    };
+                }
+
+                // Priority 3: Data Type (Type declaration context)
+                let isTypeDecl = false;
+                let scanIdx = targetIndex - 1;
+                while (scanIdx >= 0 && tokens[scanIdx].type === 'Whitespace') scanIdx--;
+                if (scanIdx >= 0 && tokens[scanIdx].type === 'Punctuation' && tokens[scanIdx].value === ':') {
+                    isTypeDecl = true;
+                }
+
+                if (isTypeDecl) {
+                    const typeInfo = this.tinderboxDataTypes.get(hoveredWord.toLowerCase());
+                    if (typeInfo) {
+                        const desc = (lang === 'ja' && typeInfo.descriptionJa) ? typeInfo.descriptionJa : typeInfo.description;
+                        return {
+                            contents: { kind: 'markdown', value: `**${typeInfo.name}**\n\n*Data Type*\n\n${desc}` },
+                            range: hoveredRange
+                        };
+                    }
+                }
+
+                // Determine if we are part of a dot-chain to get prefixExpr
+                let prefixExpr = '';
+                let prevIdx = targetIndex - 1;
+                while (prevIdx >= 0 && tokens[prevIdx].type === 'Whitespace') prevIdx--;
+
+                if (prevIdx >= 0 && tokens[prevIdx].type === 'Punctuation' && tokens[prevIdx].value === '.') {
+                    // We have a prefix! Backtrack to find the start of the expression
+                    let exprStartTokenIdx = prevIdx - 1;
+                    let parenDepth = 0;
+                    while (exprStartTokenIdx >= 0) {
+                        const t = tokens[exprStartTokenIdx];
+                        if (t.type === 'Punctuation' && t.value === ')') {
+                            parenDepth++;
+                        } else if (t.type === 'Punctuation' && t.value === '(') {
+                            parenDepth--;
+                            if (parenDepth < 0) {
+                                exprStartTokenIdx++; // exclude this '('
+                                break;
+                            }
+                        } else if (parenDepth === 0) {
+                            // Any operator or specific punctuation breaks the expression
+                            if (t.type === 'Operator' || (t.type === 'Punctuation' && t.value !== '.')) {
+                                exprStartTokenIdx++;
+                                break;
+                            }
+                        }
+                        exprStartTokenIdx--;
+                    }
+                    if (exprStartTokenIdx < 0) exprStartTokenIdx = 0;
+
+                    prefixExpr = content.substring(tokens[exprStartTokenIdx].start, tokens[prevIdx].start).trim();
+                }
+
+                if (prefixExpr) {
+                    const inferredType = this.evaluateExpressionType(prefixExpr, collectVariableTypes(content));
+
+                    if (inferredType) {
+                        const methods = this.typeMethods.get(inferredType.toLowerCase());
+                        if (methods) {
+                            const op = methods.find((m: any) => {
+                                const suffix = m.name.split('.').pop();
+                                const cleanSuffix = suffix?.replace(/\(.*\)$/, '').replace(/\{.*\}$/, '').replace(/\(.*\)/, '');
+                                return cleanSuffix === hoveredWord;
+                            });
+                            if (op) {
+                                const desc = (lang === 'ja' && op.descriptionJa) ? op.descriptionJa : op.description;
+                                return {
+                                    contents: {
+                                        kind: 'markdown',
+                                        value: `**${op.name}**\n*${op.type}* -> ${op.returnType}\n\n\`\`\`tinderbox\n${op.signature}\n\`\`\`\n\n${desc}`
+                                    },
+                                    range: hoveredRange
+                                };
+                            }
+                        }
+                    }
+                }
+
+                // FALLBACK: Try this.dotOperatorsMap (Global Suffix match)
+                const ops = this.dotOperatorsMap.get(hoveredWord);
+                if (ops && ops.length > 0) {
+                    // Prefer standard operators over JSON/XML in global fallback
+                    const op = ops.find((o: any) => !o.name.toLowerCase().startsWith('json.') && !o.name.toLowerCase().startsWith('xml.')) || ops[0];
+                    const desc = (lang === 'ja' && op.descriptionJa) ? op.descriptionJa : op.description;
+                    return {
+                        contents: {
+                            kind: 'markdown',
+                            value: `**${op.name}**\n*${op.type}* -> ${op.returnType}\n\n\`\`\`tinderbox\n${op.signature}\n\`\`\`\n\n${desc}`
+                        },
+                        range: hoveredRange
+                    };
+                }
+            }
+        }
+
+        if (!hoveredWord || !hoveredRange) {
+            return null;
+        }
+
+        // 1. System Attributes
+        if (hoveredWord.startsWith('$')) {
+            const attr = this.systemAttributes.get(hoveredWord);
+            if (attr) {
+                const desc = (lang === 'ja' && attr.descriptionJa) ? attr.descriptionJa : attr.description;
+                return {
+                    contents: {
+                        kind: 'markdown',
+                        value: `**${attr.name}**\n\n*Type*: ${attr.type}\n*Group*: ${attr.group}\n*Read Only*: ${attr.readOnly}\n\n${desc}`
+                    },
+                    range: hoveredRange
+                };
+            } else {
+                // FALLBACK: User Attribute
+                return {
+                    contents: {
+                        kind: 'markdown',
+                        value: `**${hoveredWord}**\n\n*User Attribute (ユーザー定義属性)*`
+                    },
+                    range: hoveredRange
+                };
+            }
+        }
+
+        // 2. Operators / Functions (Standard Lookup for non-chained or simple names)
+        // 2. Operators / Functions (Standard Lookup for non-chained or simple names)
+        // Try robust lookup (strip parens, case-insensitive)
+        const op = Array.from(this.tinderboxOperators.values()).find(op => {
+            const cleanName = op.name.replace(/\(.*\)$/, '').replace(/\{.*\}$/, '').replace(/\(.*\)/, '').toLowerCase();
+            return cleanName === hoveredWord.toLowerCase();
+        });
+        if (op) {
+            const desc = (lang === 'ja' && op.descriptionJa) ? op.descriptionJa : op.description;
+            return {
+                contents: {
+                    kind: 'markdown',
+                    value: `**${op.name}**\n*${op.type}* -> ${op.returnType}\n\n\`\`\`tinderbox\n${op.signature}\n\`\`\`\n\n${desc}`
+                },
+                range: hoveredRange
+            };
+        }
+
+        // 2.5 Designators (Fallback lookup for bare designators)
+        const designator = this.tinderboxDesignators.get(hoveredWord.toLowerCase());
+        if (designator) {
+            const desc = (lang === 'ja' && designator.descriptionJa) ? designator.descriptionJa : designator.description;
+            return {
+                contents: {
+                    kind: 'markdown',
+                    value: `**${designator.name}**\n\n*Designator*\n\n${desc}`
+                },
+                range: hoveredRange
+            };
+        }
+
+        // 3. Colors (Newly Added Priority)
+        const color = this.tinderboxColors.get(hoveredWord.toLowerCase());
+        if (color) {
+            const desc = (lang === 'ja' && color.descriptionJa) ? color.descriptionJa : color.description;
+            const hexInfo = color.colorValue ? `**${color.colorValue}**\n\n` : '';
+            return {
+                contents: {
+                    kind: 'markdown',
+                    value: `**${color.name}**\n\n${hexInfo}*Color*\n\n${desc}`
+                },
+                range: hoveredRange
+            };
+        }
+
+        // 4. Fallback: Variables, loop variables and arguments in scope at the cursor
+        const declaration = findLocalDeclaration(parse(content).program, hoveredWord, offset);
+        if (declaration) {
+            const { node, parent } = declaration;
+            const declaredType = node.kind === 'VarDeclaration' ? node.varType?.name : node.paramType?.name;
+            const kind = node.kind === 'VarDeclaration' ? 'Variable' : parent.kind === 'EachExpression' ? 'Loop Variable' : 'Argument';
+            return {
+                contents: {
+                    kind: 'markdown',
+                    value: `**${hoveredWord}**\n\n*${kind}*${declaredType ? `\n*Type*: ${declaredType}` : ''}`
+                },
+                range: hoveredRange
+            };
+        }
+        return null;
+    }
+
+
+    // --- Signature Help ---
+    signatureHelp(text: string, offset: number, options: PresentationOptions = {}): SignatureHelp | null {
+        const lang = options.language;
+
+        // Use tokenizer to reliably find the opening parenthesis and count commas
+        const textBeforeCursor = text.substring(0, offset);
+        // Limit to last 2000 chars for performance
+        const scanText = textBeforeCursor.length > 2000 ? textBeforeCursor.substring(textBeforeCursor.length - 2000) : textBeforeCursor;
+        const tokens = tokenize(scanText);
+
+        // Filter out whitespaces and comments
+        const activeTokens = tokens.filter(t => t.type !== 'Whitespace' && t.type !== 'Comment');
+
+        let nestedParens = 0;
+        let activeParameter = 0;
+        let foundOpenParenIndex = -1;
+
+        for (let i = activeTokens.length - 1; i >= 0; i--) {
+            const token = activeTokens[i];
+            if (token.type === 'Punctuation' && token.value === ')') {
+                nestedParens++;
+            } else if (token.type === 'Punctuation' && token.value === '(') {
+                if (nestedParens > 0) {
+                    nestedParens--;
+                } else {
+                    foundOpenParenIndex = i;
+                    break;
+                }
+            } else if (token.type === 'Punctuation' && token.value === ',' && nestedParens === 0) {
+                activeParameter++;
+            }
+        }
+
+        if (foundOpenParenIndex > 0) {
+            // Find the function name. Could be a dot chain.
+            let i = foundOpenParenIndex - 1;
+            let funcNameParts = [];
+
+            while (i >= 0) {
+                const t = activeTokens[i];
+                // Include Keyword because functions like "each" might be tokenized as Keyword
+                if (t.type === 'Identifier' || t.type === 'Keyword') {
+                    funcNameParts.unshift(t.value);
+                } else if (t.type === 'Punctuation' && t.value === '.') {
+                    funcNameParts.unshift('.');
+                } else {
+                    break;
+                }
+                i--;
+            }
+
+            const fullFuncName = funcNameParts.join('');
+            if (fullFuncName) {
+                let op = this.tinderboxOperators.get(fullFuncName);
+                if (!op) {
+                    // Try last part
+                    const match = fullFuncName.match(/([a-zA-Z0-9_.]+)$/);
+                    if (match) {
+                        const word = match[1];
+                        op = this.tinderboxOperators.get(word);
+                        if (!op && funcNameParts.length > 0) {
+                            const lastWord = funcNameParts[funcNameParts.length - 1];
+                            op = Array.from(this.tinderboxOperators.values()).find(o => o.name.toLowerCase() === lastWord.toLowerCase() || o.name.endsWith('.' + lastWord));
+                        }
+                    }
+                }
+
+                // Every overload with a parameter model, e.g. date(dateStr) and date(yearNum, monthNum, dayNum[, hourNum, minNum])
+                const lastName = funcNameParts[funcNameParts.length - 1];
+                const overloads = this.getOperatorOverloads(lastName, funcNameParts.length > 1);
+                if (overloads.length > 0) {
+                    const signatures = overloads.map(o => {
+                        const desc = (lang === 'ja' && o.descriptionJa) ? o.descriptionJa : o.description;
+                        const info = toSignatureInformation(o, desc);
+                        // Further arguments of a variadic operator all belong to its last parameter
+                        if (o.maxArgs === Infinity && info.parameters!.length > 0) {
+                            info.activeParameter = Math.min(activeParameter, info.parameters!.length - 1);
+                        }
+                        return info;
+                    });
+                    const activeSignature = overloads.findIndex(o => activeParameter < o.maxArgs);
+                    return {
+                        signatures,
+                        activeSignature: activeSignature === -1 ? 0 : activeSignature,
+                        activeParameter: activeParameter
+                    };
+                }
+
+                if (op) {
+                    const desc = (lang === 'ja' && op.descriptionJa) ? op.descriptionJa : op.description;
+                    return {
+                        signatures: [{
+                            label: op.signature,
+                            documentation: { kind: 'markdown', value: desc },
+                            parameters: []
+                        }],
+                        activeSignature: 0,
+                        activeParameter: activeParameter
+                    };
+                }
+
+                const lastPart = funcNameParts[funcNameParts.length - 1];
+                if (lastPart) {
+                    const d = this.tinderboxDesignators.get(lastPart.toLowerCase());
+                    if (d) {
+                        const desc = (lang === 'ja' && d.descriptionJa) ? d.descriptionJa : d.description;
+                        return {
+                            signatures: [{
+                                label: `${d.name}(...)`,
+                                documentation: { kind: 'markdown', value: desc },
+                                parameters: []
+                            }],
+                            activeSignature: 0,
+                            activeParameter: activeParameter
+                        };
+                    }
+                }
+            }
+        }
+
+        return null;
+    }
+
+    // --- Definition ---
+    // Looks in the text, then in the other open documents, then in the workspace's user functions
+    definition(text: string, offset: number, uri: string, languageId = ACTION_CODE_LANGUAGE_ID, openDocuments: TextDocument[] = []): Definition | null {
+        const document = toDocument(text, languageId, uri);
+
+        // 0. Note names and paths, e.g. $Text("Meeting notes") or linkTo(/Projects/Alpha), lead into the .tbx file
+        if (this.tbxDocuments.size > 0 && document.languageId !== EXPORT_CODE_LANGUAGE_ID) {
+            const { program } = parse(text);
+            const ref = this.collectNoteReferences(program, name => this.allUserFunctionNames.has(name))
+                .find(r => offset >= r.start && offset <= r.end);
+            if (ref) {
+                const locations = this.findTbxNotes(ref.reference).map(({ tbxUri, note }) => {
+                    const tbxTextDocument = TextDocument.create(tbxUri, 'xml', 0, this.tbxDocuments.get(tbxUri)!.text);
+                    const nameElement = note.attributes.get('Name');
+                    const start = nameElement ? nameElement.contentStart : note.element.start;
+                    const end = nameElement ? nameElement.contentEnd : note.element.start;
+                    return Location.create(tbxUri, Range.create(tbxTextDocument.positionAt(start), tbxTextDocument.positionAt(end)));
+                });
+                if (locations.length > 0) return locations;
+            }
+        }
+
+        const tokens = tokenize(text);
+        const targetToken = tokens.find(t =>
+            (t.type === 'Identifier' || t.type === 'Keyword') &&
+            offset >= t.start && offset <= t.start + t.length
+        );
+        if (!targetToken) return null;
+        const targetName = targetToken.value;
+
+        // Determine scope
+        const functionScope = findContainingFunctionDeclaration(text, offset);
+
+        // 1. Check local scope first
+        if (functionScope) {
+            for (let i = 0; i < tokens.length; i++) {
+                const t = tokens[i];
+                if (t.start >= functionScope.start && t.start + t.length <= functionScope.end) {
+                    if (t.type === 'Identifier' && t.value === targetName) {
+                        if (isDeclaration(tokens, i, functionScope.start)) {
+                            return Location.create(document.uri, {
+                                start: document.positionAt(t.start),
+                                end: document.positionAt(t.start + t.length)
+                            });
+                        }
+                    }
+                }
+            }
+        }
+
+        // 2. Fallback to global search
+        for (let i = 0; i < tokens.length; i++) {
+            const t = tokens[i];
+            if (t.type === 'Identifier' && t.value === targetName) {
+                if (isDeclaration(tokens, i, 0)) {
+                    return Location.create(document.uri, {
+                        start: document.positionAt(t.start),
+                        end: document.positionAt(t.start + t.length)
+                    });
+                }
+            }
+        }
+
+        // 3. Fallback to other open documents
+        const processedUris = new Set<string>();
+        processedUris.add(document.uri);
+
+        for (const doc of openDocuments) {
+            if (doc.uri === document.uri) continue;
+            processedUris.add(doc.uri);
+
+            const docText = doc.getText();
+            const docTokens = tokenize(docText);
+
+            for (let i = 0; i < docTokens.length; i++) {
+                const t = docTokens[i];
+                if (t.type === 'Identifier' && t.value === targetName) {
+                    if (isDeclaration(docTokens, i, 0)) {
+                        return Location.create(doc.uri, {
+                            start: doc.positionAt(t.start),
+                            end: doc.positionAt(t.start + t.length)
+                        });
+                    }
+                }
+            }
+        }
+
+        // 4. Fallback to global workspace cache
+        for (const [uri, symbols] of this.workspaceSymbolCache.entries()) {
+            if (processedUris.has(uri)) continue; // Already checked open documents
+            const symbol = symbols.find(s => s.name === targetName);
+            if (symbol) {
+                return symbol.location;
+            }
+        }
+
+        return null;
+    }
+
+
+    // --- Code Actions ---
+    // Quick fixes for the diagnostics and refactorings of the selected range
+    codeActions(text: string, uri: string, range: Range, diagnostics: Diagnostic[]): CodeAction[] {
+        const doc = toDocument(text, ACTION_CODE_LANGUAGE_ID, uri);
+        const codeActions: CodeAction[] = [];
+        diagnostics.forEach(diagnostic => {
+            // 1. Smart Quote Quick Fix
+            if (diagnostic.message.includes('Smart quote') && diagnostic.message.includes('detected')) {
+                const match = diagnostic.message.match(/Smart quote '(.*)' detected/);
+                if (match) {
+                    const smartQuote = match[1];
+                    let replacement = '"';
+                    if (['‘', '’'].includes(smartQuote)) {
+                        replacement = "'";
+                    }
+
+                    codeActions.push({
+                        title: `Replace with straight quote (${replacement})`,
+                        kind: CodeActionKind.QuickFix,
+                        diagnostics: [diagnostic],
+                        edit: {
+                            changes: {
+                                [uri]: [
+                                    {
+                                        range: diagnostic.range,
+                                        newText: replacement
+                                    }
+                                ]
+                            }
+                        }
+                    });
+                }
+            }
+
+            // 2. Read-only Attribute Quick Fix
+            if (diagnostic.message.startsWith('Read-only Attribute:') && diagnostic.data) {
+                const fix = diagnostic.data as ReadOnlyAssignmentFix;
+                codeActions.push({
+                    title: fix.kind === 'compare' ? `Change to comparison ('==')` : 'Remove assignment statement',
+                    kind: CodeActionKind.QuickFix,
+                    diagnostics: [diagnostic],
+                    isPreferred: true,
+                    edit: {
+                        changes: {
+                            [uri]: [
+                                {
+                                    range: fix.range,
+                                    newText: fix.kind === 'compare' ? '==' : ''
+                                }
+                            ]
+                        }
+                    }
+                });
+            }
+
+            // 3. Case Mismatch Quick Fix
+            if (diagnostic.message.includes('Case Mismatch:')) {
+                const match = diagnostic.message.match(/should be '(.*)'/);
+                if (match) {
+                    const correctCase = match[1];
+                    codeActions.push({
+                        title: `Change to '${correctCase}'`,
+                        kind: CodeActionKind.QuickFix,
+                        diagnostics: [diagnostic],
+                        edit: {
+                            changes: {
+                                [uri]: [
+                                    {
+                                        range: diagnostic.range,
+                                        newText: correctCase
+                                    }
+                                ]
+                            }
+                        }
+                    });
+                }
+            }
+        });
+
+        // 3b. "Did you mean" Quick Fixes for undefined identifiers and unknown functions, closest name first
+        diagnostics.forEach(diagnostic => {
+            if (!/^(Undefined Identifier|Unknown Function):/.test(diagnostic.message) || !diagnostic.data) return;
+            const { suggestions } = diagnostic.data as UndefinedNameFix;
+            suggestions.forEach((suggestion, index) => {
+                codeActions.push({
+                    title: `Did you mean '${suggestion}'?`,
+                    kind: CodeActionKind.QuickFix,
+                    diagnostics: [diagnostic],
+                    isPreferred: index === 0,
+                    edit: {
+                        changes: {
+                            [uri]: [TextEdit.replace(diagnostic.range, suggestion)]
+                        }
+                    }
+                });
+            });
+        });
+
+        // 4. Extract to variable (Refactoring Code Action)
+        // Available when there is a selection on a single line
+        if (range.start.line === range.end.line && (range.start.character !== range.end.character)) {
+            // Get the selected text accurately
+            const selectedText = text.substring(doc.offsetAt(range.start), doc.offsetAt(range.end));
+
+            // Basic heuristic: avoid extracting pure whitespace or extremely short generic tokens if not a clear expression
+            // But let's allow it generally if the user selected it.
+            if (selectedText.trim().length > 0) {
+                const varName = 'extractedVar';
+
+                // Get the current line text to find leading whitespace for indentation
+                const lineStartOffset = doc.offsetAt(Position.create(range.start.line, 0));
+                const lineEndOffset = doc.offsetAt(Position.create(range.start.line + 1, 0)) || text.length;
+                const lineText = text.substring(lineStartOffset, lineEndOffset);
+                const leadingWhitespaceMatch = lineText.match(/^(\s*)/);
+                const leadingWhitespace = leadingWhitespaceMatch ? leadingWhitespaceMatch[1] : '';
+
+                const insertionText = `${leadingWhitespace}var:string ${varName} = ${selectedText};\n`;
+
+                codeActions.push({
+                    title: `Extract to variable ('${varName}')`,
+                    kind: CodeActionKind.RefactorExtract,
+                    edit: {
+                        changes: {
+                            [uri]: [
+                                {
+                                    range: Range.create(Position.create(range.start.line, 0), Position.create(range.start.line, 0)),
+                                    newText: insertionText
+                                },
+                                {
+                                    range: range,
+                                    newText: varName
+                                }
+                            ]
+                        }
+                    }
+                });
+            }
+        }
+
+        // 5. Extract to function (Refactoring Code Action)
+        // Available when there is a selection (can be multiline)
+        if (range.start.line !== range.end.line || range.start.character !== range.end.character) {
+            const startOffset = doc.offsetAt(range.start);
+            const endOffset = doc.offsetAt(range.end);
+            const selectedText = text.substring(startOffset, endOffset);
+
+            if (selectedText.trim().length > 0) {
+                const funcName = 'newFunction';
+                const tokens = tokenize(text);
+
+                // Identify parameters (identifiers used in selection but not declared in it)
+                const declaredInSelection = new Set<string>();
+                const usedInSelection = new Set<string>();
+
+                tokens.forEach((t, i) => {
+                    if (t.start >= startOffset && t.start + t.length <= endOffset) {
+                        if (t.type === 'Identifier') {
+                            if (isDeclaration(tokens, i)) {
+                                declaredInSelection.add(t.value);
+                            } else {
+                                // Exclude attributes, operators, and keywords
+                                if (!t.value.startsWith('$') && !this.tinderboxOperators.has(t.value) && !this.keywordNames.has(t.value)) {
+                                    usedInSelection.add(t.value);
+                                }
+                            }
+                        }
+                    }
+                });
+
+                const parameters = Array.from(usedInSelection).filter(v => !declaredInSelection.has(v));
+                const paramsList = parameters.join(', ');
+
+                // Find insertion point: end of file
+                const lastLine = doc.lineCount;
+                const lastLineText = doc.getText(Range.create(lastLine - 1, 0, lastLine - 1, 1000));
+                const insertionPos = Position.create(lastLine, 0);
+
+                // Ensure there is a newline before the new function
+                const prefix = lastLineText.trim().length > 0 ? '\n\n' : '\n';
+                const newFuncDef = `${prefix}function ${funcName}(${paramsList}) {\n${selectedText.split('\n').map(l => '    ' + l).join('\n')}\n}\n`;
+                const call = `${funcName}(${paramsList});`;
+
+                codeActions.push({
+                    title: `Extract to function ('${funcName}')`,
+                    kind: CodeActionKind.RefactorExtract,
+                    edit: {
+                        changes: {
+                            [uri]: [
+                                {
+                                    range: range,
+                                    newText: call
+                                },
+                                {
+                                    range: Range.create(insertionPos, insertionPos),
+                                    newText: newFuncDef
+                                }
+                            ]
+                        }
+                    }
+                });
+            }
+        }
+
+        return codeActions;
+    }
+}
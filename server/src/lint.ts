@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { Settings, readSettings, startServer } from './serverProcess';
+import { UsageError, findFiles, toDisplayPath, plural, reportFailure } from './cli';
+
+// --- tbx-lint ---
+// Checks .tbxa, .tbxc and .tbxe files with the language server and prints the problems found.
+// Exits with 1 when there are errors, so it can gate pull requests, and with 2 when it could not run.
+
+const USAGE = `Usage: tbx-lint [options] <file or directory>...
+
+Checks Tinderbox action code (.tbxa, .tbxc) and export code (.tbxe).
+Directories are searched recursively, skipping hidden folders and node_modules.
+
+Options:
+  -f, --format <format>   human (default), json or sarif
+  -s, --settings <file>   VS Code settings file to read tinderboxActionCodeServer.* settings from
+                          (default: .vscode/settings.json in the current directory, if it exists)
+  -h, --help              Show this help
+`;
+
+type OutputFormat = 'human' | 'json' | 'sarif';
+
+interface FileResult {
+    path: string; // Relative to the current directory, with forward slashes
+    diagnostics: Diagnostic[];
+}
+
+function parseArguments(args: string[]): { format: OutputFormat, settingsFile?: string, paths: string[] } {
+    let format: OutputFormat = 'human';
+    let settingsFile: string | undefined;
+    const paths: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '-h' || arg === '--help') {
+            process.stdout.write(USAGE);
+            process.exit(0);
+        } else if (arg === '-f' || arg === '--format') {
+            const value = args[++i];
+            if (value !== 'human' && value !== 'json' && value !== 'sarif') {
+                throw new UsageError(`--format must be human, json or sarif.`);
+            }
+            format = value;
+        } else if (arg === '-s' || arg === '--settings') {
+            settingsFile = args[++i];
+            if (!settingsFile) throw new UsageError(`--settings needs a file.`);
+        } else if (arg.startsWith('-')) {
+            throw new UsageError(`Unknown option '${arg}'.`);
+        } else {
+            paths.push(arg);
+        }
+    }
+    if (paths.length === 0) throw new UsageError(`No files or directories were given.`);
+    return { format, settingsFile, paths };
+}
+
+// Folders the server scans for user functions and declarations: the given directories and the
+// directories of the given files, without those inside another one
+function getWorkspaceFolders(paths: string[]): string[] {
+    const folders = Array.from(new Set(paths.map(p => {
+        const resolved = path.resolve(p);
+        return fs.statSync(resolved).isDirectory() ? resolved : path.dirname(resolved);
+    })));
+    return folders.filter(folder => !folders.some(other => other !== folder && folder.startsWith(other + path.sep)));
+}
+
+function severityName(severity: DiagnosticSeverity | undefined): string {
+    switch (severity) {
+        case DiagnosticSeverity.Warning: return 'warning';
+        case DiagnosticSeverity.Information: return 'info';
+        case DiagnosticSeverity.Hint: return 'hint';
+        default: return 'error';
+    }
+}
+
+// Rule IDs are the diagnostic source, e.g. 'Tinderbox Action Code' -> 'tinderbox-action-code'
+function ruleId(diagnostic: Diagnostic): string {
+    return diagnostic.code !== undefined ? String(diagnostic.code) : (diagnostic.source || 'tinderbox').toLowerCase().replace(/\s+/g, '-');
+}
+
+// One line per problem, e.g. lib/dates.tbxa:3:5: error: Unknown function 'fmt'.
+function formatHuman(results: FileResult[]): string {
+    const lines: string[] = [];
+    const counts = new Map<string, number>();
+    for (const result of results) {
+        for (const d of result.diagnostics) {
+            const severity = severityName(d.severity);
+            counts.set(severity, (counts.get(severity) || 0) + 1);
+            lines.push(`${result.path}:${d.range.start.line + 1}:${d.range.start.character + 1}: ${severity}: ${d.message}`);
+        }
+    }
+    const total = results.reduce((sum, r) => sum + r.diagnostics.length, 0);
+    const files = results.filter(r => r.diagnostics.length > 0).length;
+    lines.push(total === 0
+        ? `No problems in ${plural(results.length, 'file')}.`
+        : `${plural(total, 'problem')} (${plural(counts.get('error') || 0, 'error')}, ${plural(counts.get('warning') || 0, 'warning')}) in ${files} of ${plural(results.length, 'file')}.`);
+    return lines.join('\n') + '\n';
+}
+
+function formatJson(results: FileResult[]): string {
+    return JSON.stringify(results.map(result => ({
+        path: result.path,
+        diagnostics: result.diagnostics.map(d => ({
+            severity: severityName(d.severity),
+            line: d.range.start.line + 1,
+            column: d.range.start.character + 1,
+            endLine: d.range.end.line + 1,
+            endColumn: d.range.end.character + 1,
+            message: d.message,
+            source: d.source
+        }))
+    })), null, 2) + '\n';
+}
+
+// SARIF 2.1.0, as read by GitHub code scanning. Paths are relative to the current directory.
+function formatSarif(results: FileResult[]): string {
+    const level = (severity: DiagnosticSeverity | undefined) =>
+        severity === DiagnosticSeverity.Warning ? 'warning' : severity === DiagnosticSeverity.Information || severity === DiagnosticSeverity.Hint ? 'note' : 'error';
+    const diagnostics = results.flatMap(result => result.diagnostics.map(d => ({ path: result.path, d })));
+    const rules = Array.from(new Set(diagnostics.map(({ d }) => ruleId(d))));
+    const sarif = {
+        version: '2.1.0',
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'tbx-lint',
+                    informationUri: 'https://github.com/fryagbye/tinderboxlspserver',
+                    rules: rules.map(id => ({ id }))
+                }
+            },
+            originalUriBaseIds: { SRCROOT: { uri: URI.file(process.cwd()).toString() + '/' } },
+            results: diagnostics.map(({ path: filePath, d }) => ({
+                ruleId: ruleId(d),
+                level: level(d.severity),
+                message: { text: d.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: filePath, uriBaseId: 'SRCROOT' },
+                        region: {
+                            startLine: d.range.start.line + 1,
+                            startColumn: d.range.start.character + 1,
+                            endLine: d.range.end.line + 1,
+                            endColumn: d.range.end.character + 1
+                        }
+                    }
+                }]
+            }))
+        }]
+    };
+    return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+async function main(): Promise<number> {
+    let options: ReturnType<typeof parseArguments>;
+    let files: string[] = [];
+    let settings: Settings = {};
+    try {
+        options = parseArguments(process.argv.slice(2));
+        options.paths.forEach(target => findFiles(target, files));
+        files = Array.from(new Set(files));
+        const settingsFile = options.settingsFile ?? path.join('.vscode', 'settings.json');
+        if (options.settingsFile || fs.existsSync(settingsFile)) {
+            settings = readSettings(settingsFile);
+        }
+    } catch (err) {
+        return reportFailure('tbx-lint', err);
+    }
+
+    const server = await startServer(getWorkspaceFolders(options.paths), settings);
+    let results: FileResult[];
+    try {
+        const lintResults = await server.connection.sendRequest<{ uri: string, diagnostics: Diagnostic[] }[]>('tinderbox/lintFiles', {
+            uris: files.map(file => URI.file(file).toString())
+        });
+        results = lintResults.map((result, i) => ({
+            path: toDisplayPath(files[i]),
+            diagnostics: result.diagnostics.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character)
+        }));
+    } finally {
+        await server.stop();
+    }
+
+    const format = options.format === 'json' ? formatJson : options.format === 'sarif' ? formatSarif : formatHuman;
+    process.stdout.write(format(results));
+    return results.some(r => r.diagnostics.some(d => severityName(d.severity) === 'error')) ? 1 : 0;
+}
+
+main().then(code => {
+    process.exitCode = code;
+}, err => {
+    process.exitCode = reportFailure('tbx-lint', err);
+});
@@ -0,0 +1,80 @@
+import { URI, Utils } from 'vscode-uri';
+import { TbxDocument, TbxCodeSection, replaceElementText } from './tbx';
+import { FileSystem } from './fileSystem';
+
+// --- Note Documents ---
+// Action code stored in a .tbx file ($Rule, $Edict, $OnAdd, $AgentQuery, $AgentAction, $DisplayExpression and stamps)
+// is exposed as virtual documents, e.g. tinderbox-note://doc.tbx/Path/To/Note?tbx=...&note=1234#Rule. Neither .tbx
+// file names nor note paths are unique, so the query names the .tbx file and the note's key (see TbxCodeSection);
+// the authority and path are only there to be read.
+
+export const NOTE_DOCUMENT_SCHEME = 'tinderbox-note';
+
+export interface NoteDocumentSection {
+    tbxUri: string;
+    section: TbxCodeSection;
+}
+
+// A note document that cannot be saved; modified: the .tbx file has changed on disk since it was read
+export class NoteDocumentError extends Error {
+    constructor(message: string, readonly modified = false) {
+        super(message);
+    }
+}
+
+export function getNoteDocumentUri(tbxUri: string, section: TbxCodeSection): string {
+    return URI.from({
+        scheme: NOTE_DOCUMENT_SCHEME,
+        authority: Utils.basename(URI.parse(tbxUri)),
+        path: section.attribute === 'Stamp' ? '/' + section.notePath : section.notePath,
+        query: new URLSearchParams({ tbx: tbxUri, note: section.key }).toString(),
+        fragment: section.attribute
+    }).toString();
+}
+
+// Every section a note document URI refers to, among the code sections of the loaded .tbx files (key: .tbx file URI).
+// More than one only when a .tbx file gives several notes the same ID.
+export function findNoteDocumentSections(uri: string, codeSections: Map<string, TbxCodeSection[]>): NoteDocumentSection[] {
+    const parsed = URI.parse(uri);
+    if (parsed.scheme !== NOTE_DOCUMENT_SCHEME) return [];
+    const query = new URLSearchParams(parsed.query);
+    const tbxUri = query.get('tbx');
+    const sections = tbxUri !== null ? codeSections.get(tbxUri) : undefined;
+    if (!tbxUri || !sections) return [];
+    return sections
+        .filter(s => s.key === query.get('note') && s.attribute === parsed.fragment)
+        .map(section => ({ tbxUri, section }));
+}
+
+export function describeCodeSection(section: TbxCodeSection): string {
+    return section.attribute === 'Stamp' ? `Stamp '${section.notePath}'` : `${section.notePath} ($${section.attribute})`;
+}
+
+// Saving a note document writes the code back into its element of the .tbx file, and returns the URI of that file.
+// Only that element's content changes. The write is refused when the URI does not name exactly one section, and
+// when the file on disk no longer matches what was read, since the change may have come from Tinderbox itself.
+export async function saveNoteDocument(
+    fileSystem: FileSystem,
+    uri: string,
+    content: string,
+    codeSections: Map<string, TbxCodeSection[]>,
+    getTbxDocument: (tbxUri: string) => TbxDocument | undefined
+): Promise<string> {
+    const sections = findNoteDocumentSections(uri, codeSections);
+    if (sections.length > 1) {
+        const { tbxUri, section } = sections[0];
+        throw new NoteDocumentError(`${sections.length} notes of ${Utils.basename(URI.parse(tbxUri))} have the ID ${section.key}. ${describeCodeSection(section)} was not saved, since it is unclear which of them to change.`);
+    }
+    const tbx = sections.length === 1 ? getTbxDocument(sections[0].tbxUri) : undefined;
+    if (!tbx) {
+        throw new NoteDocumentError(`${uri} does not refer to action code in a loaded Tinderbox document.`);
+    }
+    const { tbxUri, section } = sections[0];
+
+    const onDisk = await fileSystem.readFile(tbxUri);
+    if (onDisk !== tbx.text) {
+        throw new NoteDocumentError(`${Utils.basename(URI.parse(tbxUri))} has changed on disk since it was read. ${describeCodeSection(section)} was not saved; reload the note and apply your edit again.`, true);
+    }
+    await fileSystem.writeFile(tbxUri, replaceElementText(tbx.text, section.element, content));
+    return tbxUri;
+}
@@ -0,0 +1,961 @@
+import { Token, tokenize } from './tokenizer';
+
+// --- AST Node Types ---
+// All offsets are relative to the text handed to parse().
+
+interface NodeBase {
+    start: number;
+    end: number;
+}
+
+export interface Identifier extends NodeBase {
+    kind: 'Identifier';
+    name: string;
+}
+
+export interface Designator extends NodeBase {
+    // Raw designator text between the parentheses, e.g. `parent`, `"Note"`, `/Projects/Alpha`
+    text: string;
+}
+
+export interface AttributeRef extends NodeBase {
+    kind: 'AttributeRef';
+    name: string; // Includes the leading '$'
+    designator?: Designator;
+}
+
+export interface NumberLiteral extends NodeBase {
+    kind: 'NumberLiteral';
+    value: number;
+    raw: string;
+}
+
+export interface StringLiteral extends NodeBase {
+    kind: 'StringLiteral';
+    value: string;
+    raw: string;
+    terminated: boolean;
+}
+
+export interface BooleanLiteral extends NodeBase {
+    kind: 'BooleanLiteral';
+    value: boolean;
+}
+
+export interface ColorLiteral extends NodeBase {
+    kind: 'ColorLiteral';
+    raw: string;
+}
+
+export interface ListLiteral extends NodeBase {
+    kind: 'ListLiteral';
+    elements: Expression[];
+}
+
+export interface PathLiteral extends NodeBase {
+    kind: 'PathLiteral';
+    text: string;
+}
+
+export interface UnaryExpression extends NodeBase {
+    kind: 'UnaryExpression';
+    operator: string;
+    argument: Expression;
+}
+
+export interface BinaryExpression extends NodeBase {
+    kind: 'BinaryExpression';
+    operator: string;
+    left: Expression;
+    right: Expression;
+}
+
+export interface CallExpression extends NodeBase {
+    kind: 'CallExpression';
+    callee: Identifier;
+    args: Expression[];
+    argsStart: number; // Offset of '('
+    argsEnd: number;   // Offset just past ')'
+}
+
+export interface MemberExpression extends NodeBase {
+    kind: 'MemberExpression';
+    object: Expression;
+    property: Identifier;
+    // undefined when the dot operator is used without parentheses (e.g. `$MyList.count`)
+    args?: Expression[];
+    argsStart?: number;
+    argsEnd?: number;
+}
+
+export interface IndexExpression extends NodeBase {
+    kind: 'IndexExpression';
+    object: Expression;
+    index: Expression;
+}
+
+export interface EachExpression extends NodeBase {
+    kind: 'EachExpression';
+    // `$MyList.each(x){...}` has an object; `eachLink(x){...}` does not
+    object?: Expression;
+    method: Identifier;
+    params: Parameter[];
+    args: Expression[];
+    body: Block;
+}
+
+export interface GroupExpression extends NodeBase {
+    kind: 'GroupExpression';
+    expression: Expression;
+}
+
+export interface ErrorExpression extends NodeBase {
+    kind: 'ErrorExpression';
+}
+
+export type Expression =
+    Identifier | AttributeRef | NumberLiteral | StringLiteral | BooleanLiteral | ColorLiteral |
+    ListLiteral | PathLiteral | UnaryExpression | BinaryExpression | CallExpression |
+    MemberExpression | IndexExpression | EachExpression | GroupExpression | ErrorExpression;
+
+export interface Parameter extends NodeBase {
+    kind: 'Parameter';
+    name: Identifier;
+    paramType?: Identifier;
+}
+
+export interface VarDeclaration extends NodeBase {
+    kind: 'VarDeclaration';
+    name: Identifier;
+    varType?: Identifier;
+    init?: Expression;
+    semicolon?: number;
+}
+
+export interface FunctionDeclaration extends NodeBase {
+    kind: 'FunctionDeclaration';
+    name: Identifier;
+    params: Parameter[];
+    paramsEnd: number; // Offset just past ')'
+    returnType?: Identifier;
+    body: Block;
+}
+
+export interface IfStatement extends NodeBase {
+    kind: 'IfStatement';
+    test: Expression;
+    consequent: Statement;
+    alternate?: Statement;
+}
+
+export interface WhileStatement extends NodeBase {
+    kind: 'WhileStatement';
+    test: Expression;
+    body: Statement;
+}
+
+export interface ReturnStatement extends NodeBase {
+    kind: 'ReturnStatement';
+    argument?: Expression;
+    semicolon?: number;
+}
+
+export interface AssignmentStatement extends NodeBase {
+    kind: 'AssignmentStatement';
+    operator: string; // '=', '+=', '-=', '*=', '/=', '|=', '&='
+    operatorStart: number;
+    target: Expression;
+    value: Expression;
+    semicolon?: number;
+}
+
+export interface ExpressionStatement extends NodeBase {
+    kind: 'ExpressionStatement';
+    expression: Expression;
+    semicolon?: number;
+}
+
+export interface Block extends NodeBase {
+    kind: 'Block';
+    body: Statement[];
+}
+
+export type Statement =
+    VarDeclaration | FunctionDeclaration | IfStatement | WhileStatement | ReturnStatement |
+    AssignmentStatement | ExpressionStatement | Block;
+
+export interface Program extends NodeBase {
+    kind: 'Program';
+    body: Statement[];
+}
+
+export type Node = Program | Statement | Expression | Parameter;
+
+export interface ParseError {
+    message: string;
+    start: number;
+    end: number;
+    // Points back at the construct the error belongs to, e.g. the unclosed '{'
+    related?: { message: string; start: number; end: number };
+}
+
+export interface ParseResult {
+    program: Program;
+    errors: ParseError[];
+    tokens: Token[];
+}
+
+const ASSIGNMENT_OPERATORS = ['=', '+=', '-=', '*=', '/='];
+const EACH_METHODS = ['each', 'eachLine', 'eachLink'];
+const CLOSERS = [')', ']', '}'];
+
+class Parser {
+    private readonly tokens: Token[];
+    private pos = 0;
+    private lastEnd = 0;
+    // Inside a statement's left-hand side a bare '=' is an assignment, not a comparison
+    private bareEqualsIsAssignment = false;
+    // Function declarations only appear at the top level, so one inside a body means a '}' is missing
+    private inFunctionBody = false;
+    readonly errors: ParseError[] = [];
+
+    constructor(private readonly text: string, allTokens: Token[]) {
+        this.tokens = [];
+        for (const t of allTokens) {
+            if (t.type === 'Whitespace' || t.type === 'Comment') continue;
+            // The tokenizer glues '-' onto a following number. After an operand it is a binary minus.
+            if (t.type === 'Number' && t.value.startsWith('-') && this.endsOperand(this.tokens[this.tokens.length - 1])) {
+                this.tokens.push({ type: 'Operator', value: '-', start: t.start, length: 1 });
+                this.tokens.push({ type: 'Number', value: t.value.substring(1), start: t.start + 1, length: t.length - 1 });
+                continue;
+            }
+            this.tokens.push(t);
+        }
+    }
+
+    parseProgram(): Program {
+        const body = this.parseStatementList(false);
+        return { kind: 'Program', body, start: 0, end: this.text.length };
+    }
+
+    parseStandaloneExpression(): Expression | null {
+        if (this.atEnd()) return null;
+        return this.parseExpression();
+    }
+
+    // A condition, e.g. an $AgentQuery: one expression, in which a bare '=' compares, and an optional ';'
+    parseStandaloneCondition(): Expression | null {
+        if (this.atEnd()) return null;
+        const expression = this.parseExpression();
+        if (this.check(';')) this.advance();
+        if (!this.atEnd()) this.errorAtCurrent(`A condition is a single expression; unexpected '${this.peek()!.value}'.`);
+        return expression;
+    }
+
+    // --- Token helpers ---
+
+    private endsOperand(t: Token | undefined): boolean {
+        if (!t) return false;
+        if (t.type === 'Number' || t.type === 'String') return true;
+        if (t.type === 'Identifier') return true;
+        if (t.type === 'Keyword') return t.value === 'true' || t.value === 'false';
+        return t.type === 'Punctuation' && (t.value === ')' || t.value === ']');
+    }
+
+    private peek(offset = 0): Token | undefined {
+        return this.tokens[this.pos + offset];
+    }
+
+    private atEnd(): boolean {
+        return this.pos >= this.tokens.length;
+    }
+
+    private check(value: string, offset = 0): boolean {
+        const t = this.peek(offset);
+        return !!t && t.type !== 'String' && t.value === value;
+    }
+
+    private advance(): Token {
+        const t = this.tokens[this.pos++];
+        this.lastEnd = t.start + t.length;
+        return t;
+    }
+
+    private isAdjacent(a: Token | undefined, b: Token | undefined): boolean {
+        return !!a && !!b && a.start + a.length === b.start;
+    }
+
+    private error(message: string, start: number, end: number, related?: ParseError['related']) {
+        this.errors.push({ message, start, end, related });
+    }
+
+    private errorAtCurrent(message: string, related?: ParseError['related']) {
+        const t = this.peek();
+        if (t) this.error(message, t.start, t.start + t.length, related);
+        else this.error(message, this.lastEnd, this.lastEnd, related);
+    }
+
+    private expect(value: string, message: string): Token | null {
+        if (this.check(value)) return this.advance();
+        this.errorAtCurrent(message);
+        return null;
+    }
+
+    // Like expect(), but links the error back to the bracket that is left open
+    private expectClosing(closer: string, opener: Token, message = `Expected '${closer}' to match '${opener.value}'.`): Token | null {
+        if (this.check(closer)) return this.advance();
+        this.errorAtCurrent(message, { message: `'${opener.value}' opened here.`, start: opener.start, end: opener.start + opener.length });
+        return null;
+    }
+
+    private unexpectedTokenMessage(t: Token): string {
+        if (t.type === 'Punctuation' && CLOSERS.includes(t.value)) return `Unmatched '${t.value}'.`;
+        return `Unexpected token '${t.value}'.`;
+    }
+
+    private startsNewLine(t: Token | undefined): boolean {
+        if (!t) return true;
+        return this.text.substring(this.lastEnd, t.start).includes('\n');
+    }
+
+    // Heuristic used for recovery: does the token at index begin a new statement on its own line?
+    private startsStatement(index: number): boolean {
+        const t = this.tokens[index];
+        const prev = this.tokens[index - 1];
+        if (!t || !prev || !this.text.substring(prev.start + prev.length, t.start).includes('\n')) return false;
+        if (t.type === 'Keyword') return ['var', 'function', 'if', 'while', 'return'].includes(t.value);
+        const next = this.tokens[index + 1];
+        return t.type === 'Identifier' && !!next && next.type === 'Operator' && ASSIGNMENT_OPERATORS.includes(next.value);
+    }
+
+    private identifierFrom(t: Token): Identifier {
+        return { kind: 'Identifier', name: t.value, start: t.start, end: t.start + t.length };
+    }
+
+    // --- Statements ---
+
+    private parseStatementList(inBlock: boolean): Statement[] {
+        const body: Statement[] = [];
+        while (!this.atEnd()) {
+            if (this.check('}')) {
+                if (inBlock) break;
+                this.errorAtCurrent(`Unmatched '}'.`);
+                this.advance();
+                continue;
+            }
+            if (inBlock && this.inFunctionBody && this.check('function')) break;
+            const before = this.pos;
+            const errorCount = this.errors.length;
+            const stmt = this.parseStatement();
+            if (this.pos === before) {
+                // Guarantee progress on tokens no rule could consume
+                this.errors.length = errorCount;
+                this.errorAtCurrent(this.unexpectedTokenMessage(this.peek()!));
+                this.advance();
+                continue;
+            }
+            if (stmt) body.push(stmt);
+        }
+        return body;
+    }
+
+    private parseStatement(): Statement | null {
+        const t = this.peek()!;
+        if (t.type === 'Punctuation' && t.value === ';') {
+            this.advance();
+            return null;
+        }
+        if (t.type === 'Keyword') {
+            switch (t.value) {
+                case 'var': return this.parseVarDeclaration();
+                case 'function': return this.parseFunctionDeclaration();
+                case 'if': return this.parseIfStatement();
+                case 'while': return this.parseWhileStatement();
+                case 'return': return this.parseReturnStatement();
+                case 'else':
+                    this.errorAtCurrent(`'else' without a matching 'if'.`);
+                    this.advance();
+                    return null;
+            }
+        }
+        if (this.check('{')) return this.parseBlock();
+        return this.parseExpressionOrAssignment();
+    }
+
+    private parseTerminator(stmt: { semicolon?: number }) {
+        if (this.check(';')) {
+            stmt.semicolon = this.advance().start;
+            return;
+        }
+        const next = this.peek();
+        if (!next || this.startsNewLine(next)) return;
+        // A stray closer is reported on its own by the statement list
+        if (next.type === 'Punctuation' && CLOSERS.includes(next.value)) return;
+        this.errorAtCurrent(`Expected ';' before '${next.value}'.`);
+    }
+
+    private parseVarDeclaration(): VarDeclaration {
+        const start = this.advance().start; // 'var'
+        let varType: Identifier | undefined;
+        if (this.check(':')) {
+            this.advance();
+            const typeToken = this.peek();
+            if (typeToken && typeToken.type === 'Identifier') {
+                varType = this.identifierFrom(this.advance());
+            } else {
+                this.errorAtCurrent(`Expected a type name after 'var:'.`);
+            }
+        }
+
+        const nameToken = this.peek();
+        let name: Identifier;
+        if (nameToken && (nameToken.type === 'Identifier' || nameToken.type === 'Keyword') && !nameToken.value.startsWith('$')) {
+            name = this.identifierFrom(this.advance());
+        } else {
+            this.errorAtCurrent(`Expected a variable name.`);
+            name = { kind: 'Identifier', name: '', start: this.lastEnd, end: this.lastEnd };
+        }
+
+        let init: Expression | undefined;
+        if (this.check('=')) {
+            this.advance();
+            init = this.parseExpression();
+        }
+        const decl: VarDeclaration = { kind: 'VarDeclaration', name, varType, init, start, end: this.lastEnd };
+        this.parseTerminator(decl);
+        return decl;
+    }
+
+    private parseParameter(): Parameter | null {
+        const t = this.peek();
+        if (!t || t.type !== 'Identifier') return null;
+        const name = this.identifierFrom(this.advance());
+        let paramType: Identifier | undefined;
+        if (this.check(':')) {
+            this.advance();
+            const typeToken = this.peek();
+            if (typeToken && typeToken.type === 'Identifier') {
+                paramType = this.identifierFrom(this.advance());
+            } else {
+                this.errorAtCurrent(`Expected a type name after ':'.`);
+            }
+        }
+        return { kind: 'Parameter', name, paramType, start: name.start, end: this.lastEnd };
+    }
+
+    private parseFunctionDeclaration(): FunctionDeclaration {
+        const start = this.advance().start; // 'function'
+        const nameToken = this.peek();
+        let name: Identifier;
+        if (nameToken && nameToken.type === 'Identifier') {
+            name = this.identifierFrom(this.advance());
+        } else {
+            this.errorAtCurrent(`Expected a function name.`);
+            name = { kind: 'Identifier', name: '', start: this.lastEnd, end: this.lastEnd };
+        }
+
+        const params: Parameter[] = [];
+        const open = this.expect('(', `Expected '(' after function name.`);
+        if (open) {
+            while (!this.atEnd() && !this.check(')') && !this.check('{')) {
+                const param = this.parseParameter();
+                if (param) {
+                    params.push(param);
+                } else {
+                    this.errorAtCurrent(`Expected a parameter name.`);
+                    this.advance();
+                }
+                if (this.check(',')) this.advance();
+                else break;
+            }
+            this.expectClosing(')', open, `Expected ')' after parameters.`);
+        }
+        const paramsEnd = this.lastEnd;
+
+        let returnType: Identifier | undefined;
+        if (this.check(':')) {
+            this.advance();
+            const typeToken = this.peek();
+            if (typeToken && typeToken.type === 'Identifier') returnType = this.identifierFrom(this.advance());
+        }
+
+        let body: Block;
+        if (this.check('{')) {
+            const saved = this.inFunctionBody;
+            this.inFunctionBody = true;
+            body = this.parseBlock();
+            this.inFunctionBody = saved;
+        } else {
+            this.errorAtCurrent(`Expected '{' to start the body of function '${name.name}'.`);
+            body = { kind: 'Block', body: [], start: this.lastEnd, end: this.lastEnd };
+        }
+        return { kind: 'FunctionDeclaration', name, params, paramsEnd, returnType, body, start, end: this.lastEnd };
+    }
+
+    private parseCondition(keyword: string): Expression {
+        const open = this.expect('(', `Expected '(' after '${keyword}'.`);
+        if (!open) {
+            return this.parseExpression();
+        }
+        const test = this.parseNested(() => this.parseExpression());
+        this.expectClosing(')', open, `Expected ')' to close the '${keyword}' condition.`);
+        return test;
+    }
+
+    private parseBody(): Statement {
+        if (this.check('{')) return this.parseBlock();
+        const stmt = !this.atEnd() ? this.parseStatement() : null;
+        return stmt || { kind: 'Block', body: [], start: this.lastEnd, end: this.lastEnd };
+    }
+
+    private parseIfStatement(): IfStatement {
+        const start = this.advance().start; // 'if'
+        const test = this.parseCondition('if');
+        const consequent = this.parseBody();
+        let alternate: Statement | undefined;
+        if (this.check('else')) {
+            this.advance();
+            alternate = this.check('if') ? this.parseIfStatement() : this.parseBody();
+        }
+        return { kind: 'IfStatement', test, consequent, alternate, start, end: this.lastEnd };
+    }
+
+    private parseWhileStatement(): WhileStatement {
+        const start = this.advance().start; // 'while'
+        const test = this.parseCondition('while');
+        const body = this.parseBody();
+        return { kind: 'WhileStatement', test, body, start, end: this.lastEnd };
+    }
+
+    private parseReturnStatement(): ReturnStatement {
+        const start = this.advance().start; // 'return'
+        let argument: Expression | undefined;
+        const next = this.peek();
+        if (next && !this.check(';') && !this.check('}') && !this.startsNewLine(next)) {
+            argument = this.parseExpression();
+        }
+        const stmt: ReturnStatement = { kind: 'ReturnStatement', argument, start, end: this.lastEnd };
+        this.parseTerminator(stmt);
+        return stmt;
+    }
+
+    private parseBlock(): Block {
+        const open = this.advance(); // '{'
+        const body = this.parseStatementList(true);
+        this.expectClosing('}', open);
+        return { kind: 'Block', body, start: open.start, end: this.lastEnd };
+    }
+
+    private matchAssignmentOperator(): { value: string, start: number } | null {
+        const t = this.peek();
+        if (!t || t.type !== 'Operator') return null;
+        if (ASSIGNMENT_OPERATORS.includes(t.value)) {
+            this.advance();
+            return { value: t.value, start: t.start };
+        }
+        // The tokenizer has no '|=' / '&=' tokens
+        if ((t.value === '|' || t.value === '&') && this.check('=', 1) && this.isAdjacent(t, this.peek(1))) {
+            this.advance();
+            this.advance();
+            return { value: t.value + '=', start: t.start };
+        }
+        return null;
+    }
+
+    private parseExpressionOrAssignment(): Statement {
+        const saved = this.bareEqualsIsAssignment;
+        this.bareEqualsIsAssignment = true;
+        const target = this.parseExpression();
+        this.bareEqualsIsAssignment = saved;
+
+        const op = this.matchAssignmentOperator();
+        if (op) {
+            const value = this.parseExpression();
+            const stmt: AssignmentStatement = {
+                kind: 'AssignmentStatement', operator: op.value, operatorStart: op.start,
+                target, value, start: target.start, end: this.lastEnd
+            };
+            this.parseTerminator(stmt);
+            return stmt;
+        }
+        const stmt: ExpressionStatement = { kind: 'ExpressionStatement', expression: target, start: target.start, end: this.lastEnd };
+        if (target.kind !== 'EachExpression') this.parseTerminator(stmt);
+        else if (this.check(';')) stmt.semicolon = this.advance().start;
+        return stmt;
+    }
+
+    // --- Expressions ---
+
+    private parseNested<T>(fn: () => T): T {
+        const saved = this.bareEqualsIsAssignment;
+        this.bareEqualsIsAssignment = false;
+        try {
+            return fn();
+        } finally {
+            this.bareEqualsIsAssignment = saved;
+        }
+    }
+
+    parseExpression(): Expression {
+        return this.parseLogical(0);
+    }
+
+    private parseLogical(level: number): Expression {
+        const symbol = level === 0 ? '|' : '&';
+        const next = () => level === 0 ? this.parseLogical(1) : this.parseEquality();
+        let left = next();
+        while (this.check(symbol)) {
+            // '|=' / '&=' are assignments, not joins
+            if (this.check('=', 1) && this.isAdjacent(this.peek(), this.peek(1))) break;
+            this.advance();
+            let operator = symbol;
+            if (this.check(symbol) && this.isAdjacent(this.tokens[this.pos - 1], this.peek())) {
+                this.advance();
+                operator = symbol + symbol;
+            }
+            const right = next();
+            left = { kind: 'BinaryExpression', operator, left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private parseEquality(): Expression {
+        let left = this.parseRelational();
+        while (this.check('==') || this.check('!=') || (this.check('=') && !this.bareEqualsIsAssignment)) {
+            const operator = this.advance().value;
+            const right = this.parseRelational();
+            left = { kind: 'BinaryExpression', operator, left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private parseRelational(): Expression {
+        let left = this.parseAdditive();
+        while (this.check('<') || this.check('>') || this.check('<=') || this.check('>=')) {
+            const operator = this.advance().value;
+            const right = this.parseAdditive();
+            left = { kind: 'BinaryExpression', operator, left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private parseAdditive(): Expression {
+        let left = this.parseMultiplicative();
+        while (this.check('+') || this.check('-')) {
+            const operator = this.advance().value;
+            const right = this.parseMultiplicative();
+            left = { kind: 'BinaryExpression', operator, left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private parseMultiplicative(): Expression {
+        let left = this.parseUnary();
+        while (this.check('*') || this.check('/')) {
+            const operator = this.advance().value;
+            const right = this.parseUnary();
+            left = { kind: 'BinaryExpression', operator, left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private parseUnary(): Expression {
+        if (this.check('!') || this.check('-')) {
+            const opToken = this.advance();
+            const argument = this.parseUnary();
+            return { kind: 'UnaryExpression', operator: opToken.value, argument, start: opToken.start, end: argument.end };
+        }
+        return this.parsePostfix(this.parsePrimary());
+    }
+
+    private parseArguments(closer: ')' | ']'): { args: Expression[], start: number, end: number } {
+        const open = this.advance(); // '(' or '['
+        const args: Expression[] = this.parseNested(() => {
+            const list: Expression[] = [];
+            while (!this.atEnd() && !this.check(closer)) {
+                if (this.check(';') || this.check('}')) break;
+                const before = this.pos;
+                list.push(this.parseExpression());
+                // A list left open before the next statement: stop at the ';' instead of swallowing it
+                if (closer === ']' && this.check(';') && this.startsStatement(this.pos + 1)) break;
+                if (this.check(',') || (closer === ']' && this.check(';'))) this.advance();
+                else if (this.pos === before || this.check(closer) || this.check(';') || this.check('}') || this.check(')') || this.check(']') || this.startsNewLine(this.peek())) break;
+                // Keep going after a missing separator so one typo yields one error
+                else this.errorAtCurrent(`Expected ',' or '${closer}'.`);
+            }
+            return list;
+        });
+        this.expectClosing(closer, open);
+        return { args, start: open.start, end: this.lastEnd };
+    }
+
+    private parseEachArguments(): { params: Parameter[], args: Expression[], start: number, end: number } {
+        const open = this.advance(); // '('
+        const params: Parameter[] = [];
+        const args: Expression[] = [];
+        this.parseNested(() => {
+            while (!this.atEnd() && !this.check(')')) {
+                if (this.check(';') || this.check('}')) break;
+                const t = this.peek()!;
+                const isLoopVar = t.type === 'Identifier' && !t.value.startsWith('$') &&
+                    (this.check(':', 1) || this.check(',', 1) || this.check(')', 1));
+                if (isLoopVar) params.push(this.parseParameter()!);
+                else args.push(this.parseExpression());
+                if (this.check(',')) this.advance();
+                else break;
+            }
+        });
+        this.expectClosing(')', open);
+        return { params, args, start: open.start, end: this.lastEnd };
+    }
+
+    private parsePostfix(expr: Expression): Expression {
+        while (!this.atEnd()) {
+            if (this.check('.')) {
+                this.advance();
+                const t = this.peek();
+                if (!t || (t.type !== 'Identifier' && t.type !== 'Keyword')) {
+                    this.errorAtCurrent(`Expected an operator name after '.'.`);
+                    return expr;
+                }
+                const property = this.identifierFrom(this.advance());
+                if (EACH_METHODS.includes(property.name) && this.check('(')) {
+                    const each = this.parseEachArguments();
+                    if (this.check('{')) {
+                        const body = this.parseBlock();
+                        expr = {
+                            kind: 'EachExpression', object: expr, method: property, params: each.params,
+                            args: each.args, body, start: expr.start, end: this.lastEnd
+                        };
+                        continue;
+                    }
+                    expr = {
+                        kind: 'MemberExpression', object: expr, property,
+                        args: [...each.params.map(p => p.name), ...each.args],
+                        argsStart: each.start, argsEnd: each.end, start: expr.start, end: this.lastEnd
+                    };
+                    continue;
+                }
+                if (this.check('(')) {
+                    const call = this.parseArguments(')');
+                    expr = {
+                        kind: 'MemberExpression', object: expr, property, args: call.args,
+                        argsStart: call.start, argsEnd: call.end, start: expr.start, end: this.lastEnd
+                    };
+                } else {
+                    expr = { kind: 'MemberExpression', object: expr, property, start: expr.start, end: property.end };
+                }
+            } else if (this.check('[') && this.isAdjacent(this.tokens[this.pos - 1], this.peek())) {
+                const open = this.advance();
+                const index = this.parseNested(() => this.parseExpression());
+                this.expectClosing(']', open);
+                expr = { kind: 'IndexExpression', object: expr, index, start: expr.start, end: this.lastEnd };
+            } else {
+                break;
+            }
+        }
+        return expr;
+    }
+
+    private parseDesignator(): Designator {
+        const open = this.advance(); // '('
+        let depth = 1;
+        while (!this.atEnd()) {
+            if (this.check('(')) depth++;
+            else if (this.check(')')) {
+                depth--;
+                if (depth === 0) break;
+            } else if (this.check(';') || this.check('{') || this.check('}')) {
+                break;
+            }
+            this.advance();
+        }
+        const end = this.peek() ? this.peek()!.start : this.text.length;
+        const raw = this.text.substring(open.start + 1, end);
+        this.expectClosing(')', open, `Expected ')' to close the designator.`);
+        const leading = raw.length - raw.trimStart().length;
+        const text = raw.trim();
+        return { text, start: open.start + 1 + leading, end: open.start + 1 + leading + text.length };
+    }
+
+    private parseStringLiteral(t: Token): StringLiteral {
+        const quote = t.value[0];
+        let terminated = false;
+        if (t.value.length >= 2 && t.value.endsWith(quote)) {
+            // The closing quote must not itself be escaped
+            let backslashes = 0;
+            for (let k = t.value.length - 2; k > 0 && t.value[k] === '\\'; k--) backslashes++;
+            terminated = backslashes % 2 === 0;
+        }
+        if (!terminated) {
+            this.error(`Unterminated string literal.`, t.start, t.start + t.length);
+        }
+        const inner = t.value.substring(1, terminated ? t.value.length - 1 : t.value.length);
+        // Only the quote and the backslash are escapes; any other backslash is kept, e.g. in "\\d+" for replace()
+        const value = inner.replace(quote === '"' ? /\\(["\\])/g : /\\(['\\])/g, '$1');
+        return { kind: 'StringLiteral', value, raw: t.value, terminated, start: t.start, end: t.start + t.length };
+    }
+
+    private parsePrimary(): Expression {
+        const t = this.peek();
+        if (!t) {
+            this.errorAtCurrent(`Expected an expression.`);
+            return { kind: 'ErrorExpression', start: this.lastEnd, end: this.lastEnd };
+        }
+
+        if (t.type === 'Number') {
+            this.advance();
+            return { kind: 'NumberLiteral', value: parseFloat(t.value), raw: t.value, start: t.start, end: t.start + t.length };
+        }
+        if (t.type === 'String') {
+            this.advance();
+            return this.parseStringLiteral(t);
+        }
+        if (t.type === 'Keyword' && (t.value === 'true' || t.value === 'false')) {
+            this.advance();
+            return { kind: 'BooleanLiteral', value: t.value === 'true', start: t.start, end: t.start + t.length };
+        }
+
+        if (t.type === 'Identifier' && t.value.startsWith('$')) {
+            this.advance();
+            const ref: AttributeRef = { kind: 'AttributeRef', name: t.value, start: t.start, end: t.start + t.length };
+            if (this.check('(') && this.isAdjacent(t, this.peek())) {
+                ref.designator = this.parseDesignator();
+                ref.end = this.lastEnd;
+            }
+            return ref;
+        }
+
+        if (t.type === 'Identifier' && t.value === '#') {
+            // Hex color literal, e.g. #ff0000
+            this.advance();
+            let raw = '#';
+            while (this.peek() && (this.peek()!.type === 'Identifier' || this.peek()!.type === 'Number') && this.isAdjacent(this.tokens[this.pos - 1], this.peek())) {
+                raw += this.advance().value;
+            }
+            return { kind: 'ColorLiteral', raw, start: t.start, end: this.lastEnd };
+        }
+
+        if (t.type === 'Identifier' || (t.type === 'Keyword' && (t.value === 'do' || t.value === 'each'))) {
+            this.advance();
+            const callee = this.identifierFrom(t);
+            if (this.check('(')) {
+                if (EACH_METHODS.includes(callee.name)) {
+                    const each = this.parseEachArguments();
+                    if (this.check('{')) {
+                        const body = this.parseBlock();
+                        return { kind: 'EachExpression', method: callee, params: each.params, args: each.args, body, start: t.start, end: this.lastEnd };
+                    }
+                    return {
+                        kind: 'CallExpression', callee, args: [...each.params.map(p => p.name), ...each.args],
+                        argsStart: each.start, argsEnd: each.end, start: t.start, end: this.lastEnd
+                    };
+                }
+                const call = this.parseArguments(')');
+                return { kind: 'CallExpression', callee, args: call.args, argsStart: call.start, argsEnd: call.end, start: t.start, end: this.lastEnd };
+            }
+            return callee;
+        }
+
+        if (this.check('(')) {
+            const open = this.advance();
+            const expression = this.parseNested(() => this.parseExpression());
+            this.expectClosing(')', open);
+            return { kind: 'GroupExpression', expression, start: open.start, end: this.lastEnd };
+        }
+
+        if (this.check('[')) {
+            const list = this.parseArguments(']');
+            return { kind: 'ListLiteral', elements: list.args, start: list.start, end: list.end };
+        }
+
+        if (this.check('/')) {
+            // Outline path used as a designator argument, e.g. collect(/Projects/Alpha, $Name)
+            const start = t.start;
+            while (this.check('/')) {
+                this.advance();
+                const seg = this.peek();
+                if (seg && (seg.type === 'Identifier' || seg.type === 'Number') && this.isAdjacent(this.tokens[this.pos - 1], seg)) {
+                    this.advance();
+                }
+            }
+            return { kind: 'PathLiteral', text: this.text.substring(start, this.lastEnd), start, end: this.lastEnd };
+        }
+
+        this.errorAtCurrent(this.unexpectedTokenMessage(t));
+        // Leave statement boundaries for the statement parser to resynchronise on
+        if (!this.check(';') && !this.check('}') && !this.check(')') && !this.check('{')) this.advance();
+        return { kind: 'ErrorExpression', start: t.start, end: t.start + t.length };
+    }
+}
+
+export function parse(text: string): ParseResult {
+    const tokens = tokenize(text);
+    const parser = new Parser(text, tokens);
+    const program = parser.parseProgram();
+    return { program, errors: parser.errors, tokens };
+}
+
+// Parses a single expression (e.g. the receiver of a dot chain). Trailing text is ignored.
+export function parseExpression(text: string): Expression | null {
+    const parser = new Parser(text, tokenize(text));
+    return parser.parseStandaloneExpression();
+}
+
+// Parses a condition such as an $AgentQuery, where a bare '=' compares as it does in the condition of if()
+export function parseCondition(text: string): { expression: Expression | null, errors: ParseError[] } {
+    const parser = new Parser(text, tokenize(text));
+    const expression = parser.parseStandaloneCondition();
+    return { expression, errors: parser.errors };
+}
+
+// Returns the direct children of a node in source order
+export function getChildren(node: Node): Node[] {
+    switch (node.kind) {
+        case 'Program':
+        case 'Block':
+            return node.body;
+        case 'VarDeclaration':
+            return node.init ? [node.name, node.init] : [node.name];
+        case 'FunctionDeclaration':
+            return [node.name, ...node.params, node.body];
+        case 'Parameter':
+            return node.paramType ? [node.name, node.paramType] : [node.name];
+        case 'IfStatement':
+            return node.alternate ? [node.test, node.consequent, node.alternate] : [node.test, node.consequent];
+        case 'WhileStatement':
+            return [node.test, node.body];
+        case 'ReturnStatement':
+            return node.argument ? [node.argument] : [];
+        case 'AssignmentStatement':
+            return [node.target, node.value];
+        case 'ExpressionStatement':
+            return [node.expression];
+        case 'ListLiteral':
+            return node.elements;
+        case 'UnaryExpression':
+            return [node.argument];
+        case 'BinaryExpression':
+            return [node.left, node.right];
+        case 'CallExpression':
+            return [node.callee, ...node.args];
+        case 'MemberExpression':
+            return [node.object, node.property, ...(node.args || [])];
+        case 'IndexExpression':
+            return [node.object, node.index];
+        case 'EachExpression':
+            return [...(node.object ? [node.object] : []), node.method, ...node.params, ...node.args, node.body];
+        case 'GroupExpression':
+            return [node.expression];
+        default:
+            return [];
+    }
+}
+
+// Depth-first walk. Returning false from the visitor skips the node's children.
+export function walk(node: Node, visitor: (node: Node, parent: Node | null) => boolean | void, parent: Node | null = null) {
+    if (visitor(node, parent) === false) return;
+    for (const child of getChildren(node)) {
+        walk(child, visitor, node);
+    }
+}
@@ -0,0 +1,126 @@
+import { Expression, walk, parseCondition } from './parser';
+import { Value, EvaluationError, EvaluationOptions, evaluateExpression, toBoolean, toText } from './interpreter';
+import { Fixture, FixtureNote, FixtureHost, SimulationOptions } from './fixture';
+
+// --- Agent Queries ---
+// Runs an $AgentQuery over every note of a fixture. For each note that does not match, the
+// sub-expressions that made the query false are named, e.g.
+// `$DueDate < date("today")` is false ($DueDate is 2026-11-01, date("today") is 2026-10-19).
+
+export interface QueryFailure {
+    start: number; // Offsets of the failing sub-expression in the query
+    end: number;
+    message: string;
+}
+
+export interface QueryNoteResult {
+    path: string;
+    matched: boolean;
+    failures: QueryFailure[]; // Empty for matching notes
+}
+
+export interface AgentQueryResult {
+    matches: string[]; // Outline paths, in outline order
+    notes: QueryNoteResult[];
+}
+
+export interface AgentQueryOptions extends SimulationOptions {
+    // Static type of an expression, when it can be told without running it
+    inferType?: (expr: Expression) => string | null;
+}
+
+// Operators whose two sides are worth showing when the comparison is false
+export const COMPARISON_OPERATORS = ['==', '=', '!=', '<', '>', '<=', '>='];
+
+// A query is a single boolean expression, in which '=' compares. Violations are thrown as EvaluationError.
+export function checkAgentQuery(query: string, inferType?: (expr: Expression) => string | null): Expression {
+    const { expression: expr, errors } = parseCondition(query);
+    if (errors.length > 0) {
+        throw new EvaluationError(`Syntax Error: ${errors[0].message}`, errors[0].start, errors[0].end);
+    }
+    if (!expr) {
+        throw new EvaluationError(`An agent query must be a single expression.`, 0, query.length);
+    }
+    walk(expr, node => {
+        if (node.kind === 'AssignmentStatement' || node.kind === 'VarDeclaration') {
+            throw new EvaluationError(`An agent query must not contain assignments or variable declarations.`, node.start, node.end);
+        }
+        if (node.kind === 'FunctionDeclaration') {
+            throw new EvaluationError(`An agent query must not declare functions.`, node.start, node.end);
+        }
+    });
+    const type = inferType?.(expr);
+    if (type && type !== 'boolean') {
+        throw new EvaluationError(`An agent query must return boolean, but this expression returns ${type}.`, expr.start, expr.end);
+    }
+    return expr;
+}
+
+// Text, lists and sets in quotes; numbers, booleans, dates and colors as they print
+export function describeValue(v: Value): string {
+    const text = toText(v);
+    return v.type === 'string' || v.type === 'list' || v.type === 'set' ? JSON.stringify(text) : text;
+}
+
+// Operands worth showing: anything that is not a literal
+function isComputed(expr: Expression): boolean {
+    return !['StringLiteral', 'NumberLiteral', 'BooleanLiteral', 'ColorLiteral', 'PathLiteral'].includes(expr.kind);
+}
+
+export function runAgentQuery(fixture: Fixture, query: string, options: AgentQueryOptions): AgentQueryResult {
+    const expr = checkAgentQuery(query, options.inferType);
+    const now = options.now || new Date();
+    const host = new FixtureHost(fixture, options.lookup, options.designators, now);
+    const source = (node: Expression) => query.substring(node.start, node.end).trim();
+
+    const explain = (note: FixtureNote): QueryFailure[] => {
+        const evaluationOptions: EvaluationOptions<FixtureNote> = { host, note, now, colors: options.colors };
+        const value = (node: Expression) => evaluateExpression(node, query, evaluationOptions);
+
+        // The leaves of the expression tree that made `node` false
+        const whyFalse = (node: Expression): QueryFailure[] => {
+            if (node.kind === 'GroupExpression') return whyFalse(node.expression);
+            if (node.kind === 'BinaryExpression' && (node.operator === '&' || node.operator === '&&')) {
+                return toBoolean(value(node.left)) ? whyFalse(node.right) : whyFalse(node.left);
+            }
+            if (node.kind === 'BinaryExpression' && (node.operator === '|' || node.operator === '||')) {
+                return [...whyFalse(node.left), ...whyFalse(node.right)];
+            }
+
+            const details: string[] = [];
+            const operands = node.kind === 'BinaryExpression' && COMPARISON_OPERATORS.includes(node.operator) ? [node.left, node.right]
+                : node.kind === 'MemberExpression' ? [node.object]
+                    : node.kind === 'UnaryExpression' ? [node.argument]
+                        : [];
+            for (const operand of operands) {
+                if (isComputed(operand)) details.push(`${source(operand)} is ${describeValue(value(operand))}`);
+            }
+            return [{
+                start: node.start,
+                end: node.end,
+                message: `${source(node)} is false${details.length > 0 ? ` (${details.join(', ')})` : ''}`
+            }];
+        };
+
+        const result = value(expr);
+        if (result.type !== 'boolean') {
+            throw new EvaluationError(`An agent query must return boolean, but it returned ${result.type}.`, expr.start, expr.end);
+        }
+        return result.value ? [] : whyFalse(expr);
+    };
+
+    const notes: QueryNoteResult[] = [];
+    for (const note of fixture.notes) {
+        let failures: QueryFailure[];
+        try {
+            failures = explain(note);
+        } catch (err) {
+            if (err instanceof EvaluationError) {
+                throw new EvaluationError(`${note.path}: ${err.message}`, err.start, err.end);
+            }
+            throw err;
+        }
+        notes.push({ path: note.path, matched: failures.length === 0, failures });
+    }
+    return { matches: notes.filter(n => n.matched).map(n => n.path), notes };
+}
@@ -0,0 +1,10 @@
+// Resource files imported by the browser server; esbuild bundles their text (see esbuild.js)
+declare module '*.csv' {
+    const text: string;
+    export default text;
+}
+
+declare module '*.txt' {
+    const text: string;
+    export default text;
+}
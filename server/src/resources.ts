@@ -0,0 +1,15 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// --- Resources ---
+// The CSV and text files of the resource folder, read by the language service through its host.
+
+const RESOURCE_PATH = path.join(__dirname, '..', '..', '..', 'resource');
+
+export async function readResourceFile(name: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(path.join(RESOURCE_PATH, name), 'utf-8');
+    } catch {
+        return undefined;
+    }
+}
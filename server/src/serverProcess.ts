@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { URI } from 'vscode-uri';
+import {
+    createMessageConnection, StreamMessageReader, StreamMessageWriter, MessageConnection,
+    InitializeRequest, InitializedNotification, ConfigurationRequest, WorkspaceFoldersRequest,
+    RegistrationRequest, ShutdownRequest, ExitNotification
+} from 'vscode-languageserver/node';
+
+// --- Language Server Process ---
+// The command line tools start the language server as a child process and talk LSP to it, so files
+// are checked exactly as in the editor: with the same resource CSVs, workspace functions and settings.
+
+export interface ServerProcess {
+    connection: MessageConnection;
+    stop(): Promise<void>;
+}
+
+export type Settings = { [key: string]: unknown };
+
+const SETTINGS_SECTION = 'tinderboxActionCodeServer';
+
+// Removes comments and trailing commas, which VS Code allows in settings files
+function stripJsonComments(text: string): string {
+    let result = '';
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            result += char;
+            if (char === '\\') result += text[++i] ?? '';
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+            result += char;
+        } else if (char === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') i++;
+            result += '\n';
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end < 0 ? text.length : end + 1;
+        } else {
+            result += char;
+        }
+    }
+    return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+// Reads the tinderboxActionCodeServer settings of a VS Code settings file, e.g. .vscode/settings.json.
+// Dotted keys such as "tinderboxActionCodeServer.evaluate.attributes" become nested objects, as VS Code returns them.
+export function readSettings(file: string): Settings {
+    const json = JSON.parse(stripJsonComments(fs.readFileSync(file, 'utf-8')));
+    const settings: Settings = {};
+    for (const [key, value] of Object.entries(json ?? {})) {
+        if (key === SETTINGS_SECTION && value && typeof value === 'object') {
+            Object.assign(settings, value);
+            continue;
+        }
+        if (!key.startsWith(SETTINGS_SECTION + '.')) continue;
+        const names = key.substring(SETTINGS_SECTION.length + 1).split('.');
+        let target = settings;
+        for (const name of names.slice(0, -1)) {
+            if (!target[name] || typeof target[name] !== 'object') target[name] = {};
+            target = target[name] as Settings;
+        }
+        target[names[names.length - 1]] = value;
+    }
+    return settings;
+}
+
+// Starts the server with the given folders as the workspace. It scans them for user functions,
+// attribute declarations and .tbx documents, as it does for the folders open in VS Code.
+export async function startServer(folders: string[], settings: Settings): Promise<ServerProcess> {
+    const child = spawn(process.execPath, [path.join(__dirname, 'server.js'), '--stdio'], { stdio: ['pipe', 'pipe', 'inherit'] });
+    const connection = createMessageConnection(new StreamMessageReader(child.stdout!), new StreamMessageWriter(child.stdin!));
+    const workspaceFolders = folders.map(folder => ({ uri: URI.file(folder).toString(), name: path.basename(folder) }));
+
+    connection.onRequest(ConfigurationRequest.type, params => params.items.map(item => item.section === SETTINGS_SECTION ? settings : null));
+    connection.onRequest(WorkspaceFoldersRequest.type, () => workspaceFolders);
+    connection.onRequest(RegistrationRequest.type, () => undefined);
+    connection.listen();
+
+    await connection.sendRequest(InitializeRequest.type, {
+        processId: process.pid,
+        rootUri: workspaceFolders[0]?.uri ?? null,
+        workspaceFolders,
+        capabilities: { workspace: { configuration: true, workspaceFolders: true } }
+    });
+    await connection.sendNotification(InitializedNotification.type, {});
+
+    const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+    return {
+        connection,
+        async stop() {
+            await connection.sendRequest(ShutdownRequest.type);
+            await connection.sendNotification(ExitNotification.type);
+            // The server exits on its own; don't wait for it forever
+            const timer = setTimeout(() => child.kill(), 2000);
+            await exited;
+            clearTimeout(timer);
+            connection.dispose();
+        }
+    };
+}
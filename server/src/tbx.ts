@@ -0,0 +1,392 @@
+// --- Tinderbox Document (.tbx) Reader ---
+// A .tbx file is XML. This is a small, tolerant reader that needs no running Tinderbox and keeps
+// source offsets so that diagnostics and edits can be mapped back into the file.
+
+export interface XmlAttribute {
+    value: string; // Decoded value
+    start: number; // Offset of the raw value (inside the quotes)
+    end: number;
+}
+
+export interface XmlElement {
+    name: string;
+    attributes: Map<string, XmlAttribute>;
+    children: XmlElement[];
+    start: number; // '<' of the start tag
+    end: number; // Just after the '>' of the end tag (or of a self-closing tag)
+    contentStart: number; // Just after the start tag
+    contentEnd: number; // '<' of the end tag; equals contentStart for self-closing tags
+}
+
+// --- Entities ---
+
+const NAMED_ENTITIES: { [name: string]: string } = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+export function decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+            return isNaN(code) ? match : String.fromCodePoint(code);
+        }
+        return NAMED_ENTITIES[entity] ?? match;
+    });
+}
+
+export function encodeXmlEntities(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// --- XML ---
+
+// Parses the whole text into a synthetic '#document' element. Malformed input never throws:
+// unclosed elements end at the end of the text, stray end tags are ignored.
+export function parseXml(text: string): XmlElement {
+    const root: XmlElement = {
+        name: '#document', attributes: new Map(), children: [],
+        start: 0, end: text.length, contentStart: 0, contentEnd: text.length
+    };
+    const stack: XmlElement[] = [root];
+    let i = 0;
+
+    while (i < text.length) {
+        const lt = text.indexOf('<', i);
+        if (lt === -1) break;
+        i = lt;
+
+        if (text.startsWith('<!--', i)) {
+            const close = text.indexOf('-->', i + 4);
+            i = close === -1 ? text.length : close + 3;
+            continue;
+        }
+        if (text.startsWith('<![CDATA[', i)) {
+            const close = text.indexOf(']]>', i + 9);
+            i = close === -1 ? text.length : close + 3;
+            continue;
+        }
+        if (text[i + 1] === '?' || text[i + 1] === '!') {
+            // Processing instruction or DOCTYPE
+            const close = text.indexOf('>', i + 2);
+            i = close === -1 ? text.length : close + 1;
+            continue;
+        }
+
+        if (text[i + 1] === '/') {
+            const close = text.indexOf('>', i + 2);
+            const name = text.substring(i + 2, close === -1 ? text.length : close).trim();
+            const tagEnd = close === -1 ? text.length : close + 1;
+            // Pop to the matching element; ignore end tags with no open counterpart
+            for (let s = stack.length - 1; s > 0; s--) {
+                if (stack[s].name !== name) continue;
+                // Anything still open inside the matched element ends where it does
+                while (stack.length > s + 1) {
+                    const unclosed = stack.pop()!;
+                    unclosed.contentEnd = unclosed.end = i;
+                }
+                const el = stack.pop()!;
+                el.contentEnd = i;
+                el.end = tagEnd;
+                break;
+            }
+            i = tagEnd;
+            continue;
+        }
+
+        // Start tag
+        const nameMatch = /^<([A-Za-z_][\w.:-]*)/.exec(text.substring(i, i + 256));
+        if (!nameMatch) {
+            i++;
+            continue;
+        }
+        const el: XmlElement = {
+            name: nameMatch[1], attributes: new Map(), children: [],
+            start: i, end: text.length, contentStart: text.length, contentEnd: text.length
+        };
+        let j = i + nameMatch[0].length;
+        let selfClosing = false;
+        while (j < text.length) {
+            const ch = text[j];
+            if (ch === '>') {
+                j++;
+                break;
+            }
+            if (ch === '/' && text[j + 1] === '>') {
+                selfClosing = true;
+                j += 2;
+                break;
+            }
+            const attrMatch = /^([A-Za-z_][\w.:-]*)\s*=\s*(["'])/.exec(text.substring(j, j + 256));
+            if (attrMatch) {
+                const valueStart = j + attrMatch[0].length;
+                let valueEnd = text.indexOf(attrMatch[2], valueStart);
+                if (valueEnd === -1) valueEnd = text.length;
+                el.attributes.set(attrMatch[1], {
+                    value: decodeXmlEntities(text.substring(valueStart, valueEnd)),
+                    start: valueStart,
+                    end: valueEnd
+                });
+                j = valueEnd + 1;
+                continue;
+            }
+            j++;
+        }
+
+        stack[stack.length - 1].children.push(el);
+        if (selfClosing) {
+            el.contentStart = el.contentEnd = el.end = j;
+        } else {
+            el.contentStart = j;
+            stack.push(el);
+        }
+        i = j;
+    }
+
+    // Elements left open run to the end of the text
+    while (stack.length > 1) {
+        const el = stack.pop()!;
+        el.contentEnd = text.length;
+        el.end = text.length;
+    }
+    return root;
+}
+
+// Attribute lookup that ignores case (Tinderbox has written both `Name` and `name` over the years)
+export function getXmlAttribute(el: XmlElement, name: string): string | undefined {
+    const exact = el.attributes.get(name);
+    if (exact) return exact.value;
+    const lower = name.toLowerCase();
+    for (const [key, attr] of el.attributes) {
+        if (key.toLowerCase() === lower) return attr.value;
+    }
+    return undefined;
+}
+
+// Decoded character data of an element, with CDATA sections unwrapped and child elements skipped
+export function getElementText(text: string, el: XmlElement): string {
+    return mapElementText(text, el).value;
+}
+
+// Like getElementText, but also returns the source offset of every decoded character
+// (offsets[value.length] is the end of the last raw character) so positions can be mapped back into the file.
+export function mapElementText(text: string, el: XmlElement): { value: string, offsets: number[] } {
+    const result = { value: '', offsets: [] as number[] };
+    let cursor = el.contentStart;
+    const segments = [...el.children.map(c => ({ start: c.start, end: c.end })), { start: el.contentEnd, end: el.contentEnd }];
+    for (const segment of segments) {
+        decodeCharacterData(text, cursor, segment.start, result);
+        cursor = segment.end;
+    }
+    result.offsets.push(cursor);
+    return result;
+}
+
+function decodeCharacterData(text: string, start: number, end: number, into: { value: string, offsets: number[] }) {
+    let i = start;
+    while (i < end) {
+        if (text.startsWith('<![CDATA[', i)) {
+            const close = text.indexOf(']]>', i + 9);
+            const cdataEnd = close === -1 || close > end ? end : close;
+            for (let j = i + 9; j < cdataEnd; j++) {
+                into.value += text[j];
+                into.offsets.push(j);
+            }
+            i = cdataEnd === end ? end : cdataEnd + 3;
+            continue;
+        }
+        if (text[i] === '&') {
+            const semi = text.indexOf(';', i);
+            if (semi !== -1 && semi < end && semi - i <= 10) {
+                const decoded = decodeXmlEntities(text.substring(i, semi + 1));
+                if (decoded.length < semi + 1 - i) {
+                    into.value += decoded;
+                    for (let k = 0; k < decoded.length; k++) into.offsets.push(i);
+                    i = semi + 1;
+                    continue;
+                }
+            }
+        }
+        into.value += text[i];
+        into.offsets.push(i);
+        i++;
+    }
+}
+
+// Replaces the character data of an element, following the escaping the element already uses:
+// CDATA stays CDATA, and quotes or '>' are only escaped when the original content escaped them.
+// Everything outside the element's content is returned unchanged.
+export function replaceElementText(text: string, el: XmlElement, value: string): string {
+    const raw = text.substring(el.contentStart, el.contentEnd);
+    let encoded: string;
+    if (/^\s*<!\[CDATA\[/.test(raw)) {
+        encoded = '<![CDATA[' + value.replace(/\]\]>/g, ']]]]><![CDATA[>') + ']]>';
+    } else {
+        encoded = value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+        if (raw.includes('&gt;') || !raw.includes('>')) encoded = encoded.replace(/>/g, '&gt;');
+        if (raw.includes('&quot;')) encoded = encoded.replace(/"/g, '&quot;');
+        if (raw.includes('&apos;')) encoded = encoded.replace(/'/g, '&apos;');
+    }
+    return text.substring(0, el.contentStart) + encoded + text.substring(el.contentEnd);
+}
+
+export function findElements(root: XmlElement, name: string): XmlElement[] {
+    const result: XmlElement[] = [];
+    const visit = (el: XmlElement) => {
+        for (const child of el.children) {
+            if (child.name === name) result.push(child);
+            visit(child);
+        }
+    };
+    visit(root);
+    return result;
+}
+
+// --- Tinderbox Model ---
+
+export interface TbxAttributeDefinition {
+    name: string; // Without the leading '$'
+    type: string;
+    defaultValue: string;
+    description: string;
+}
+
+export interface TbxNote {
+    name: string;
+    path: string; // Outline path, e.g. /Projects/Alpha
+    id?: string;
+    prototype?: string; // Name of the prototype this note inherits from
+    isPrototype: boolean;
+    attributes: Map<string, XmlElement>; // <attribute name="..."> elements set locally on the note
+    element: XmlElement;
+    parent?: TbxNote;
+    children: TbxNote[];
+}
+
+export interface TbxStamp {
+    name: string;
+    element: XmlElement;
+}
+
+export interface TbxDocument {
+    text: string;
+    attributes: TbxAttributeDefinition[]; // User attributes
+    linkTypes: string[];
+    prototypes: string[];
+    stamps: TbxStamp[];
+    rootNotes: TbxNote[];
+    notes: TbxNote[]; // Every note, in outline order
+}
+
+// Note attributes that hold action code. AgentQuery and DisplayExpression are single expressions.
+export const CODE_ATTRIBUTES = ['Rule', 'Edict', 'OnAdd', 'AgentQuery', 'AgentAction', 'DisplayExpression'];
+export const EXPRESSION_ATTRIBUTES = ['AgentQuery', 'DisplayExpression'];
+
+// One piece of action code stored in the document: a code attribute of a note, or a stamp
+export interface TbxCodeSection {
+    notePath: string; // Outline path of the note; the stamp name for stamps
+    // Tells apart notes with the same path and stamps with the same name: the note's ID, or '#' and its
+    // position in outline order when it has none; '#' and the position among the stamps for stamps
+    key: string;
+    attribute: string; // One of CODE_ATTRIBUTES, or 'Stamp'
+    element: XmlElement; // Element holding the code
+    code: string; // Decoded code
+    offsets: number[]; // Source offset of each character of code (see mapElementText)
+}
+
+export function getCodeSections(doc: TbxDocument): TbxCodeSection[] {
+    const sections: TbxCodeSection[] = [];
+    doc.notes.forEach((note, index) => {
+        for (const attribute of CODE_ATTRIBUTES) {
+            const element = note.attributes.get(attribute);
+            if (!element) continue;
+            const { value, offsets } = mapElementText(doc.text, element);
+            if (value.trim()) sections.push({ notePath: note.path, key: note.id || `#${index}`, attribute, element, code: value, offsets });
+        }
+    });
+    doc.stamps.forEach((stamp, index) => {
+        const { value, offsets } = mapElementText(doc.text, stamp.element);
+        sections.push({ notePath: stamp.name, key: `#${index}`, attribute: 'Stamp', element: stamp.element, code: value, offsets });
+    });
+    return sections;
+}
+
+export function parseTbxDocument(text: string): TbxDocument {
+    const root = parseXml(text);
+    const doc: TbxDocument = { text, attributes: [], linkTypes: [], prototypes: [], stamps: [], rootNotes: [], notes: [] };
+
+    // <attrib Name="Priority" parent="User" type="number" default="0" .../>
+    // Built-in attributes may be listed too; only those under the User group are user attributes.
+    const collectAttributes = (el: XmlElement, inUserGroup: boolean) => {
+        for (const child of el.children) {
+            if (child.name !== 'attrib') {
+                collectAttributes(child, inUserGroup);
+                continue;
+            }
+            const name = getXmlAttribute(child, 'Name');
+            const parent = getXmlAttribute(child, 'parent');
+            const isUser = parent !== undefined ? parent === 'User' : inUserGroup;
+            if (name && name !== 'User' && isUser) {
+                doc.attributes.push({
+                    name,
+                    type: getXmlAttribute(child, 'type') || 'string',
+                    defaultValue: getXmlAttribute(child, 'default') || '',
+                    description: getXmlAttribute(child, 'description') || ''
+                });
+            }
+            collectAttributes(child, name === 'User' || isUser);
+        }
+    };
+    collectAttributes(root, false);
+
+    const linkTypes = new Set<string>();
+    for (const el of findElements(root, 'linktype')) {
+        const name = getXmlAttribute(el, 'name');
+        if (name) linkTypes.add(name);
+    }
+    doc.linkTypes = Array.from(linkTypes);
+
+    // <stamps><stamp name="Done">$Checked=true;</stamp></stamps>
+    for (const el of findElements(root, 'stamp')) {
+        const name = getXmlAttribute(el, 'name');
+        if (name) doc.stamps.push({ name, element: el });
+    }
+
+    const prototypes = new Set<string>();
+    const collectNotes = (el: XmlElement, parent: TbxNote | undefined, into: TbxNote[]) => {
+        for (const child of el.children) {
+            if (child.name !== 'item') {
+                // Notes may be wrapped in other elements (e.g. <adornments>)
+                if (child.name !== 'attribute' && child.name !== 'text') collectNotes(child, parent, into);
+                continue;
+            }
+            const attributes = new Map<string, XmlElement>();
+            for (const a of child.children) {
+                if (a.name !== 'attribute') continue;
+                const attrName = getXmlAttribute(a, 'name');
+                if (attrName) attributes.set(attrName, a);
+            }
+            const nameEl = attributes.get('Name');
+            const name = nameEl ? getElementText(text, nameEl) : '';
+            const isPrototypeEl = attributes.get('IsPrototype');
+            const prototypeEl = attributes.get('Prototype');
+            const note: TbxNote = {
+                name,
+                path: (parent ? parent.path : '') + '/' + name,
+                id: getXmlAttribute(child, 'ID'),
+                prototype: getXmlAttribute(child, 'proto') || (prototypeEl ? getElementText(text, prototypeEl) : undefined),
+                isPrototype: !!isPrototypeEl && getElementText(text, isPrototypeEl).trim() === 'true',
+                attributes,
+                element: child,
+                parent,
+                children: []
+            };
+            into.push(note);
+            doc.notes.push(note);
+            if (note.isPrototype && note.name) prototypes.add(note.name);
+            if (note.prototype) prototypes.add(note.prototype);
+            collectNotes(child, note, note.children);
+        }
+    };
+    collectNotes(root, undefined, doc.rootNotes);
+    doc.prototypes = Array.from(prototypes);
+
+    return doc;
+}
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { parseFixture, findFixtureNote } from '../fixture';
+import { DebugVariable, recordRun } from '../debugging';
+
+const FIXTURE = parseFixture(JSON.stringify({
+    attributes: [{ name: 'Effort', type: 'number', default: '0' }],
+    notes: [{ name: 'Task', attributes: { Effort: 2 } }]
+}));
+
+function record(code: string) {
+    return recordRun(FIXTURE, findFixtureNote(FIXTURE, 'Task')!, code, { lookup: () => undefined, designators: new Set() });
+}
+
+// name=value of each variable
+function summarize(variables: DebugVariable[]): string[] {
+    return variables.map(v => `${v.name}=${v.value}`);
+}
+
+test('every statement is recorded with the variables and attributes before it runs', () => {
+    const code = 'var:list l = [1,2];\n$Effort = $Effort * 2;\n$Effort = $Effort + l.count;\n';
+    const recording = record(code);
+    assert.deepStrictEqual(recording.steps.map(step => [
+        code.substring(step.frames[0].start, step.frames[0].end),
+        summarize(step.frames[0].variables),
+        summarize(step.attributes)
+    ]), [
+        ['var:list l = [1,2]', [], ['$Effort=2', '$Name="Task"']],
+        ['$Effort = $Effort * 2', ['l=[1, 2]'], ['$Effort=2', '$Name="Task"']],
+        ['$Effort = $Effort + l.count', ['l=[1, 2]'], ['$Effort=4', '$Name="Task"']]
+    ]);
+    assert.deepStrictEqual(recording.steps[1].frames[0].variables[0].items?.map(item => item.value), ['"1"', '"2"']);
+    assert.deepStrictEqual(recording.changes, [{ note: '/Task', attribute: 'Effort', before: '2', after: '6' }]);
+    assert.strictEqual(recording.steps[0].note, '/Task');
+});
+
+test('inside a function, the outer frame stands at the call', () => {
+    const code = 'function double(n) {\n    return n * 2;\n}\n$Effort = double($Effort);\n';
+    const step = record(code).steps[1];
+    assert.deepStrictEqual(step.frames.map(frame => [frame.name, code.substring(frame.start, frame.end), summarize(frame.variables)]), [
+        ['double', 'return n * 2', ['n=2']],
+        ['(rule)', 'double($Effort)', []]
+    ]);
+});
+
+test('an error ends the recording and is kept with the steps before it', () => {
+    const code = 'var a = 1;\n$Effort = nosuch(a);\n';
+    const recording = record(code);
+    assert.strictEqual(recording.steps.length, 2);
+    assert.strictEqual(code.substring(recording.error!.start, recording.error!.end), 'nosuch(a)');
+    assert.deepStrictEqual(recording.changes, []);
+});
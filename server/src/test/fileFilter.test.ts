@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { FileFilter, globToRegExp } from '../fileFilter';
+
+test('** matches any number of folders, * and ? stay within one', () => {
+    const anywhere = globToRegExp('**/node_modules/**');
+    assert.ok(anywhere.test('node_modules/lib/a.tbxa'));
+    assert.ok(anywhere.test('vendor/node_modules/a.tbxa'));
+    assert.ok(!anywhere.test('my_node_modules/a.tbxa'));
+
+    const topLevel = globToRegExp('*.tbxa');
+    assert.ok(topLevel.test('dates.tbxa'));
+    assert.ok(!topLevel.test('lib/dates.tbxa'));
+    assert.ok(globToRegExp('lib/?.tbxa').test('lib/a.tbxa'));
+    assert.ok(!globToRegExp('lib/?.tbxa').test('lib/ab.tbxa'));
+});
+
+test('braces, character sets and case', () => {
+    const alternatives = globToRegExp('**/*.{tbxa,tbxc}');
+    assert.ok(alternatives.test('lib/a.tbxc'));
+    assert.ok(!alternatives.test('lib/a.tbxe'));
+    assert.ok(globToRegExp('v[0-9].tbxa').test('v2.tbxa'));
+    assert.ok(!globToRegExp('v[!0-9].tbxa').test('v2.tbxa'));
+    assert.ok(globToRegExp('Lib/*.TBXA').test('lib/dates.tbxa'));
+    // Regular expression characters are literal
+    assert.ok(globToRegExp('a+b.tbxa').test('a+b.tbxa'));
+    assert.ok(!globToRegExp('a+b.tbxa').test('aab.tbxa'));
+});
+
+test('by default everything but node_modules is read', () => {
+    const filter = new FileFilter(undefined);
+    assert.ok(filter.matches('lib/dates.tbxa'));
+    assert.ok(!filter.matches('node_modules/lib/dates.tbxa'));
+    assert.ok(filter.excludesFolder('node_modules'));
+    assert.ok(filter.excludesFolder('lib/node_modules'));
+    assert.strictEqual(filter.maxFileSize, 1024 * 1024);
+});
+
+test('an excluded folder excludes everything in it', () => {
+    const filter = new FileFilter({ files: { include: ['**/*.tbxa'], exclude: ['vendor'] }, maxFileSize: 100 });
+    assert.ok(filter.matches('lib/dates.tbxa'));
+    assert.ok(!filter.matches('lib/notes.txt'));
+    assert.ok(!filter.matches('vendor/lib/dates.tbxa'));
+    assert.ok(filter.excludesFolder('vendor'));
+    assert.strictEqual(filter.maxFileSize, 100);
+});
+
+test('equal settings have equal keys', () => {
+    const settings = { files: { include: ['lib/**'] } };
+    assert.strictEqual(new FileFilter(settings).key, new FileFilter({ files: { include: ['lib/**'] } }).key);
+    assert.notStrictEqual(new FileFilter(settings).key, new FileFilter(undefined).key);
+});
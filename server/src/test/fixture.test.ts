@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { EvaluationError } from '../interpreter';
+import { AttributeLookup, FixtureError, parseFixture, findFixtureNote, simulate } from '../fixture';
+
+const FIXTURE = JSON.stringify({
+    attributes: [{ name: 'Effort', type: 'number', default: '0' }, { name: 'Status' }],
+    notes: [
+        { name: 'Templates', children: [{ name: 'Task', isPrototype: true, attributes: { Status: 'open', Effort: 1 } }] },
+        { name: 'Projects', children: [
+            { name: 'Write docs', prototype: 'Task', attributes: { Effort: 3 }, links: [{ to: '/Projects/Review', type: 'agree' }] },
+            { name: 'Review', prototype: 'Task' }
+        ] }
+    ]
+});
+
+// The system attributes the tests use
+const lookup: AttributeLookup = name => ({
+    Name: { type: 'string', defaultValue: '', readOnly: false },
+    Color: { type: 'color', defaultValue: '', readOnly: false },
+    ChildCount: { type: 'number', defaultValue: '0', readOnly: true }
+} as { [name: string]: { type: string, defaultValue: string, readOnly: boolean } })[name];
+
+function run(code: string, ...paths: string[]) {
+    const fixture = parseFixture(FIXTURE);
+    const notes = paths.map(path => findFixtureNote(fixture, path)!);
+    return simulate(fixture, notes, code, { lookup, designators: new Set(['selection', 'agent']), now: new Date(2024, 0, 2) });
+}
+
+test('notes form an outline and are found by path or name', () => {
+    const fixture = parseFixture(FIXTURE);
+    assert.deepStrictEqual(fixture.notes.map(n => n.path), ['/Templates', '/Templates/Task', '/Projects', '/Projects/Write docs', '/Projects/Review']);
+    assert.strictEqual(findFixtureNote(fixture, 'Review'), fixture.notes[4]);
+    assert.strictEqual(findFixtureNote(fixture, '/Projects/'), fixture.notes[2]);
+    assert.strictEqual(findFixtureNote(fixture, '/Review'), undefined);
+});
+
+test('malformed fixtures are reported', () => {
+    assert.throws(() => parseFixture('{'), FixtureError);
+    assert.throws(() => parseFixture('{"notes": [{"name": "A", "prototype": "Missing"}]}'),
+        { message: "/A: The prototype 'Missing' is not a note of the fixture." });
+    assert.throws(() => parseFixture('{"notes": [{"name": "A", "links": [{"to": "/B"}]}]}'),
+        { message: "/A: The link destination '/B' is not a note of the fixture." });
+});
+
+test('values are inherited from prototypes, and changes are listed without changing the fixture', () => {
+    const fixture = parseFixture(FIXTURE);
+    const review = findFixtureNote(fixture, 'Review')!;
+    const result = simulate(fixture, [review], '$Status = "done"; $Effort = $Effort + 1;', { lookup, designators: new Set() });
+    assert.deepStrictEqual(result.changes, [
+        { note: '/Projects/Review', attribute: 'Status', before: 'open', after: 'done' },
+        { note: '/Projects/Review', attribute: 'Effort', before: '1', after: '2' }
+    ]);
+    assert.strictEqual(review.attributes.size, 0);
+    assert.deepStrictEqual(simulate(fixture, [review], '$Status', { lookup, designators: new Set() }).value, { type: 'string', value: 'open' });
+});
+
+test('designators and group operators resolve against the outline', () => {
+    assert.deepStrictEqual(run('sum(children, $Effort)', '/Projects').value, { type: 'number', value: 4 });
+    assert.deepStrictEqual(run('$Name(parent) + ":" + $ChildCount(parent)', '/Projects/Review').value, { type: 'string', value: 'Projects:2' });
+    assert.deepStrictEqual(run('linkedTo("Review", "agree")', '/Projects/Write docs').value, { type: 'boolean', value: true });
+});
+
+test('later notes see the changes made on earlier ones', () => {
+    const result = run('$Effort = $Effort(/Projects/Write docs) * 2;', '/Projects/Write docs', '/Projects/Review');
+    assert.deepStrictEqual(result.changes.map(c => [c.note, c.after]), [['/Projects/Write docs', '6'], ['/Projects/Review', '12']]);
+});
+
+test('errors name the note they occurred on', () => {
+    assert.throws(() => run('$ChildCount = 1;', '/Projects'), (err: unknown) =>
+        err instanceof EvaluationError && err.message.includes("'$ChildCount' is read-only."));
+    assert.throws(() => run('$Name(selection)', '/Projects', '/Templates'), (err: unknown) =>
+        err instanceof EvaluationError && err.message.startsWith("/Projects: The designator 'selection' depends on the running Tinderbox application"));
+});
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+const FMT = path.join(__dirname, '..', 'fmt.js');
+
+const UNFORMATTED = 'if($A){\n$B=1;\n}\n';
+
+// Writes the files into a new directory, runs tbx-fmt there and reads the files back
+function fmt(files: { [file: string]: string }, ...args: string[]) {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tbx-fmt-'));
+    try {
+        for (const [file, text] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(directory, file)), { recursive: true });
+            fs.writeFileSync(path.join(directory, file), text);
+        }
+        const result = spawnSync(process.execPath, [FMT, ...args], { cwd: directory, encoding: 'utf-8', timeout: 60000 });
+        const after: { [file: string]: string } = {};
+        for (const file of Object.keys(files)) after[file] = fs.readFileSync(path.join(directory, file), 'utf-8');
+        return { status: result.status, stdout: result.stdout, stderr: result.stderr, files: after };
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+}
+
+test('files are formatted in place with the nearest tinderbox-format.json', () => {
+    const { status, stdout, files } = fmt({
+        'a.tbxa': UNFORMATTED,
+        'sub/b.tbxa': UNFORMATTED,
+        'sub/tinderbox-format.json': '{ "tabSize": 2 }',
+        'ok.tbxa': '$C = 1;\n'
+    }, '.');
+    assert.strictEqual(status, 0);
+    assert.strictEqual(stdout, 'Formatted a.tbxa\nFormatted sub/b.tbxa\nFormatted 2 of 3 files.\n');
+    assert.strictEqual(files['a.tbxa'], 'if($A){\n    $B = 1;\n}\n');
+    assert.strictEqual(files['sub/b.tbxa'], 'if($A){\n  $B = 1;\n}\n');
+    assert.strictEqual(files['ok.tbxa'], '$C = 1;\n');
+});
+
+test('--check shows diffs, changes nothing and exits with 1', () => {
+    const { status, stdout, files } = fmt({ 'a.tbxa': UNFORMATTED, 'ok.tbxa': '$C = 1;\n' }, '--check', '.');
+    assert.strictEqual(status, 1);
+    assert.strictEqual(stdout, [
+        '--- a.tbxa',
+        '+++ a.tbxa (formatted)',
+        '@@ -1,3 +1,3 @@',
+        ' if($A){',
+        '-$B=1;',
+        '+    $B = 1;',
+        ' }',
+        'Not formatted: 1 of 2 files. Run tbx-fmt without --check to format them.'
+    ].join('\n') + '\n');
+    assert.strictEqual(files['a.tbxa'], UNFORMATTED);
+    assert.strictEqual(fmt({ 'ok.tbxa': '$C = 1;\n' }, '-c', 'ok.tbxa').status, 0);
+});
+
+test('--config overrides tinderbox-format.json', () => {
+    const { files } = fmt({ 'a.tbxa': UNFORMATTED, 'tinderbox-format.json': '{ "tabSize": 2 }', 'tabs.json': '{ "insertSpaces": false }' }, '--config', 'tabs.json', 'a.tbxa');
+    assert.strictEqual(files['a.tbxa'], 'if($A){\n\t$B = 1;\n}\n');
+});
+
+test('a broken config stops the run before any file is written', () => {
+    const { status, stderr, files } = fmt({ 'a.tbxa': UNFORMATTED, 'sub/b.tbxa': UNFORMATTED, 'sub/tinderbox-format.json': '{ "tabSize": 0 }' }, '.');
+    assert.strictEqual(status, 2);
+    assert.match(stderr, /^tbx-fmt: .*tinderbox-format\.json: "tabSize" must be a positive integer\.\nRun 'tbx-fmt --help' for usage\.\n$/);
+    assert.strictEqual(files['a.tbxa'], UNFORMATTED);
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { evaluate, EvaluationError, EvaluationHost, Value, str } from '../interpreter';
+
+// Attributes of a single note; without a setter, assignments to attributes fail
+function createHost(attributes: { [name: string]: Value } = {}): EvaluationHost {
+    return {
+        getAttribute(name) {
+            if (!(name in attributes)) throw new Error(`No attribute $${name}`);
+            return attributes[name];
+        }
+    };
+}
+
+function run(text: string, host = createHost()): Value | undefined {
+    return evaluate(text, { host, now: new Date(2024, 0, 2) }).value;
+}
+
+test('arithmetic follows operator precedence', () => {
+    assert.deepStrictEqual(run('1 + 2 * 3'), { type: 'number', value: 7 });
+    assert.deepStrictEqual(run('(1 + 2) * 3'), { type: 'number', value: 9 });
+});
+
+test('a string plus a number concatenates', () => {
+    assert.deepStrictEqual(run('"a" + 1'), { type: 'string', value: 'a1' });
+});
+
+test('variables, loops and user functions', () => {
+    assert.deepStrictEqual(run('var i = 0; while (i < 3) { i = i + 1; }; i'), { type: 'number', value: 3 });
+    assert.deepStrictEqual(run('function sq(n) { return n * n; } sq(4)'), { type: 'number', value: 16 });
+});
+
+test('dot operators on lists and numbers', () => {
+    assert.deepStrictEqual(run('var:list l = [3,1,2]; l.sort'), { type: 'list', value: ['1', '2', '3'] });
+    assert.deepStrictEqual(run('3.14159.format(2)'), { type: 'string', value: '3.14' });
+});
+
+test('attributes are read from the host', () => {
+    assert.deepStrictEqual(run('$Name + "!"', createHost({ Name: str('Note') })), { type: 'string', value: 'Note!' });
+});
+
+test('errors carry the offsets of the code that failed', () => {
+    assert.throws(() => run('var a = 1;\nnosuch(1)'), (err: unknown) => {
+        assert.ok(err instanceof EvaluationError);
+        assert.strictEqual(err.start, 11);
+        assert.strictEqual(err.end, 20);
+        return true;
+    });
+    assert.throws(() => run('$Name = "a"'), (err: unknown) => err instanceof EvaluationError && err.start === 0);
+    assert.throws(() => run('$Missing'), (err: unknown) => err instanceof EvaluationError && err.start === 0 && err.end === 8);
+});
+
+test('backslashes other than before a quote or backslash stay in the string', () => {
+    assert.deepStrictEqual(run(String.raw`"a.b".replace("\.","-")`), { type: 'string', value: 'a-b' });
+    assert.deepStrictEqual(run(String.raw`$Name.replace("\d+","X")`, createHost({ Name: str('Item 42') })), { type: 'string', value: 'Item X' });
+    assert.deepStrictEqual(run(String.raw`"tab\there"`), { type: 'string', value: String.raw`tab\there` });
+    assert.deepStrictEqual(run(String.raw`"say \"hi\" \\ " + 'it\'s'`), { type: 'string', value: String.raw`say "hi" \ it's` });
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { LanguageService, EXPORT_CODE_LANGUAGE_ID } from '../languageService';
+import { readResourceFile } from '../resources';
+
+// One service with the resource tables loaded, shared by every test
+const loaded = (async () => {
+    const service = new LanguageService({ readResource: readResourceFile });
+    await service.load();
+    return service;
+})();
+
+async function validate(text: string): Promise<string[]> {
+    return (await loaded).validate(text).map(d => d.message);
+}
+
+test('list parameters take any number of arguments', async () => {
+    assert.deepStrictEqual(await validate('$MyList = list(1,2,3);\n$MyNumber = max(list(1,2));\n$MyNumber = max(1,2,3);'), []);
+    assert.deepStrictEqual(await validate('$MyNumber = $MyList.at(1,2);'), [
+        "Argument Count: 'at' expects (itemNum), but 2 were given."
+    ]);
+});
+
+test('arguments and assignments are checked against the declared type', async () => {
+    assert.deepStrictEqual(await validate('var:number n = "x";\n$Checked = 1;\n$MyNumber = round("3.5") + n;'), [
+        "Type Mismatch: Variable 'n' declared as number, but initialized with string.",
+        "Type Mismatch: '$Checked' is boolean, but assigned number.",
+        "Argument Type: 'sourceNum' of 'round' must be a number, but got string."
+    ]);
+    // Strings stand for lists, dates and colors, and every value has a text form
+    assert.deepStrictEqual(await validate('$MyList = "a;b";\n$Due = date("today");\n$Color = "red";\n$Name = 5;\n$MyList = list(1,2);'), []);
+});
+
+test('a read-only attribute assigned in a condition offers a comparison instead', async () => {
+    const service = await loaded;
+    const text = '^if($ChildCount = 3)^many^endIf^';
+    const diagnostics = service.validate(text, EXPORT_CODE_LANGUAGE_ID);
+    assert.deepStrictEqual(diagnostics.map(d => d.message), ["Read-only Attribute: '$ChildCount' cannot be assigned with '='."]);
+    const fix = service.codeActions(text, 'file:///page.tbxe', diagnostics[0].range, diagnostics).find(a => a.diagnostics?.length);
+    assert.strictEqual(fix?.title, "Change to comparison ('==')");
+    assert.deepStrictEqual(fix?.edit?.changes?.['file:///page.tbxe'], [
+        { range: { start: { line: 0, character: 16 }, end: { line: 0, character: 17 } }, newText: '==' }
+    ]);
+});
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+const LINT = path.join(__dirname, '..', 'lint.js');
+
+// Writes the files into a new directory and runs tbx-lint there
+function lint(files: { [file: string]: string }, ...args: string[]) {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tbx-lint-'));
+    try {
+        for (const [file, text] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(directory, file)), { recursive: true });
+            fs.writeFileSync(path.join(directory, file), text);
+        }
+        const result = spawnSync(process.execPath, [LINT, ...args], { cwd: directory, encoding: 'utf-8', timeout: 60000 });
+        return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+}
+
+test('problems are listed per file and errors fail the run', () => {
+    const { status, stdout } = lint({
+        'lib/dates.tbxa': '// @entrypoint\nfunction fmtDate(d) {\n    return d.format("M d");\n}\n',
+        'rules/task.tbxa': '$ChildCount = 2;\n$Name = fmtDat($Due);\n',
+        'node_modules/skip.tbxa': 'if(\n'
+    }, '.');
+    assert.strictEqual(status, 1);
+    assert.strictEqual(stdout, [
+        `rules/task.tbxa:1:1: error: Read-only Attribute: '$ChildCount' cannot be assigned with '='.`,
+        `rules/task.tbxa:2:9: warning: Unknown Function: 'fmtDat' is neither an operator nor a function defined in the workspace. Did you mean 'fmtDate'?`,
+        `2 problems (1 error, 1 warning) in 1 of 2 files.`
+    ].join('\n') + '\n');
+});
+
+test('warnings alone do not fail the run', () => {
+    const { status, stdout } = lint({ 'a.tbxa': '$Name = fmtDat(1);\n' }, 'a.tbxa');
+    assert.strictEqual(status, 0);
+    assert.match(stdout, /^1 problem \(0 errors, 1 warning\) in 1 of 1 file\.$/m);
+});
+
+test('a clean run exits with 0', () => {
+    const { status, stdout } = lint({ 'a.tbxa': '$Color = "red";\n' }, 'a.tbxa');
+    assert.strictEqual(status, 0);
+    assert.strictEqual(stdout, 'No problems in 1 file.\n');
+});
+
+test('JSON and SARIF output name the file and position', () => {
+    const files = { 'a.tbxa': '$Color = "red";\n$ChildCount = 1;\n' };
+    const json = JSON.parse(lint(files, '--format', 'json', 'a.tbxa').stdout);
+    assert.deepStrictEqual([json[0].path, json[0].diagnostics[0].line, json[0].diagnostics[0].column, json[0].diagnostics[0].severity], ['a.tbxa', 2, 1, 'error']);
+
+    const sarif = JSON.parse(lint(files, '-f', 'sarif', 'a.tbxa').stdout);
+    const location = sarif.runs[0].results[0].locations[0].physicalLocation;
+    assert.deepStrictEqual([location.artifactLocation.uri, location.region.startLine, location.region.startColumn], ['a.tbxa', 2, 1]);
+});
+
+test('bad arguments exit with 2', () => {
+    const { status, stderr } = lint({}, '--format', 'xml', '.');
+    assert.strictEqual(status, 2);
+    assert.strictEqual(stderr, `tbx-lint: --format must be human, json or sarif.\nRun 'tbx-lint --help' for usage.\n`);
+    assert.strictEqual(lint({}, 'missing').status, 2);
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { TbxCodeSection, TbxDocument, parseTbxDocument, getCodeSections } from '../tbx';
+import { FileStat, FileSystem, FileType } from '../fileSystem';
+import { NoteDocumentError, getNoteDocumentUri, findNoteDocumentSections, saveNoteDocument } from '../noteDocuments';
+
+const A = 'file:///ws/a/doc.tbx';
+const B = 'file:///ws/b/doc.tbx';
+
+function taskNotes(...rules: string[]): string {
+    return '<tinderbox>' + rules.map((rule, i) =>
+        `<item ID="${i + 1}"><attribute name="Name">Task</attribute><attribute name="Rule">${rule}</attribute></item>`).join('') + '</tinderbox>';
+}
+
+function loadSections(): Map<string, TbxCodeSection[]> {
+    return new Map([
+        [A, getCodeSections(parseTbxDocument(taskNotes('$Color="red";', '$Color="blue";')))],
+        [B, getCodeSections(parseTbxDocument(taskNotes('$Color="green";')))]
+    ]);
+}
+
+test('notes with the same name, and .tbx files with the same name, get their own URIs', () => {
+    const codeSections = loadSections();
+    const uris = [A, B].flatMap(tbxUri => codeSections.get(tbxUri)!.map(section => getNoteDocumentUri(tbxUri, section)));
+    assert.strictEqual(new Set(uris).size, 3);
+    assert.deepStrictEqual(uris.map(uri => findNoteDocumentSections(uri, codeSections).map(s => [s.tbxUri, s.section.code])), [
+        [[A, '$Color="red";']],
+        [[A, '$Color="blue";']],
+        [[B, '$Color="green";']]
+    ]);
+});
+
+test('the URI still reads as the .tbx file, note path and attribute', () => {
+    const section = loadSections().get(A)![1];
+    const uri = getNoteDocumentUri(A, section);
+    assert.ok(uri.startsWith('tinderbox-note://doc.tbx/Task?'));
+    assert.ok(uri.endsWith('#Rule'));
+});
+
+test('a URI of a note that is no longer there refers to nothing', () => {
+    const codeSections = loadSections();
+    const uri = getNoteDocumentUri(A, codeSections.get(A)![1]);
+    codeSections.set(A, getCodeSections(parseTbxDocument(taskNotes('$Color="red";'))));
+    assert.deepStrictEqual(findNoteDocumentSections(uri, codeSections), []);
+    assert.deepStrictEqual(findNoteDocumentSections('tinderbox-note://doc.tbx/Task#Rule', codeSections), []);
+});
+
+// Files held in memory
+class MemoryFileSystem implements FileSystem {
+    readonly files = new Map<string, string>();
+
+    async readFile(uri: string): Promise<string> {
+        const text = this.files.get(uri);
+        if (text === undefined) throw new Error(`No such file: ${uri}`);
+        return text;
+    }
+
+    async writeFile(uri: string, content: string): Promise<void> {
+        this.files.set(uri, content);
+    }
+
+    async stat(uri: string): Promise<FileStat> {
+        return { type: FileType.File, mtime: 0, size: (await this.readFile(uri)).length };
+    }
+
+    async readDirectory(): Promise<[string, FileType][]> {
+        return [];
+    }
+
+    async createDirectory(): Promise<void> { }
+}
+
+// .tbx files on disk, and as the server holds them once read: parsed and split into code sections
+function loadWorkspace(files: { [uri: string]: string }) {
+    const fileSystem = new MemoryFileSystem();
+    const documents = new Map<string, TbxDocument>();
+    const codeSections = new Map<string, TbxCodeSection[]>();
+    for (const [uri, text] of Object.entries(files)) {
+        fileSystem.files.set(uri, text);
+        documents.set(uri, parseTbxDocument(text));
+        codeSections.set(uri, getCodeSections(documents.get(uri)!));
+    }
+    const save = (uri: string, content: string) => saveNoteDocument(fileSystem, uri, content, codeSections, tbxUri => documents.get(tbxUri));
+    const uriOf = (tbxUri: string, index: number) => getNoteDocumentUri(tbxUri, codeSections.get(tbxUri)![index]);
+    return { fileSystem, save, uriOf };
+}
+
+test('saving a note document changes only its own note', async () => {
+    const a = taskNotes('$Color="red";', '$Color="blue";');
+    const b = taskNotes('$Color="green";');
+    const { fileSystem, save, uriOf } = loadWorkspace({ [A]: a, [B]: b });
+
+    assert.strictEqual(await save(uriOf(B, 0), '$Color="lime";'), B);
+    assert.strictEqual(fileSystem.files.get(A), a);
+    assert.strictEqual(fileSystem.files.get(B), b.replace('$Color="green";', '$Color="lime";'));
+
+    await save(uriOf(A, 1), 'if($Width > 2){$Color="navy";}');
+    assert.strictEqual(fileSystem.files.get(A), a.replace('$Color="blue";', 'if($Width &gt; 2){$Color="navy";}'));
+});
+
+test('a note document is not saved when the .tbx file changed on disk', async () => {
+    const { fileSystem, save, uriOf } = loadWorkspace({ [A]: taskNotes('$Color="red";') });
+    const changed = taskNotes('$Color="red";', '$Color="blue";');
+    fileSystem.files.set(A, changed);
+
+    await assert.rejects(save(uriOf(A, 0), '$Color="lime";'), (err: unknown) => err instanceof NoteDocumentError && err.modified);
+    assert.strictEqual(fileSystem.files.get(A), changed);
+});
+
+test('a note document is not saved when several notes share its ID', async () => {
+    const text = '<tinderbox><item ID="5"><attribute name="Name">Task</attribute><attribute name="Rule">$A=1;</attribute></item>' +
+        '<item ID="5"><attribute name="Name">Task</attribute><attribute name="Rule">$A=2;</attribute></item></tinderbox>';
+    const { fileSystem, save, uriOf } = loadWorkspace({ [A]: text });
+
+    await assert.rejects(save(uriOf(A, 1), '$A=3;'), (err: unknown) =>
+        err instanceof NoteDocumentError && !err.modified && err.message.startsWith('2 notes of doc.tbx have the ID 5.'));
+    assert.strictEqual(fileSystem.files.get(A), text);
+});
+
+test('a URI that names no loaded note is not saved', async () => {
+    const { save } = loadWorkspace({ [A]: taskNotes('$Color="red";') });
+    await assert.rejects(save('tinderbox-note://doc.tbx/Task#Rule', '$A=1;'), NoteDocumentError);
+});
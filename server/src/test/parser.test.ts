@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { parse, walk } from '../parser';
+
+// Kinds of the top-level statements, and the parse errors with their offsets
+function parseSummary(text: string) {
+    const { program, errors } = parse(text);
+    return {
+        statements: program.body.map(s => s.kind),
+        errors: errors.map(e => ({ message: e.message, start: e.start, end: e.end, related: e.related?.message }))
+    };
+}
+
+test('valid code parses without errors', () => {
+    const { statements, errors } = parseSummary('var:number x = 1;\nfunction f(a:string, b) { return a + b; }\nif (x > 0) { $Name = f("a", x); } else { $Name = ""; }\n$List.each(item) { $Text = $Text + item; };');
+    assert.deepStrictEqual(errors, []);
+    assert.deepStrictEqual(statements, ['VarDeclaration', 'FunctionDeclaration', 'IfStatement', 'ExpressionStatement']);
+});
+
+test('a missing expression is reported and the next statement still parses', () => {
+    assert.deepStrictEqual(parseSummary('var x = ;\n$Name = "a";'), {
+        statements: ['VarDeclaration', 'AssignmentStatement'],
+        errors: [{ message: "Unexpected token ';'.", start: 8, end: 9, related: undefined }]
+    });
+});
+
+test('an unclosed brace points back at where it was opened', () => {
+    assert.deepStrictEqual(parseSummary('function f(a) {\n  $Name = a;\n'), {
+        statements: ['FunctionDeclaration'],
+        errors: [{ message: "Expected '}' to match '{'.", start: 28, end: 28, related: "'{' opened here." }]
+    });
+});
+
+test('an unclosed condition does not swallow the rest of the text', () => {
+    assert.deepStrictEqual(parseSummary('if ($A > 1 { $B = 2; }\n$C = 3;'), {
+        statements: ['IfStatement', 'AssignmentStatement'],
+        errors: [{ message: "Expected ')' to close the 'if' condition.", start: 11, end: 12, related: "'(' opened here." }]
+    });
+    assert.deepStrictEqual(parseSummary('$A = (1 + 2;\n$B = 3;'), {
+        statements: ['AssignmentStatement', 'AssignmentStatement'],
+        errors: [{ message: "Expected ')' to match '('.", start: 11, end: 12, related: "'(' opened here." }]
+    });
+});
+
+test('a missing semicolon between statements on one line is reported at the next statement', () => {
+    assert.deepStrictEqual(parseSummary('$A = 1 $B = 2;'), {
+        statements: ['AssignmentStatement', 'AssignmentStatement'],
+        errors: [{ message: "Expected ';' before '$B'.", start: 7, end: 9, related: undefined }]
+    });
+});
+
+test('walk visits calls nested in arguments and dot operators', () => {
+    const { program } = parse('$A = f(g(1), $B.format(h(2)));');
+    const calls: string[] = [];
+    walk(program, node => {
+        if (node.kind === 'CallExpression') calls.push(node.callee.name);
+        if (node.kind === 'MemberExpression') calls.push('.' + node.property.name);
+    });
+    assert.deepStrictEqual(calls, ['f', 'g', '.format', 'h']);
+});
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { EvaluationError } from '../interpreter';
+import { parseFixture } from '../fixture';
+import { checkAgentQuery, runAgentQuery } from '../query';
+
+const FIXTURE = parseFixture(JSON.stringify({
+    attributes: [{ name: 'Status' }, { name: 'Effort', type: 'number', default: '0' }],
+    notes: [
+        { name: 'Task', isPrototype: true },
+        { name: 'Write docs', prototype: 'Task', attributes: { Status: 'open', Effort: 3 } },
+        { name: 'Review', prototype: 'Task', attributes: { Status: 'done', Effort: 1 } },
+        { name: 'Notes', attributes: { Status: 'open' } }
+    ]
+}));
+
+function run(query: string) {
+    return runAgentQuery(FIXTURE, query, { lookup: () => undefined, designators: new Set() });
+}
+
+test("'=' in a query compares", () => {
+    assert.deepStrictEqual(run('$Prototype="Task" & $Status!="done"').matches, ['/Write docs']);
+    assert.deepStrictEqual(run('$Status = "open";').matches, ['/Write docs', '/Notes']);
+});
+
+test('notes that do not match name the sub-expressions that were false', () => {
+    const notes = run('$Prototype=="Task" & ($Status=="done" | $Effort > 2)').notes;
+    assert.deepStrictEqual(notes.map(n => n.matched), [false, true, true, false]);
+    assert.deepStrictEqual(notes[0].failures.map(f => f.message), ['$Prototype=="Task" is false ($Prototype is "")']);
+    assert.deepStrictEqual(notes[3].failures.map(f => f.message), ['$Prototype=="Task" is false ($Prototype is "")']);
+});
+
+test('a query is a single boolean expression', () => {
+    assert.throws(() => checkAgentQuery('$Status="open"; $Effort=1;'), (err: unknown) =>
+        err instanceof EvaluationError && err.message === `Syntax Error: A condition is a single expression; unexpected '$Effort'.` && err.start === 16);
+    assert.throws(() => checkAgentQuery(''), { message: 'An agent query must be a single expression.' });
+    assert.throws(() => checkAgentQuery('$Effort + 1', () => 'number'), { message: 'An agent query must return boolean, but this expression returns number.' });
+    assert.throws(() => run('$Effort'), { message: '/Task: An agent query must return boolean, but it returned number.' });
+});
@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { parseTbxDocument, getCodeSections, parseXml, findElements, replaceElementText, encodeXmlEntities, decodeXmlEntities } from '../tbx';
+
+const PROJECT = `<?xml version="1.0" encoding="UTF-8" ?>
+<tinderbox version="2">
+<attrib Name="User" parent="" editable="true"/>
+<attrib Name="Effort" parent="User" type="number" default="1" description="Hours &amp; more"/>
+<attrib Name="Color" parent="Appearance" type="color"/>
+<linktypes><linktype name="agree"/></linktypes>
+<stamps><stamp name="Done">$Checked=true;</stamp></stamps>
+<item ID="1">
+  <attribute name="Name">Templates</attribute>
+  <item ID="2">
+    <attribute name="Name">Task</attribute>
+    <attribute name="IsPrototype">true</attribute>
+    <attribute name="Rule">if($Effort &gt; 2){$Color="red"}</attribute>
+  </item>
+</item>
+<item ID="3" proto="Task">
+  <attribute name="Name">Write &lt;docs&gt;</attribute>
+  <attribute name="Edict"><![CDATA[$Effort=3;]]></attribute>
+</item>
+</tinderbox>`;
+
+test('user attributes, link types, stamps and prototypes are read', () => {
+    const tbx = parseTbxDocument(PROJECT);
+    assert.deepStrictEqual(tbx.attributes, [{ name: 'Effort', type: 'number', defaultValue: '1', description: 'Hours & more' }]);
+    assert.deepStrictEqual(tbx.linkTypes, ['agree']);
+    assert.deepStrictEqual(tbx.stamps.map(s => s.name), ['Done']);
+    assert.deepStrictEqual(tbx.prototypes, ['Task']);
+});
+
+test('notes form an outline with decoded names and paths', () => {
+    const tbx = parseTbxDocument(PROJECT);
+    assert.deepStrictEqual(tbx.notes.map(n => [n.path, n.id, n.prototype, n.isPrototype]), [
+        ['/Templates', '1', undefined, false],
+        ['/Templates/Task', '2', undefined, true],
+        ['/Write <docs>', '3', 'Task', false]
+    ]);
+    assert.deepStrictEqual(tbx.rootNotes.map(n => n.children.map(c => c.name)), [['Task'], []]);
+});
+
+test('a truncated document is read as far as it goes', () => {
+    const tbx = parseTbxDocument('<tinderbox><item ID="1"><attribute name="Name">Inbox</attribute><item ID="2"><attribute name="Name">Half');
+    assert.deepStrictEqual(tbx.notes.map(n => n.path), ['/Inbox', '/Inbox/Half']);
+});
+
+test('code sections map every character of the decoded code back into the file', () => {
+    const sections = getCodeSections(parseTbxDocument(PROJECT));
+    assert.deepStrictEqual(sections.map(s => [s.notePath, s.key, s.attribute, s.code]), [
+        ['/Templates/Task', '2', 'Rule', 'if($Effort > 2){$Color="red"}'],
+        ['/Write <docs>', '3', 'Edict', '$Effort=3;'],
+        ['Done', '#0', 'Stamp', '$Checked=true;']
+    ]);
+    const rule = sections[0];
+    const gt = rule.code.indexOf('>');
+    assert.strictEqual(PROJECT.substring(rule.offsets[gt], rule.offsets[gt + 1]), '&gt;');
+    assert.strictEqual(PROJECT.substring(rule.offsets[0], rule.offsets[rule.code.length]), 'if($Effort &gt; 2){$Color="red"}');
+});
+
+test('notes with the same name get different keys', () => {
+    const tbx = parseTbxDocument('<tinderbox><item ID="7"><attribute name="Name">Task</attribute><attribute name="Rule">$A=1;</attribute></item>' +
+        '<item><attribute name="Name">Task</attribute><attribute name="Rule">$A=2;</attribute></item>' +
+        '<item><attribute name="Name">Task</attribute><attribute name="Rule">$A=3;</attribute></item></tinderbox>');
+    assert.deepStrictEqual(getCodeSections(tbx).map(s => [s.notePath, s.key]), [['/Task', '7'], ['/Task', '#1'], ['/Task', '#2']]);
+});
+
+test('entities are encoded and decoded', () => {
+    assert.strictEqual(encodeXmlEntities('a < b & "c" > d'), 'a &lt; b &amp; &quot;c&quot; &gt; d');
+    assert.strictEqual(decodeXmlEntities('&lt;&#65;&#x42;&amp;&unknown;'), '<AB&&unknown;');
+    assert.strictEqual(decodeXmlEntities(encodeXmlEntities('$A = "<&>";')), '$A = "<&>";');
+});
+
+// Replaces the content of the only <attribute> element in text
+function replaceRule(text: string, value: string): string {
+    return replaceElementText(text, findElements(parseXml(text), 'attribute')[0], value);
+}
+
+test('replacing element text changes nothing outside the element', () => {
+    const text = '<item ID="1" >\n  <attribute name="Rule">$A=1;</attribute><!-- &amp; -->\n</item>';
+    assert.strictEqual(replaceRule(text, '$A=2;'), text.replace('$A=1;', '$A=2;'));
+});
+
+test('replaced text follows the escaping the element already uses', () => {
+    // '&' and '<' always; '>' unless the content already has a raw '>'; quotes only when they were escaped
+    assert.strictEqual(replaceRule('<attribute name="Rule">$A=1;</attribute>', 'if($A > 1 & $B < 2){$C="x";}'),
+        '<attribute name="Rule">if($A &gt; 1 &amp; $B &lt; 2){$C="x";}</attribute>');
+    assert.strictEqual(replaceRule('<attribute name="Rule">$A=$B>1;</attribute>', '$A=$B>2;'),
+        '<attribute name="Rule">$A=$B>2;</attribute>');
+    assert.strictEqual(replaceRule('<attribute name="Rule">$C=&quot;x&quot;;</attribute>', '$C="y";'),
+        '<attribute name="Rule">$C=&quot;y&quot;;</attribute>');
+});
+
+test('CDATA content stays CDATA, with a closing sequence split', () => {
+    assert.strictEqual(replaceRule('<attribute name="Rule"><![CDATA[$A=1;]]></attribute>', '$A="<b>"; // ]]>'),
+        '<attribute name="Rule"><![CDATA[$A="<b>"; // ]]]]><![CDATA[>]]></attribute>');
+});
+
+test('replaced text reads back as the value written', () => {
+    for (const original of ['<attribute name="Rule">x</attribute>', '<attribute name="Rule"><![CDATA[x]]></attribute>']) {
+        const value = 'if($A > 1 & $B < "2"){$C="]]>";}';
+        const text = replaceRule(original, value);
+        const tbx = parseTbxDocument(`<item>${text}</item>`);
+        assert.strictEqual(getCodeSections(tbx)[0].code, value);
+    }
+});
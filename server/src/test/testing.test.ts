@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { parse, FunctionDeclaration } from '../parser';
+import { EvaluationHost, LibraryFunction } from '../interpreter';
+import { findTests, runTest } from '../testing';
+
+const LIBRARY = `function fmtDate(d) {
+    if (d == "never") { return ""; }
+    return d.format("M d");
+}
+`;
+
+const functions: LibraryFunction[] = parse(LIBRARY).program.body
+    .filter((s): s is FunctionDeclaration => s.kind === 'FunctionDeclaration')
+    .map(declaration => ({ declaration, text: LIBRARY, source: 'file:///lib.tbxa' }));
+
+const host: EvaluationHost = {
+    getAttribute(name) { throw new Error(`No attribute $${name}`); }
+};
+
+function run(text: string) {
+    return findTests(text).map(t => runTest(t, { host, now: new Date(2024, 0, 2), functions }));
+}
+
+test('the fmtDate example passes', () => {
+    const results = run('// @test fmtDate formats short dates\n// @expect fmtDate(date("2024-01-02")) == "Jan 2"\n// @expect fmtDate(date("never")) == ""\n');
+    assert.deepStrictEqual(results.map(r => [r.test.name, r.test.expectations.length, r.passed]), [['fmtDate formats short dates', 2, true]]);
+});
+
+test('date format codes follow Tinderbox', () => {
+    const text = '// @expect date("2024-03-04 05:06").format("MM M m mm d D0 y") == "March Mar 3 06 4 04 2024"\n';
+    assert.deepStrictEqual(run(text).map(r => r.failures.map(f => f.message)), [[]]);
+});
+
+test('a failed comparison reports both sides at the expression', () => {
+    const text = '// @expect fmtDate(date("2024-01-02")) == "Jan 02"\n\n// @expect 1 > 2\n';
+    const results = run(text);
+    assert.deepStrictEqual(results.map(r => r.failures.map(f => [f.message, text.substring(f.start, f.end)])), [
+        [['expected "Jan 02", got "Jan 2"', 'fmtDate(date("2024-01-02")) == "Jan 02"']],
+        [['1 > 2 is false', '1 > 2']]
+    ]);
+});
+
+test('errors in library functions point into the library', () => {
+    const [result] = run('// @expect fmtDate(1) == ""\n');
+    assert.strictEqual(result.failures[0].source, 'file:///lib.tbxa');
+    assert.strictEqual(LIBRARY.substring(result.failures[0].start, result.failures[0].end), 'd.format("M d")');
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { tokenize } from '../tokenizer';
+
+// Type and value of each token, without whitespace
+function summarize(text: string): string[] {
+    return tokenize(text).filter(t => t.type !== 'Whitespace').map(t => `${t.type}:${t.value}`);
+}
+
+test('tokens cover the text without gaps', () => {
+    const text = 'var:number x = 3.5; // note\n$Name = "a" + x;';
+    let offset = 0;
+    for (const token of tokenize(text)) {
+        assert.strictEqual(token.start, offset);
+        assert.strictEqual(text.substr(token.start, token.length), token.value);
+        offset += token.length;
+    }
+    assert.strictEqual(offset, text.length);
+});
+
+test('keywords, identifiers and attributes', () => {
+    assert.deepStrictEqual(summarize('if ($Done) { return true; }'), [
+        'Keyword:if', 'Punctuation:(', 'Identifier:$Done', 'Punctuation:)', 'Punctuation:{',
+        'Keyword:return', 'Keyword:true', 'Punctuation:;', 'Punctuation:}'
+    ]);
+});
+
+test('a number ends at a dot that is not followed by a digit', () => {
+    assert.deepStrictEqual(summarize('3.14159.format(2)'), [
+        'Number:3.14159', 'Punctuation:.', 'Identifier:format', 'Punctuation:(', 'Number:2', 'Punctuation:)'
+    ]);
+    assert.deepStrictEqual(summarize('$A = -2;'), ['Identifier:$A', 'Operator:=', 'Number:-2', 'Punctuation:;']);
+});
+
+test('two-character operators are one token', () => {
+    assert.deepStrictEqual(summarize('a == b != c <= d += 1'), [
+        'Identifier:a', 'Operator:==', 'Identifier:b', 'Operator:!=', 'Identifier:c', 'Operator:<=', 'Identifier:d', 'Operator:+=', 'Number:1'
+    ]);
+});
+
+test('comments run to the end of the line', () => {
+    assert.deepStrictEqual(summarize('$A = 1; // set A\n$B = 2;'), [
+        'Identifier:$A', 'Operator:=', 'Number:1', 'Punctuation:;', 'Comment:// set A',
+        'Identifier:$B', 'Operator:=', 'Number:2', 'Punctuation:;'
+    ]);
+});
+
+test('strings keep escaped quotes and may span lines', () => {
+    assert.deepStrictEqual(summarize('"say \\"hi\\""'), ['String:"say \\"hi\\""']);
+    assert.deepStrictEqual(summarize('\'a\nb\''), ['String:\'a\nb\'']);
+});
+
+test('an unterminated string ends at its first line break', () => {
+    assert.deepStrictEqual(summarize('$A = "open\n$B = 2;'), [
+        'Identifier:$A', 'Operator:=', 'String:"open', 'Identifier:$B', 'Operator:=', 'Number:2', 'Punctuation:;'
+    ]);
+});
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { FileStat, FileSystem, FileType } from '../fileSystem';
+import { WorkspaceIndex, indexText } from '../workspaceIndex';
+
+// Files held in memory, counting how often each one is read
+class MemoryFileSystem implements FileSystem {
+    readonly files = new Map<string, { text: string, mtime: number }>();
+    readonly reads = new Map<string, number>();
+
+    set(uri: string, text: string, mtime: number) {
+        this.files.set(uri, { text, mtime });
+    }
+
+    async readFile(uri: string): Promise<string> {
+        const file = this.files.get(uri);
+        if (!file) throw new Error(`No such file: ${uri}`);
+        this.reads.set(uri, (this.reads.get(uri) || 0) + 1);
+        return file.text;
+    }
+
+    async writeFile(uri: string, content: string): Promise<void> {
+        this.set(uri, content, Date.now());
+    }
+
+    async stat(uri: string): Promise<FileStat> {
+        const file = this.files.get(uri);
+        if (!file) throw new Error(`No such file: ${uri}`);
+        return { type: FileType.File, mtime: file.mtime, size: file.text.length };
+    }
+
+    async readDirectory(): Promise<[string, FileType][]> {
+        return [];
+    }
+
+    async createDirectory(): Promise<void> { }
+}
+
+const DATES = 'file:///ws/lib/dates.tbxa';
+
+test('refresh indexes a new file', async () => {
+    const fileSystem = new MemoryFileSystem();
+    fileSystem.set(DATES, 'function fmtDate(d:date) {\n    return d.format("L");\n}\n$Name = fmtDate($Created);\n', 1);
+    const index = new WorkspaceIndex(fileSystem);
+
+    const file = await index.refresh(DATES);
+    assert.ok(file);
+    assert.ok(index.has(DATES));
+    assert.deepStrictEqual(file.symbols.filter(s => s.kind === 12).map(s => s.name), ['fmtDate']);
+    // Dot operators are calls too; the caller is the index of the enclosing function's symbol
+    assert.deepStrictEqual(file.calls.map(c => [c.callee, c.caller]), [['format', 0], ['fmtDate', undefined]]);
+    assert.deepStrictEqual(file.references.map(r => [r.name, r.declaration]), [['fmtDate', true], ['format', false], ['fmtDate', false]]);
+});
+
+test('refresh reads a file again only when its mtime changed', async () => {
+    const fileSystem = new MemoryFileSystem();
+    fileSystem.set(DATES, 'function a() { }', 1);
+    const index = new WorkspaceIndex(fileSystem);
+
+    const first = await index.refresh(DATES);
+    await index.refresh(DATES);
+    assert.strictEqual(fileSystem.reads.get(DATES), 1);
+
+    // Touched but unchanged: read, but the entry is kept
+    fileSystem.set(DATES, 'function a() { }', 2);
+    const touched = await index.refresh(DATES);
+    assert.strictEqual(fileSystem.reads.get(DATES), 2);
+    assert.strictEqual(touched?.mtime, 2);
+    assert.strictEqual(touched?.symbols, first?.symbols);
+
+    fileSystem.set(DATES, 'function b() { }', 3);
+    const edited = await index.refresh(DATES);
+    assert.deepStrictEqual(edited?.symbols.map(s => s.name), ['b']);
+});
+
+test('refresh forgets a file larger than the limit', async () => {
+    const fileSystem = new MemoryFileSystem();
+    fileSystem.set(DATES, 'function a() { }', 1);
+    const index = new WorkspaceIndex(fileSystem);
+
+    await index.refresh(DATES);
+    assert.strictEqual(await index.refresh(DATES, 5), undefined);
+    assert.ok(!index.has(DATES));
+});
+
+test('prune forgets the files of a folder that a scan did not find', async () => {
+    const fileSystem = new MemoryFileSystem();
+    const kept = 'file:///ws/kept.tbxa';
+    const deleted = 'file:///ws/sub/deleted.tbxa';
+    const otherFolder = 'file:///ws2/other.tbxa';
+    for (const uri of [kept, deleted, otherFolder]) fileSystem.set(uri, 'function a() { }', 1);
+    const index = new WorkspaceIndex(fileSystem);
+    for (const uri of [kept, deleted, otherFolder]) await index.refresh(uri);
+
+    index.prune('file:///ws', new Set([kept]));
+    assert.ok(index.has(kept));
+    assert.ok(!index.has(deleted));
+    // A folder whose name merely starts with the same text is another folder
+    assert.ok(index.has(otherFolder));
+});
+
+test('calls in @expect lines are indexed as calls from the top level', () => {
+    const file = indexText('file:///ws/dates.tbxtest', '// @test fmtDate\n// @expect fmtDate(date("2024-01-02")) == "Jan 2"\n');
+    assert.deepStrictEqual(file.calls.map(c => [c.callee, c.caller, c.range.start.line, c.range.start.character]), [
+        ['fmtDate', undefined, 1, 11],
+        ['date', undefined, 1, 19]
+    ]);
+});
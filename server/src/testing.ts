@@ -0,0 +1,119 @@
+import { Expression } from './parser';
+import { EvaluationError, EvaluationOptions, parseForEvaluation, evaluateExpression, toBoolean } from './interpreter';
+import { COMPARISON_OPERATORS, describeValue } from './query';
+
+// --- Inline Tests ---
+// Tests are written as comment annotations in .tbxa and .tbxtest files:
+//
+//   // @test fmtDate formats short dates
+//   // @expect fmtDate(date("2024-01-02")) == "Jan 2"
+//   // @expect fmtDate(date("never")) == ""
+//
+// A `@test` line names a test; the `@expect` lines of the same comment block belong to it. An `@expect`
+// line outside such a block is a test of its own. Each expectation is an expression that must be true.
+// Only the expectations run, never the surrounding code, so tests can sit next to rules.
+
+export interface Expectation {
+    expression: string;
+    start: number; // Offsets of the expression in the document
+    end: number;
+}
+
+export interface ActionCodeTest {
+    name: string;
+    start: number; // Offsets of the annotation that starts the test
+    end: number;
+    expectations: Expectation[];
+}
+
+export interface ExpectationFailure {
+    expectation: Expectation;
+    message: string;
+    start: number; // Offsets in the document, or in the text of source
+    end: number;
+    source?: string; // Set when the error lies in a library function, e.g. its document URI
+}
+
+export interface TestResult {
+    test: ActionCodeTest;
+    passed: boolean;
+    failures: ExpectationFailure[];
+}
+
+const ANNOTATION = /^([ \t]*)(\/\/[ \t]*@(test|expect)\b[ \t]*)(.*?)[ \t]*$/;
+
+export function findTests(text: string): ActionCodeTest[] {
+    const tests: ActionCodeTest[] = [];
+    let current: ActionCodeTest | undefined; // The test the current comment block belongs to
+    let offset = 0;
+    for (const line of text.split('\n')) {
+        const content = line.replace(/\r$/, '');
+        const match = content.match(ANNOTATION);
+        if (match) {
+            const annotationStart = offset + match[1].length;
+            const valueStart = annotationStart + match[2].length;
+            const value = match[4];
+            if (match[3] === 'test') {
+                current = { name: value || 'Unnamed test', start: annotationStart, end: offset + content.length, expectations: [] };
+                tests.push(current);
+            } else if (value) {
+                const expectation = { expression: value, start: valueStart, end: valueStart + value.length };
+                if (!current) {
+                    tests.push({ name: value, start: annotationStart, end: offset + content.length, expectations: [expectation] });
+                } else {
+                    current.expectations.push(expectation);
+                }
+            }
+        } else if (!/^[ \t]*\/\//.test(content)) {
+            current = undefined;
+        }
+        offset += line.length + 1;
+    }
+    return tests;
+}
+
+function runExpectation(expectation: Expectation, options: EvaluationOptions): ExpectationFailure | undefined {
+    const fail = (message: string, start: number, end: number, source?: string): ExpectationFailure => source === undefined
+        ? { expectation, message, start: expectation.start + start, end: expectation.start + end }
+        : { expectation, message, start, end, source };
+    try {
+        const program = parseForEvaluation(expectation.expression);
+        const statement = program.body[0];
+        if (program.body.length !== 1 || statement.kind !== 'ExpressionStatement') {
+            return fail(`@expect takes a single expression.`, 0, expectation.expression.length);
+        }
+        const expr: Expression = statement.expression;
+        const evaluate = (node: Expression) => evaluateExpression(node, expectation.expression, options);
+
+        const value = evaluate(expr);
+        if (toBoolean(value)) return undefined;
+        // For comparisons, report both sides
+        if (expr.kind === 'BinaryExpression' && COMPARISON_OPERATORS.includes(expr.operator)) {
+            const actual = evaluate(expr.left);
+            const expected = evaluate(expr.right);
+            const message = expr.operator === '==' || expr.operator === '='
+                ? `expected ${describeValue(expected)}, got ${describeValue(actual)}`
+                : `${describeValue(actual)} ${expr.operator} ${describeValue(expected)} is false`;
+            return fail(message, expr.start, expr.end);
+        }
+        return fail(`the expression is ${describeValue(value)}`, expr.start, expr.end);
+    } catch (err) {
+        if (err instanceof EvaluationError) {
+            return fail(err.message, err.start, err.end, err.source);
+        }
+        throw err;
+    }
+}
+
+export function runTest(test: ActionCodeTest, options: EvaluationOptions): TestResult {
+    if (test.expectations.length === 0) {
+        const annotation = { expression: '', start: test.start, end: test.end };
+        return { test, passed: false, failures: [{ expectation: annotation, message: `The test has no @expect lines.`, start: test.start, end: test.end }] };
+    }
+    const failures: ExpectationFailure[] = [];
+    for (const expectation of test.expectations) {
+        const failure = runExpectation(expectation, options);
+        if (failure) failures.push(failure);
+    }
+    return { test, passed: failures.length === 0, failures };
+}
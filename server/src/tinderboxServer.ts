@@ -0,0 +1,1435 @@
+import {
+    Connection,
+    TextDocuments,
+    Diagnostic,
+    DiagnosticSeverity,
+    DiagnosticRelatedInformation,
+    InitializeParams,
+    DidChangeConfigurationNotification,
+    CompletionItem,
+    TextDocumentPositionParams,
+    TextDocumentSyncKind,
+    InitializeResult,
+    SemanticTokensParams,
+    Hover,
+    Definition,
+    Location,
+    Range,
+    TextEdit,
+    DocumentFormattingParams,
+    DocumentSymbol,
+    SymbolKind,
+    DocumentSymbolParams,
+    PrepareRenameResult,
+    RenameParams,
+    WorkspaceEdit,
+    InlayHint,
+    InlayHintParams,
+    CodeAction,
+    CodeActionParams,
+    ReferenceParams,
+    DocumentHighlight,
+    DocumentHighlightKind,
+    DocumentHighlightParams,
+    WorkspaceSymbolParams,
+    SymbolInformation,
+    CallHierarchyIncomingCall,
+    CallHierarchyOutgoingCall,
+    SignatureHelp,
+    ResponseError,
+    ErrorCodes,
+    LSPErrorCodes,
+    CodeLens,
+    CodeLensParams,
+    CodeLensRefreshRequest,
+    FileChangeType,
+    DiagnosticTag
+} from 'vscode-languageserver';
+
+import {
+    TextDocument
+} from 'vscode-languageserver-textdocument';
+import { URI, Utils } from 'vscode-uri';
+import { tokenize } from './tokenizer';
+import { parse } from './parser';
+import { TbxDocument, TbxCodeSection, parseTbxDocument, getCodeSections, EXPRESSION_ATTRIBUTES } from './tbx';
+import {
+    NOTE_DOCUMENT_SCHEME, NoteDocumentSection, NoteDocumentError, getNoteDocumentUri, findNoteDocumentSections, describeCodeSection, saveNoteDocument
+} from './noteDocuments';
+import { ValueType, LibraryFunction, toText } from './interpreter';
+import { AttributeChange, FixtureError, parseFixture, findFixtureNote } from './fixture';
+import { TestResult, findTests } from './testing';
+import { DebugVariable } from './debugging';
+import {
+    LanguageService, SEMANTIC_TOKENS_LEGEND, EXPORT_CODE_LANGUAGE_ID, EvaluationFailure,
+    extractSymbolsFromText, isDeclaration, findContainingFunctionDeclaration
+} from './languageService';
+import { FileSystem, FileType } from './fileSystem';
+import { WorkspaceIndex, FileIndex, indexText } from './workspaceIndex';
+import { FileFilter, FileFilterSettings } from './fileFilter';
+
+// --- Tinderbox Server ---
+// The language server without its transport. server.ts starts it over Node's IPC with the disk as its
+// file system; browserServer.ts starts it in a web worker, where files are read through the client.
+
+export interface ServerRuntime {
+    fileSystem: FileSystem;
+    // Text of a file in the resource folder, as for LanguageServiceHost
+    readResource(name: string): Promise<string | undefined>;
+}
+
+export function startServer(connection: Connection, runtime: ServerRuntime) {
+    const { fileSystem } = runtime;
+
+    // Everything that does not need the connection or the file system lives in the language service
+    // (see languageService.ts); the handlers below map between documents and its text and offsets.
+    const service = new LanguageService({ readResource: runtime.readResource, logger: connection.console });
+
+    // Create a simple text document manager.
+    const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
+
+    let hasConfigurationCapability = false;
+    let hasWorkspaceFolderCapability = false;
+    let hasDiagnosticRelatedInformationCapability = false;
+    let hasCodeLensRefreshCapability = false;
+    // Where the client lets the server keep the workspace index; absent for tbx-lint
+    let globalStorageUri: string | undefined;
+
+    connection.onInitialize((params: InitializeParams) => {
+        connection.console.log('Server onInitialize started.');
+        const capabilities = params.capabilities;
+        globalStorageUri = params.initializationOptions?.globalStorageUri;
+
+        // Does the client support the `workspace/configuration` request?
+        // If not, we fall back using global settings.
+        hasConfigurationCapability = !!(
+            capabilities.workspace && !!capabilities.workspace.configuration
+        );
+        hasWorkspaceFolderCapability = !!(
+            capabilities.workspace && !!capabilities.workspace.workspaceFolders
+        );
+        hasCodeLensRefreshCapability = !!capabilities.workspace?.codeLens?.refreshSupport;
+        hasDiagnosticRelatedInformationCapability = !!(
+            capabilities.textDocument &&
+            capabilities.textDocument.publishDiagnostics &&
+            capabilities.textDocument.publishDiagnostics.relatedInformation
+        );
+
+        const result: InitializeResult = {
+            capabilities: {
+                textDocumentSync: TextDocumentSyncKind.Incremental,
+                // Tell the client that this server supports code completion.
+                completionProvider: {
+                    resolveProvider: true,
+                    triggerCharacters: ['.', ':', '^', '$'] // Trigger on dot, colon, caret (export), dollar (attr)
+                },
+                // Semantic Tokens capability
+                semanticTokensProvider: {
+                    legend: SEMANTIC_TOKENS_LEGEND,
+                    full: { delta: false },
+                    range: false
+                },
+                // Hover Provider capability
+                hoverProvider: true,
+                // Signature Help capability
+                signatureHelpProvider: {
+                    triggerCharacters: ['(', ',']
+                },
+                // Definition Provider capability
+                definitionProvider: true,
+                // References Provider capability
+                referencesProvider: true,
+                // Document Highlight Provider capability
+                documentHighlightProvider: true,
+                // Document Formatting capability
+                documentFormattingProvider: true,
+                // Document Symbol capability
+                documentSymbolProvider: true,
+                // Rename capability
+                renameProvider: {
+                    prepareProvider: true
+                },
+                // Inlay Hint capability
+                inlayHintProvider: true,
+                // Code Action capability
+                codeActionProvider: true,
+                // Workspace Symbol capability
+                workspaceSymbolProvider: true,
+                // Call Hierarchy capability
+                callHierarchyProvider: true,
+                // Code Lens capability (inline tests)
+                codeLensProvider: {
+                    resolveProvider: false
+                },
+                // Execute Command capability
+                executeCommandProvider: {
+                    commands: [EVALUATE_COMMAND, SIMULATE_COMMAND, RUN_AGENT_QUERY_COMMAND, RUN_TESTS_COMMAND]
+                }
+            }
+        };
+        if (hasWorkspaceFolderCapability) {
+            result.capabilities.workspace = {
+                workspaceFolders: {
+                    supported: true
+                }
+            };
+        }
+        return result;
+    });
+
+    connection.onInitialized(() => {
+        connection.console.log('Server onInitialized started.');
+        if (hasConfigurationCapability) {
+            // Register for all configuration changes.
+            connection.client.register(DidChangeConfigurationNotification.type, undefined);
+        }
+        if (hasWorkspaceFolderCapability) {
+            connection.workspace.onDidChangeWorkspaceFolders(event => {
+                connection.console.log('Workspace folder change event received.');
+                for (const removed of event.removed) {
+                    const folder = URI.parse(removed.uri);
+                    workspaceFolders = workspaceFolders.filter(f => f.toString() !== folder.toString());
+                    fileFilters.delete(folder.toString());
+                    workspaceIndex.unload(folder.toString());
+                    evictWorkspaceFolder(folder);
+                }
+                const added = event.added.map(folder => URI.parse(folder.uri));
+                workspaceFolders.push(...added);
+                // tinderbox/lintFiles and the like wait for added folders as for the ones given at startup
+                workspaceScan = workspaceScan
+                    .then(() => Promise.all(added.map(scanWorkspaceFolder)))
+                    .then(revalidateAll);
+            });
+        }
+        // Start loading resources in the background
+        service.load().then(() => {
+            // After resources are loaded, trigger validation for all open documents with a small delay
+            setTimeout(() => {
+                documents.all().forEach(validateTextDocument);
+            }, 500);
+        });
+
+        if (hasWorkspaceFolderCapability) {
+            workspaceScan = connection.workspace.getWorkspaceFolders()
+                .then(folders => {
+                    workspaceFolders = (folders || []).map(folder => URI.parse(folder.uri));
+                    return Promise.all(workspaceFolders.map(scanWorkspaceFolder));
+                });
+        }
+        // A failed scan still ends, so that unused functions are reported for the files that were read
+        workspaceScan = workspaceScan.catch(err => connection.console.error(`Workspace scan failed: ${err}`));
+        workspaceScan.then(() => {
+            workspaceScanned = true;
+            documents.all().forEach(validateTextDocument);
+        });
+    });
+
+    // Settles when the workspace folders given at startup have been scanned
+    let workspaceScan: Promise<unknown> = Promise.resolve();
+
+    let workspaceFolders: URI[] = [];
+
+    // Symbols, function references and call edges of the workspace's action code files on disk (see workspaceIndex.ts)
+    const workspaceIndex = new WorkspaceIndex(fileSystem);
+
+    // The files.include, files.exclude and maxFileSize settings of each workspace folder (see fileFilter.ts)
+    const fileFilters = new Map<string, Promise<FileFilter>>(); // Key: folder URI
+
+    function getFileFilter(folder: URI): Promise<FileFilter> {
+        let filter = fileFilters.get(folder.toString());
+        if (!filter) {
+            const settings: Thenable<FileFilterSettings> = hasConfigurationCapability
+                ? connection.workspace.getConfiguration({ scopeUri: folder.toString(), section: 'tinderboxActionCodeServer' })
+                : Promise.resolve(globalSettings);
+            filter = Promise.resolve(settings).then(s => new FileFilter(s));
+            fileFilters.set(folder.toString(), filter);
+        }
+        return filter;
+    }
+
+    // The innermost workspace folder of a file, and the file's path relative to it
+    function findWorkspaceFolder(uri: string): { folder: URI, relativePath: string } | undefined {
+        const path = URI.parse(uri).path;
+        let result: { folder: URI, relativePath: string } | undefined;
+        for (const folder of workspaceFolders) {
+            const prefix = folder.path.endsWith('/') ? folder.path : folder.path + '/';
+            if (path.startsWith(prefix) && (!result || folder.path.length > result.folder.path.length)) {
+                result = { folder, relativePath: path.substring(prefix.length) };
+            }
+        }
+        return result;
+    }
+
+    // Whether the settings let the server read a file outside the editor; files outside the workspace folders always are
+    async function isWorkspaceFileIncluded(uri: string): Promise<boolean> {
+        const location = findWorkspaceFolder(uri);
+        if (!location) return true;
+        return (await getFileFilter(location.folder)).matches(location.relativePath);
+    }
+
+    // Scans a folder, then forgets its files that no longer exist or that the settings now exclude.
+    // Progress is reported to the client, as indexing a large workspace for the first time takes a while.
+    async function scanWorkspaceFolder(folder: URI) {
+        await workspaceIndex.load(globalStorageUri, folder.toString());
+        const filter = await getFileFilter(folder);
+        const progress = await connection.window.createWorkDoneProgress();
+        progress.begin('Indexing Tinderbox files', 0, Utils.basename(folder));
+
+        const files = await listWorkspaceFiles(folder, '', filter);
+        let percentage = 0;
+        for (let i = 0; i < files.length; i++) {
+            const uri = files[i];
+            if (isActionCodeFile(uri)) {
+                await indexFileForCache(uri);
+            } else if (isUserAttributeFile(uri)) {
+                await loadUserAttributeFile(uri);
+            } else if (isTbxFile(uri)) {
+                await loadTbxDocument(uri);
+            }
+            const done = Math.floor((i + 1) * 100 / files.length);
+            if (done > percentage) {
+                percentage = done;
+                progress.report(percentage, Utils.basename(URI.parse(uri)));
+            }
+        }
+        evictWorkspaceFolder(folder, new Set(files));
+        progress.done();
+        documents.all().forEach(validateTextDocument);
+    }
+
+    // The action code files, attribute declarations and Tinderbox documents of a folder that the filter lets through
+    async function listWorkspaceFiles(folder: URI, relativePath: string, filter: FileFilter): Promise<string[]> {
+        const files: string[] = [];
+        try {
+            const entries = await fileSystem.readDirectory(folder.toString());
+            for (const [name, type] of entries) {
+                // Ignore hidden folders (like .git, .vscode)
+                if (type === FileType.Directory && name.startsWith('.')) continue;
+
+                const entry = Utils.joinPath(folder, name);
+                const entryPath = relativePath ? `${relativePath}/${name}` : name;
+                if (type === FileType.Directory) {
+                    if (!filter.excludesFolder(entryPath)) files.push(...await listWorkspaceFiles(entry, entryPath, filter));
+                } else if (type === FileType.File && filter.matches(entryPath)) {
+                    const uri = entry.toString();
+                    if (isActionCodeFile(uri) || isUserAttributeFile(uri) || isTbxFile(uri)) files.push(uri);
+                }
+            }
+        } catch (err) {
+            connection.console.warn(`Error scanning directory ${folder.fsPath}: ${err}`);
+        }
+        return files;
+    }
+
+    // Forgets what was read from a folder, except the files in keep: all of it when the folder left the workspace.
+    // Open documents stay, as the editor still has them.
+    function evictWorkspaceFolder(folder: URI, keep = new Set<string>()) {
+        const prefix = folder.toString().endsWith('/') ? folder.toString() : folder.toString() + '/';
+        const evicted = (uri: string) => uri.startsWith(prefix) && !keep.has(uri) && !documents.get(uri);
+        for (const uri of Array.from(workspaceFiles).filter(evicted)) {
+            workspaceFiles.delete(uri);
+            service.removeFile(uri);
+            setFileCalls(uri, undefined);
+        }
+        workspaceIndex.prune(folder.toString(), keep);
+        service.getUserAttributeFileUris().filter(evicted).forEach(uri => service.unloadUserAttributeFile(uri));
+        Array.from(tbxCodeSections.keys()).filter(evicted).forEach(unloadTbxDocument);
+    }
+
+    function revalidateAll() {
+        documents.all().forEach(validateTextDocument);
+        tbxCodeSections.forEach((_, uri) => validateTbxDocument(uri));
+    }
+
+    function isActionCodeFile(uri: string): boolean {
+        return ['.tbxa', '.tbxc', '.tbxe', '.tbxtest'].includes(Utils.extname(URI.parse(uri)).toLowerCase());
+    }
+
+    // Unchanged files come from the persisted index without being read. A file over the size limit is forgotten.
+    async function indexFileForCache(uri: string) {
+        const location = findWorkspaceFolder(uri);
+        const maxFileSize = location ? (await getFileFilter(location.folder)).maxFileSize : undefined;
+        try {
+            const file = await workspaceIndex.refresh(uri, maxFileSize);
+            if (!file) {
+                connection.console.log(`Not indexing ${URI.parse(uri).fsPath}: larger than ${maxFileSize} bytes (tinderboxActionCodeServer.maxFileSize)`);
+                if (!documents.get(uri)) {
+                    workspaceFiles.delete(uri);
+                    service.removeFile(uri);
+                    setFileCalls(uri, undefined);
+                }
+                return;
+            }
+            workspaceFiles.add(uri);
+            // The symbols of an open document come from its text in the editor, which may not be saved yet
+            if (!documents.get(uri)) {
+                service.setFileSymbols(uri, file.symbols);
+                setFileCalls(uri, getFunctionCalls(file));
+            }
+        } catch (err) {
+            connection.console.warn(`Error indexing file ${URI.parse(uri).fsPath}: ${err}`);
+        }
+    }
+
+    interface TinderboxSettings extends FileFilterSettings {
+        maxNumberOfProblems: number;
+        language: string;
+        unusedFunctions?: {
+            enabled?: boolean;
+            entryPoints?: string[]; // Function names
+        };
+    }
+
+    // The global settings, used when the `workspace/configuration` request is not supported by the client.
+    const defaultSettings: TinderboxSettings = { maxNumberOfProblems: 1000, language: 'en' };
+    let globalSettings: TinderboxSettings = defaultSettings;
+
+    // Cache the settings of all open documents
+    const documentSettings: Map<string, Thenable<TinderboxSettings>> = new Map();
+
+    connection.onDidChangeConfiguration(change => {
+        if (hasConfigurationCapability) {
+            // Reset all cached document settings
+            documentSettings.clear();
+        } else {
+            globalSettings = <TinderboxSettings>(
+                (change.settings.tinderboxActionCodeServer || defaultSettings)
+            );
+        }
+
+        // Revalidate all open text documents
+        documents.all().forEach(validateTextDocument);
+
+        // Folders whose files.include, files.exclude or maxFileSize changed are scanned again
+        const previousFilters = new Map(fileFilters);
+        fileFilters.clear();
+        workspaceScan = workspaceScan.then(() => Promise.all(workspaceFolders.map(async folder => {
+            const previous = await previousFilters.get(folder.toString());
+            if (previous && previous.key !== (await getFileFilter(folder)).key) await scanWorkspaceFolder(folder);
+        })));
+    });
+
+    function getDocumentSettings(resource: string): Thenable<TinderboxSettings> {
+        if (!hasConfigurationCapability) {
+            return Promise.resolve(globalSettings);
+        }
+        let result = documentSettings.get(resource);
+        if (!result) {
+            result = connection.workspace.getConfiguration({
+                scopeUri: resource,
+                section: 'tinderboxActionCodeServer'
+            });
+            documentSettings.set(resource, result);
+        }
+        return result;
+    }
+
+    // Only keep settings for open documents
+    documents.onDidClose(e => {
+        documentSettings.delete(e.document.uri);
+    });
+
+    connection.onDocumentFormatting((params: DocumentFormattingParams): TextEdit[] => {
+        const { textDocument, options } = params;
+        const doc = documents.get(textDocument.uri);
+        if (!doc) return [];
+        return service.formattingEdits(doc.getText(), options, doc.languageId);
+    });
+
+    connection.onDocumentSymbol(async (params: DocumentSymbolParams): Promise<DocumentSymbol[]> => {
+        await service.loaded;
+        const doc = documents.get(params.textDocument.uri);
+        if (!doc) {
+            return [];
+        }
+        return service.symbols(doc.getText());
+    });
+
+    connection.onWorkspaceSymbol((params: WorkspaceSymbolParams): SymbolInformation[] => {
+        return service.workspaceSymbols(params.query);
+    });
+
+    connection.onPrepareRename(async (params: TextDocumentPositionParams): Promise<PrepareRenameResult | null> => {
+        await service.loaded;
+        const doc = documents.get(params.textDocument.uri);
+        if (!doc) return null;
+        return service.prepareRename(doc.getText(), doc.offsetAt(params.position));
+    });
+
+    connection.onRenameRequest(async (params: RenameParams): Promise<WorkspaceEdit | null> => {
+        await service.loaded;
+        const { textDocument, position, newName } = params;
+        const doc = documents.get(textDocument.uri);
+        if (!doc) return null;
+
+        const offset = doc.offsetAt(position);
+        const locations = await getReferenceLocations(doc, offset);
+
+        if (!locations || locations.length === 0) return null;
+
+        const changes: { [uri: string]: TextEdit[] } = {};
+        locations.forEach(loc => {
+            if (!changes[loc.uri]) changes[loc.uri] = [];
+            changes[loc.uri].push(TextEdit.replace(loc.range, newName));
+        });
+
+        return { changes };
+    });
+
+    connection.languages.inlayHint.on(async (params: InlayHintParams): Promise<InlayHint[]> => {
+        await service.loaded;
+        const doc = documents.get(params.textDocument.uri);
+        if (!doc) return [];
+        return service.inlayHints(doc.getText());
+    });
+
+    const validationDelay = 200; // ms
+    const pendingValidationRequests = new Map<string, ReturnType<typeof setTimeout>>();
+
+    // The content of a text document has changed. This event is emitted
+    // when the text document first opened or when its content has changed.
+    documents.onDidChangeContent(change => {
+        const uri = change.document.uri;
+        // Test results refer to the previous text
+        testResults.delete(uri);
+        if (pendingValidationRequests.has(uri)) {
+            clearTimeout(pendingValidationRequests.get(uri)!);
+        }
+        const timeout = setTimeout(() => {
+            // The document's own calls count when its unused functions are reported
+            updateDocumentCache(change.document);
+            validateTextDocument(change.document);
+            pendingValidationRequests.delete(uri);
+        }, validationDelay);
+        pendingValidationRequests.set(uri, timeout);
+    });
+
+    async function updateDocumentCache(doc: TextDocument) {
+        workspaceFiles.add(doc.uri);
+        const functionsChanged = service.updateFile(doc.uri, doc.getText());
+        const callsChanged = setFileCalls(doc.uri, getFunctionCalls(indexText(doc.uri, doc.getText())));
+        if (functionsChanged || callsChanged) {
+            // Other documents may call these functions, define them too, or define the functions this one calls
+            documents.all().filter(other => other.uri !== doc.uri).forEach(validateTextDocument);
+        }
+    }
+
+    // A closed file is back to its text on disk, which may have been saved in the meantime
+    documents.onDidClose(e => {
+        if (workspaceIndex.has(e.document.uri)) {
+            indexFileForCache(e.document.uri).then(() => documents.all().forEach(validateTextDocument));
+        } else if (setFileCalls(e.document.uri, undefined)) {
+            documents.all().forEach(validateTextDocument);
+        }
+    });
+
+    async function validateTextDocument(textDocument: TextDocument): Promise<void> {
+        const diagnostics = await getDocumentDiagnostics(textDocument);
+        connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
+    }
+
+    async function getDocumentDiagnostics(textDocument: TextDocument): Promise<Diagnostic[]> {
+        await service.loaded;
+        // Note documents holding $AgentQuery or $DisplayExpression are single expressions without semicolons
+        const diagnostics = service.validate(textDocument.getText(), textDocument.languageId, {
+            ...getNoteDocumentOptions(textDocument.uri),
+            uri: textDocument.uri,
+            relatedInformation: hasDiagnosticRelatedInformationCapability
+        });
+        if (textDocument.languageId !== EXPORT_CODE_LANGUAGE_ID) {
+            diagnostics.push(...await getTestDiagnostics(textDocument));
+            diagnostics.push(...await getUnusedFunctionDiagnostics(textDocument));
+        }
+        return diagnostics;
+    }
+
+    // --- Unused Functions ---
+    // A user function that no action code, export code or note code of the workspace calls is reported as a hint.
+    // Functions called from outside the workspace, e.g. by the stamps of a document that is not in it, are exempt
+    // when documented with `// @entrypoint` or listed in the tinderboxActionCodeServer.unusedFunctions.entryPoints setting.
+    let workspaceScanned = false; // Until then, the calls of files not scanned yet are missing
+
+    // The functions each file calls: an open document as in the editor, other files as on disk, and a .tbx
+    // document's code sections together. functionCallCounts follows them, so no check reads the whole workspace.
+    const fileCalls = new Map<string, Set<string>>(); // Key: file URI
+    const functionCallCounts = new Map<string, number>(); // Key: function name, Value: number of files calling it
+
+    function getFunctionCalls(index: FileIndex, calls = new Set<string>()): Set<string> {
+        for (const call of index.calls) {
+            // A function that only calls itself is still unused
+            if (call.caller !== undefined && index.symbols[call.caller].name === call.callee) continue;
+            calls.add(call.callee);
+        }
+        return calls;
+    }
+
+    // Replaces the calls of a file, or forgets them; returns whether they changed
+    function setFileCalls(uri: string, calls: Set<string> | undefined): boolean {
+        const previous = fileCalls.get(uri);
+        if (previous && calls && previous.size === calls.size && Array.from(calls).every(name => previous.has(name))) return false;
+        if (!previous && !calls) return false;
+        for (const name of previous || []) {
+            const count = functionCallCounts.get(name)! - 1;
+            if (count > 0) functionCallCounts.set(name, count);
+            else functionCallCounts.delete(name);
+        }
+        for (const name of calls || []) {
+            functionCallCounts.set(name, (functionCallCounts.get(name) || 0) + 1);
+        }
+        if (calls) fileCalls.set(uri, calls);
+        else fileCalls.delete(uri);
+        return true;
+    }
+
+    async function getUnusedFunctionDiagnostics(textDocument: TextDocument): Promise<Diagnostic[]> {
+        const settings = await getDocumentSettings(textDocument.uri);
+        if (!workspaceScanned || settings?.unusedFunctions?.enabled === false) return [];
+        const entryPoints = new Set(settings?.unusedFunctions?.entryPoints || []);
+        const functions = indexText(textDocument.uri, textDocument.getText()).symbols
+            .filter(symbol => symbol.kind === SymbolKind.Function && !symbol.entrypoint && !entryPoints.has(symbol.name));
+        if (functions.length === 0) return [];
+
+        return functions.filter(symbol => !functionCallCounts.has(symbol.name)).map(symbol => ({
+            severity: DiagnosticSeverity.Hint,
+            range: symbol.selectionRange,
+            message: `Unused function: '${symbol.name}' is not called anywhere in the workspace. Mark it with '// @entrypoint' if it is called from outside, e.g. by a stamp.`,
+            tags: [DiagnosticTag.Unnecessary],
+            source: 'Tinderbox Action Code'
+        }));
+    }
+
+    // --- Command Line ---
+    // tbx-lint (see lint.ts) starts this server and asks for the diagnostics of files on disk. It waits
+    // for the workspace scan, so user functions and attributes declared anywhere in the workspace are known.
+
+    interface LintFilesResult {
+        uri: string;
+        diagnostics: Diagnostic[];
+    }
+
+    connection.onRequest('tinderbox/lintFiles', async (params: { uris: string[] }): Promise<LintFilesResult[]> => {
+        await workspaceScan;
+        const results: LintFilesResult[] = [];
+        for (const uri of params.uris) {
+            const languageId = Utils.extname(URI.parse(uri)).toLowerCase() === '.tbxe' ? 'tinderbox-export-code' : 'tinderbox-action-code';
+            const document = documents.get(uri) || TextDocument.create(uri, languageId, 0, await readFileIfExists(uri));
+            results.push({ uri, diagnostics: await getDocumentDiagnostics(document) });
+        }
+        return results;
+    });
+
+    const workspaceFiles = new Set<string>();
+
+    connection.onDidChangeWatchedFiles(async params => {
+        // Files added, edited or deleted outside the editor, e.g. by a `git pull`
+        let declarationsChanged = false;
+        for (const event of params.changes) {
+            const uri = event.uri;
+            // Files the settings exclude are not read; a deleted one is forgotten all the same
+            if (event.type !== FileChangeType.Deleted && !await isWorkspaceFileIncluded(uri)) continue;
+            if (isUserAttributeFile(uri)) {
+                if (event.type === FileChangeType.Deleted) service.unloadUserAttributeFile(uri);
+                else await loadUserAttributeFile(uri);
+                declarationsChanged = true;
+                continue;
+            }
+            if (isTbxFile(uri)) {
+                if (event.type === FileChangeType.Deleted) unloadTbxDocument(uri);
+                else await loadTbxDocument(uri);
+                declarationsChanged = true;
+                continue;
+            }
+            if (!isActionCodeFile(uri)) continue;
+            if (event.type === FileChangeType.Deleted) {
+                workspaceFiles.delete(uri);
+                workspaceIndex.delete(uri);
+                service.removeFile(uri);
+                if (!documents.get(uri)) setFileCalls(uri, undefined);
+            } else {
+                await indexFileForCache(uri);
+            }
+            // Saving an open document changes nothing the server did not already know from the editor
+            if (!documents.get(uri)) declarationsChanged = true;
+        }
+        // Functions and attributes declared in other files may have appeared, changed or gone
+        if (declarationsChanged) revalidateAll();
+    });
+
+    // --- User Attribute Declarations ---
+    // A workspace can declare its user attributes in `tinderbox-attributes.json` or any `*.tbxattrs` file:
+    // [{ "name": "MyDueDate", "type": "date", "default": "", "description": "When the task is due" }]
+    // They join the system attributes of the language service, so completion, hover and type checks treat them like built-ins.
+    const USER_ATTRIBUTE_FILE_NAME = 'tinderbox-attributes.json';
+    const USER_ATTRIBUTE_EXTENSION = '.tbxattrs';
+
+    function isUserAttributeFile(uri: string): boolean {
+        const parsed = URI.parse(uri);
+        return Utils.basename(parsed).toLowerCase() === USER_ATTRIBUTE_FILE_NAME || Utils.extname(parsed).toLowerCase() === USER_ATTRIBUTE_EXTENSION;
+    }
+
+    async function loadUserAttributeFile(uri: string) {
+        await service.loaded;
+        let content: string;
+        try {
+            content = await fileSystem.readFile(uri);
+        } catch (err) {
+            service.unloadUserAttributeFile(uri);
+            connection.console.warn(`Could not load user attributes from ${uri}: ${err}`);
+            return;
+        }
+        service.loadUserAttributeFile(uri, content);
+    }
+
+    // --- Tinderbox Documents ---
+    // `.tbx` files in the workspace are read directly (no running Tinderbox needed). Their user attributes
+    // join systemAttributes; prototype and link type names back completion and validation of string arguments.
+    const tbxModifiedTimes = new Map<string, number>(); // Key: .tbx file URI, Value: mtime (ms) when it was read
+
+    function isTbxFile(uri: string): boolean {
+        return Utils.extname(URI.parse(uri)).toLowerCase() === '.tbx';
+    }
+
+    function unloadTbxDocument(uri: string) {
+        if (service.unloadTbxDocument(uri)) {
+            tbxCodeSections.delete(uri);
+            setFileCalls(uri, undefined);
+            tbxModifiedTimes.delete(uri);
+            connection.sendDiagnostics({ uri, diagnostics: [] });
+            connection.sendNotification('tinderbox/noteDocumentsChanged', { uri });
+        }
+    }
+
+    async function loadTbxDocument(uri: string) {
+        await service.loaded;
+        unloadTbxDocument(uri);
+
+        let tbx: TbxDocument;
+        let mtime: number;
+        try {
+            mtime = (await fileSystem.stat(uri)).mtime;
+            tbx = parseTbxDocument(await fileSystem.readFile(uri));
+        } catch (err) {
+            connection.console.warn(`Could not read Tinderbox document ${uri}: ${err}`);
+            return;
+        }
+        service.loadTbxDocument(uri, tbx);
+        tbxModifiedTimes.set(uri, mtime);
+        const sections = getCodeSections(tbx);
+        tbxCodeSections.set(uri, sections);
+        const calls = new Set<string>();
+        sections.forEach(section => getFunctionCalls(indexText(getNoteDocumentUri(uri, section), section.code), calls));
+        setFileCalls(uri, calls);
+        connection.sendNotification('tinderbox/noteDocumentsChanged', { uri });
+        await validateTbxDocument(uri);
+    }
+
+    // --- Note Documents ---
+    // Action code in .tbx files is exposed as virtual documents (see noteDocuments.ts). The client fetches
+    // their text with 'tinderbox/noteDocumentContent'; once open they are validated like any other document.
+    const tbxCodeSections = new Map<string, TbxCodeSection[]>(); // Key: .tbx file URI
+
+    // The one section a note document URI refers to
+    function resolveNoteDocument(uri: string): NoteDocumentSection | undefined {
+        const sections = findNoteDocumentSections(uri, tbxCodeSections);
+        return sections.length === 1 ? sections[0] : undefined;
+    }
+
+    function getNoteDocumentOptions(uri: string): { suppressSemicolon?: boolean, isCondition?: boolean } {
+        const parsed = URI.parse(uri);
+        if (parsed.scheme !== NOTE_DOCUMENT_SCHEME || !EXPRESSION_ATTRIBUTES.includes(parsed.fragment)) return {};
+        return { suppressSemicolon: true, isCondition: parsed.fragment === 'AgentQuery' };
+    }
+
+    // Validates every code section of a .tbx file and publishes the results on the .tbx file itself,
+    // each message naming the note path and attribute it came from
+    async function validateTbxDocument(tbxUri: string) {
+        const tbx = service.getTbxDocument(tbxUri);
+        if (!tbx) return;
+        const tbxTextDocument = TextDocument.create(tbxUri, 'xml', 0, tbx.text);
+        const diagnostics: Diagnostic[] = [];
+        for (const section of tbxCodeSections.get(tbxUri) || []) {
+            const noteDocument = TextDocument.create(getNoteDocumentUri(tbxUri, section), 'tinderbox-action-code', 0, section.code);
+            for (const diagnostic of await getDocumentDiagnostics(noteDocument)) {
+                const start = section.offsets[noteDocument.offsetAt(diagnostic.range.start)];
+                const end = section.offsets[noteDocument.offsetAt(diagnostic.range.end)];
+                diagnostics.push({
+                    ...diagnostic,
+                    range: Range.create(tbxTextDocument.positionAt(start), tbxTextDocument.positionAt(end)),
+                    message: `${describeCodeSection(section)}: ${diagnostic.message}`,
+                    data: undefined // Quick fix data refers to the note document, not the .tbx file
+                });
+            }
+        }
+        connection.sendDiagnostics({ uri: tbxUri, diagnostics });
+    }
+
+    connection.onRequest('tinderbox/noteDocumentContent', (params: { uri: string }): string | null => {
+        return resolveNoteDocument(params.uri)?.section.code ?? null;
+    });
+
+    connection.onRequest('tinderbox/noteDocumentStat', (params: { uri: string }): { mtime: number, size: number } | null => {
+        const resolved = resolveNoteDocument(params.uri);
+        if (!resolved) return null;
+        return { mtime: tbxModifiedTimes.get(resolved.tbxUri) || 0, size: new TextEncoder().encode(resolved.section.code).length };
+    });
+
+    // Saving a note document writes the code back into its element of the .tbx file (see saveNoteDocument)
+    connection.onRequest('tinderbox/writeNoteDocument', async (params: { uri: string, content: string }): Promise<void> => {
+        let tbxUri: string;
+        try {
+            tbxUri = await saveNoteDocument(fileSystem, params.uri, params.content, tbxCodeSections, uri => service.getTbxDocument(uri));
+        } catch (err) {
+            if (!(err instanceof NoteDocumentError)) throw err;
+            connection.console.warn(err.message);
+            throw new ResponseError(err.modified ? LSPErrorCodes.ContentModified : ErrorCodes.InvalidParams, err.message);
+        }
+        await loadTbxDocument(tbxUri);
+    });
+
+    // Lists every note document in the workspace, for the client's "Open Note Action Code" picker
+    connection.onRequest('tinderbox/noteDocuments', () => {
+        const result: { uri: string, label: string, description: string }[] = [];
+        for (const [tbxUri, sections] of tbxCodeSections) {
+            for (const section of sections) {
+                result.push({
+                    uri: getNoteDocumentUri(tbxUri, section),
+                    label: describeCodeSection(section),
+                    description: URI.parse(tbxUri).path // Tells apart .tbx files with the same name
+                });
+            }
+        }
+        return result;
+    });
+
+    // --- Evaluation ---
+    // Runs the selected code (or the whole document) through the interpreter. Attribute values come from
+    // the request; any other attribute reads as its default value. Assignments change only a copy, and the
+    // changed attributes are reported along with the result.
+
+    const EVALUATE_COMMAND = 'tinderboxActionCode.evaluate';
+
+    interface EvaluateParams {
+        textDocument: { uri: string };
+        range?: Range; // Defaults to the whole document
+        attributes?: { [name: string]: unknown }; // e.g. { "Name": "Meeting", "Tags": ["a", "b"] }
+    }
+
+    interface EvaluateResult {
+        value?: string; // Absent when the code ends with a statement that has no value
+        type?: ValueType;
+        attributes?: { [name: string]: string }; // Attributes the code assigned to
+        error?: string;
+        range?: Range; // Where the error occurred
+    }
+
+    function getOpenDocument(uri: string): TextDocument {
+        const document = documents.get(uri);
+        if (!document) {
+            throw new ResponseError(ErrorCodes.InvalidParams, `${uri} is not an open document.`);
+        }
+        return document;
+    }
+
+    // The language service reports errors as offsets into the code it ran; range is where that code starts in the document
+    function toErrorRange(document: TextDocument, range: Range | undefined, error: EvaluationFailure): Range {
+        const baseOffset = range ? document.offsetAt(range.start) : 0;
+        return Range.create(document.positionAt(baseOffset + error.start), document.positionAt(baseOffset + error.end));
+    }
+
+    async function evaluateDocument(params: EvaluateParams): Promise<EvaluateResult> {
+        const document = getOpenDocument(params.textDocument.uri);
+        await service.loaded;
+        const { value, attributes, error } = service.evaluate(document.getText(params.range), params.attributes);
+        if (error) {
+            return { error: error.message, range: toErrorRange(document, params.range, error) };
+        }
+        const result: EvaluateResult = value ? { value: toText(value), type: value.type } : {};
+        if (attributes && attributes.size > 0) {
+            result.attributes = {};
+            for (const [name, v] of attributes) result.attributes[name] = toText(v);
+        }
+        return result;
+    }
+
+    connection.onRequest('tinderbox/evaluate', (params: EvaluateParams): Promise<EvaluateResult> => evaluateDocument(params));
+
+    // --- Simulation ---
+    // Runs a rule, edict or stamp from an open document against notes of a fixture (a mock document in
+    // JSON, see fixture.ts) and reports the attribute changes. The fixture is read from disk on every
+    // request, so edits to it apply immediately.
+
+    const SIMULATE_COMMAND = 'tinderboxActionCode.simulate';
+
+    interface SimulateParams {
+        textDocument: { uri: string };
+        range?: Range; // Defaults to the whole document
+        fixture: string; // URI of the fixture file
+        notes: string[]; // Outline paths or names of the notes to run the code on, in order
+    }
+
+    interface SimulateResult {
+        changes: AttributeChange[];
+        value?: string;
+        type?: ValueType;
+        error?: string;
+        range?: Range;
+    }
+
+    async function readFixture(uri: string) {
+        try {
+            return parseFixture(await fileSystem.readFile(uri));
+        } catch (err) {
+            const reason = err instanceof FixtureError ? err.message : `Could not read the fixture: ${err instanceof Error ? err.message : String(err)}`;
+            throw new ResponseError(ErrorCodes.InvalidParams, `${Utils.basename(URI.parse(uri))}: ${reason}`);
+        }
+    }
+
+    async function simulateDocument(params: SimulateParams): Promise<SimulateResult> {
+        const document = getOpenDocument(params.textDocument.uri);
+        const fixture = await readFixture(params.fixture);
+        const notes = params.notes.map(reference => {
+            const note = findFixtureNote(fixture, reference);
+            if (!note) throw new ResponseError(ErrorCodes.InvalidParams, `'${reference}' is not a note of the fixture.`);
+            return note;
+        });
+
+        await service.loaded;
+        const { value, changes, error } = service.simulate(fixture, notes, document.getText(params.range));
+        if (error) {
+            return { changes: [], error: error.message, range: toErrorRange(document, params.range, error) };
+        }
+        return value ? { changes, value: toText(value), type: value.type } : { changes };
+    }
+
+    connection.onRequest('tinderbox/simulate', (params: SimulateParams): Promise<SimulateResult> => simulateDocument(params));
+
+    // Runs an agent query from an open document (the selection, or the whole text) over every note of a
+    // fixture. The query must be a single boolean expression without assignments.
+
+    const RUN_AGENT_QUERY_COMMAND = 'tinderboxActionCode.runAgentQuery';
+
+    interface RunAgentQueryParams {
+        textDocument: { uri: string };
+        range?: Range; // Defaults to the whole document
+        fixture: string; // URI of the fixture file
+    }
+
+    interface RunAgentQueryResult {
+        matches: string[];
+        notes: { path: string, matched: boolean, failures: { message: string, range: Range }[] }[];
+        error?: string;
+        range?: Range;
+    }
+
+    async function runAgentQueryOnDocument(params: RunAgentQueryParams): Promise<RunAgentQueryResult> {
+        const document = getOpenDocument(params.textDocument.uri);
+        const fixture = await readFixture(params.fixture);
+        await service.loaded;
+        const { matches, notes, error } = service.runAgentQuery(fixture, document.getText(params.range));
+        if (error) {
+            return { matches: [], notes: [], error: error.message, range: toErrorRange(document, params.range, error) };
+        }
+        return {
+            matches,
+            notes: notes.map(note => ({
+                path: note.path,
+                matched: note.matched,
+                failures: note.failures.map(failure => ({ message: failure.message, range: toErrorRange(document, params.range, failure) }))
+            }))
+        };
+    }
+
+    connection.onRequest('tinderbox/runAgentQuery', (params: RunAgentQueryParams): Promise<RunAgentQueryResult> => runAgentQueryOnDocument(params));
+
+    // Lists the notes of a fixture, for the client's note picker
+    connection.onRequest('tinderbox/fixtureNotes', async (params: { fixture: string }) => {
+        const fixture = await readFixture(params.fixture);
+        return fixture.notes.map(note => ({ path: note.path, prototype: note.prototype, isPrototype: note.isPrototype }));
+    });
+
+    // --- Tests ---
+    // `// @test` and `// @expect` annotations (see testing.ts) run on demand through the code lens above
+    // each test or the runTests command. Any user function of the workspace can be called. Failures are
+    // published as diagnostics until the document changes.
+
+    const RUN_TESTS_COMMAND = 'tinderboxActionCode.runTests';
+
+    const testResults: Map<string, TestResult[]> = new Map();
+
+    // Functions of every indexed workspace file, with those of the document itself taking precedence
+    async function getLibraryFunctions(uri: string): Promise<LibraryFunction[]> {
+        const functions = new Map<string, LibraryFunction>();
+        const uris = service.getFunctionFileUris().filter(symbolUri => symbolUri !== uri);
+
+        for (const source of [...uris, uri]) {
+            let text = documents.get(source)?.getText();
+            if (text === undefined) {
+                try {
+                    text = await fileSystem.readFile(source);
+                } catch {
+                    continue;
+                }
+            }
+            const { program } = parse(text);
+            for (const stmt of program.body) {
+                if (stmt.kind === 'FunctionDeclaration' && stmt.name.name) {
+                    functions.set(stmt.name.name, { declaration: stmt, text, source });
+                }
+            }
+        }
+        return Array.from(functions.values());
+    }
+
+    async function getTestDiagnostics(textDocument: TextDocument): Promise<Diagnostic[]> {
+        const diagnostics: Diagnostic[] = [];
+        for (const result of testResults.get(textDocument.uri) || []) {
+            for (const failure of result.failures) {
+                const expectationRange = Range.create(textDocument.positionAt(failure.expectation.start), textDocument.positionAt(failure.expectation.end));
+                const diagnostic: Diagnostic = {
+                    severity: DiagnosticSeverity.Error,
+                    range: failure.source === undefined
+                        ? Range.create(textDocument.positionAt(failure.start), textDocument.positionAt(failure.end))
+                        : expectationRange,
+                    message: `Test Failed: ${result.test.name}: ${failure.message}`,
+                    source: 'Tinderbox Action Code'
+                };
+                // An error inside a library function points at the function's code
+                if (failure.source !== undefined && hasDiagnosticRelatedInformationCapability) {
+                    const sourceDocument = documents.get(failure.source)
+                        || TextDocument.create(failure.source, 'tinderbox-action-code', 0, await readFileIfExists(failure.source));
+                    diagnostic.relatedInformation = [DiagnosticRelatedInformation.create(
+                        Location.create(failure.source, Range.create(sourceDocument.positionAt(failure.start), sourceDocument.positionAt(failure.end))),
+                        failure.message
+                    )];
+                }
+                diagnostics.push(diagnostic);
+            }
+        }
+        return diagnostics;
+    }
+
+    async function readFileIfExists(uri: string): Promise<string> {
+        try {
+            return await fileSystem.readFile(uri);
+        } catch {
+            return '';
+        }
+    }
+
+    connection.onCodeLens((params: CodeLensParams): CodeLens[] => {
+        const document = documents.get(params.textDocument.uri);
+        if (!document || document.languageId !== 'tinderbox-action-code') return [];
+        const results = testResults.get(document.uri) || [];
+        return findTests(document.getText()).map(test => {
+            const result = results.find(r => r.test.start === test.start);
+            const title = !result ? '▶ Run test'
+                : result.passed ? '✔ passed'
+                    : `✘ failed (${result.failures.length} of ${Math.max(test.expectations.length, 1)})`;
+            return {
+                range: Range.create(document.positionAt(test.start), document.positionAt(test.end)),
+                command: { title, command: RUN_TESTS_COMMAND, arguments: [document.uri, test.start] }
+            };
+        });
+    });
+
+    // Runs every test of the document, or only the one starting at testStart
+    async function runDocumentTests(uri: string, testStart?: number): Promise<{ passed: number, failed: number }> {
+        const document = getOpenDocument(uri);
+        const functions = await getLibraryFunctions(uri);
+        await service.loaded;
+        const results = service.runTests(document.getText(), functions, testStart);
+
+        const previous = (testResults.get(uri) || []).filter(r => !results.some(result => result.test.start === r.test.start));
+        testResults.set(uri, [...previous, ...results].sort((a, b) => a.test.start - b.test.start));
+
+        validateTextDocument(document);
+        if (hasCodeLensRefreshCapability) {
+            connection.sendRequest(CodeLensRefreshRequest.type);
+        }
+        return { passed: results.filter(r => r.passed).length, failed: results.filter(r => !r.passed).length };
+    }
+
+    // --- Debugging ---
+    // The client's debug adapter asks for a recording of a whole run (see debugging.ts) and steps through
+    // it. Offsets are turned into ranges here, in the document or in the library file a frame is in.
+
+    interface DebugRunParams {
+        textDocument: { uri: string };
+        fixture: string; // URI of the fixture file
+        note: string; // Outline path or name of the note to run the code on
+    }
+
+    interface DebugLocation {
+        uri: string;
+        range: Range;
+    }
+
+    interface DebugRunResult {
+        steps: {
+            frames: (DebugLocation & { name: string, variables: DebugVariable[] })[]; // Innermost first
+            note?: string;
+            attributes: DebugVariable[];
+        }[];
+        changes: AttributeChange[];
+        value?: string;
+        type?: ValueType;
+        error?: DebugLocation & { message: string };
+    }
+
+    async function debugRun(params: DebugRunParams): Promise<DebugRunResult> {
+        const uri = params.textDocument.uri;
+        const document = documents.get(uri) || TextDocument.create(uri, 'tinderbox-action-code', 0, await readFileIfExists(uri));
+        const fixture = await readFixture(params.fixture);
+        const note = findFixtureNote(fixture, params.note);
+        if (!note) {
+            throw new ResponseError(ErrorCodes.InvalidParams, `'${params.note}' is not a note of the fixture.`);
+        }
+
+        const functions = await getLibraryFunctions(uri);
+        await service.loaded;
+        const recording = service.recordRun(fixture, note, document.getText(), functions);
+
+        // Frames without a source are in the document itself
+        const texts = new Map<string, TextDocument>([[uri, document]]);
+        for (const fn of functions) {
+            if (fn.source !== undefined && !texts.has(fn.source)) {
+                texts.set(fn.source, TextDocument.create(fn.source, 'tinderbox-action-code', 0, fn.text));
+            }
+        }
+        const locate = (source: string | undefined, start: number, end: number): DebugLocation => {
+            const text = texts.get(source ?? uri) || document;
+            return { uri: source ?? uri, range: Range.create(text.positionAt(start), text.positionAt(end)) };
+        };
+
+        const result: DebugRunResult = {
+            steps: recording.steps.map(step => ({
+                frames: step.frames.map(frame => ({ name: frame.name, variables: frame.variables, ...locate(frame.source, frame.start, frame.end) })),
+                note: step.note,
+                attributes: step.attributes
+            })),
+            changes: recording.changes
+        };
+        if (recording.value) {
+            result.value = toText(recording.value);
+            result.type = recording.value.type;
+        }
+        if (recording.error) {
+            const { message, source, start, end } = recording.error;
+            result.error = { message, ...locate(source, start, end) };
+        }
+        return result;
+    }
+
+    connection.onRequest('tinderbox/debugRun', (params: DebugRunParams): Promise<DebugRunResult> => debugRun(params));
+
+    // EVALUATE_COMMAND arguments: uri, range?, attributes?
+    // SIMULATE_COMMAND arguments: uri, fixture uri, note paths, range?
+    // RUN_AGENT_QUERY_COMMAND arguments: uri, fixture uri, range?
+    // RUN_TESTS_COMMAND arguments: uri, test start offset?
+    connection.onExecuteCommand(params => {
+        const args = params.arguments || [];
+        if (typeof args[0] !== 'string') {
+            throw new ResponseError(ErrorCodes.InvalidParams, `${params.command} expects a document URI as its first argument.`);
+        }
+        switch (params.command) {
+            case EVALUATE_COMMAND:
+                return evaluateDocument({ textDocument: { uri: args[0] }, range: args[1], attributes: args[2] });
+            case SIMULATE_COMMAND:
+                return simulateDocument({ textDocument: { uri: args[0] }, fixture: args[1], notes: args[2] || [], range: args[3] });
+            case RUN_AGENT_QUERY_COMMAND:
+                return runAgentQueryOnDocument({ textDocument: { uri: args[0] }, fixture: args[1], range: args[2] });
+            case RUN_TESTS_COMMAND:
+                return runDocumentTests(args[0], args[1]);
+        }
+        return undefined;
+    });
+
+    // This handler provides the initial list of the completion items.
+    connection.onCompletion(
+        async (textDocumentPosition: TextDocumentPositionParams): Promise<CompletionItem[]> => {
+            await service.loaded;
+            const document = documents.get(textDocumentPosition.textDocument.uri);
+            if (!document) return [];
+
+            const settings = await getDocumentSettings(textDocumentPosition.textDocument.uri);
+            return service.complete(document.getText(), document.offsetAt(textDocumentPosition.position), {
+                languageId: document.languageId,
+                language: settings.language
+            });
+        }
+    );
+
+    // --- Completion Resolve Handler ---
+    connection.onCompletionResolve(
+        async (item: CompletionItem): Promise<CompletionItem> => {
+            await service.loaded;
+            return service.resolveCompletion(item);
+        }
+    );
+
+    connection.languages.semanticTokens.on((params: SemanticTokensParams) => {
+        const doc = documents.get(params.textDocument.uri);
+        if (!doc) return { data: [] };
+        return service.semanticTokens(doc.getText(), doc.languageId);
+    });
+
+    // --- Hover Handler ---
+    connection.onHover(
+        async (textDocumentPosition: TextDocumentPositionParams): Promise<Hover | null> => {
+            await service.loaded;
+            const document = documents.get(textDocumentPosition.textDocument.uri);
+            if (!document) return null;
+            const settings = await getDocumentSettings(textDocumentPosition.textDocument.uri);
+            return service.hover(document.getText(), document.offsetAt(textDocumentPosition.position), {
+                languageId: document.languageId,
+                language: settings.language
+            });
+        }
+    );
+
+    // --- Signature Help Handler ---
+    connection.onSignatureHelp(async (params): Promise<SignatureHelp | null> => {
+        await service.loaded;
+        const doc = documents.get(params.textDocument.uri);
+        if (!doc) return null;
+        const settings = await getDocumentSettings(params.textDocument.uri);
+        return service.signatureHelp(doc.getText(), doc.offsetAt(params.position), {
+            languageId: doc.languageId,
+            language: settings.language
+        });
+    });
+
+    connection.onDefinition(
+        async (params: TextDocumentPositionParams): Promise<Definition | null> => {
+            await service.loaded;
+            const document = documents.get(params.textDocument.uri);
+            if (!document) return null;
+            return service.definition(document.getText(), document.offsetAt(params.position), document.uri, document.languageId, documents.all());
+        }
+    );
+
+    async function getReferenceLocations(doc: TextDocument, offset: number): Promise<Location[]> {
+        const text = doc.getText();
+        const tokens = tokenize(text);
+
+        const targetToken = tokens.find(t =>
+            (t.type === 'Identifier' || t.type === 'Keyword') &&
+            offset >= t.start && offset <= t.start + t.length
+        );
+        if (!targetToken) return [];
+        const targetName = targetToken.value;
+
+        const functionScope = findContainingFunctionDeclaration(text, offset);
+
+        let isLocal = false;
+        if (functionScope) {
+            for (let i = 0; i < tokens.length; i++) {
+                const t = tokens[i];
+                if (t.start >= functionScope.start && t.start + t.length <= functionScope.end) {
+                    if (t.type === 'Identifier' && t.value === targetName) {
+                        if (isDeclaration(tokens, i, functionScope.start)) {
+                            isLocal = true;
+                            break;
+                        }
+                    }
+                }
+            }
+        }
+
+        const searchStart = isLocal && functionScope ? functionScope.start : 0;
+        const searchEnd = isLocal && functionScope ? functionScope.end : text.length;
+
+        const references: Location[] = [];
+        for (const t of tokens) {
+            if (t.type === 'Identifier' && t.value === targetName) {
+                if (t.start >= searchStart && t.start + t.length <= searchEnd) {
+                    references.push(
+                        Location.create(doc.uri, Range.create(doc.positionAt(t.start), doc.positionAt(t.start + t.length)))
+                    );
+                }
+            }
+        }
+        // Workspace search for global symbols
+        if (!isLocal && service.isUserFunction(targetName)) {
+            for (const uri of workspaceFiles) {
+                if (uri === doc.uri) continue;
+                for (const reference of getFileIndex(uri)?.references || []) {
+                    if (reference.name === targetName) references.push(Location.create(uri, reference.range));
+                }
+            }
+        }
+
+        return references;
+    }
+
+    connection.onReferences(async (params: ReferenceParams): Promise<Location[] | null> => {
+        await service.loaded;
+        const doc = documents.get(params.textDocument.uri);
+        if (!doc) return null;
+
+        return await getReferenceLocations(doc, doc.offsetAt(params.position));
+    });
+
+    connection.onDocumentHighlight(async (params: DocumentHighlightParams): Promise<DocumentHighlight[] | null> => {
+        await service.loaded;
+        const doc = documents.get(params.textDocument.uri);
+        if (!doc) return null;
+
+        const locations = await getReferenceLocations(doc, doc.offsetAt(params.position));
+        if (!locations) return null;
+
+        return locations.filter(loc => loc.uri === doc.uri).map(loc => ({
+            range: loc.range,
+            kind: DocumentHighlightKind.Text
+        }));
+    });
+
+    connection.onCodeAction((params: CodeActionParams): CodeAction[] => {
+        const doc = documents.get(params.textDocument.uri);
+        if (!doc) return [];
+        return service.codeActions(doc.getText(), doc.uri, params.range, params.context.diagnostics);
+    });
+
+    // The index of a workspace file: from the editor's text while the file is open, else as persisted
+    function getFileIndex(uri: string): FileIndex | undefined {
+        const document = documents.get(uri);
+        return document ? indexText(uri, document.getText()) : workspaceIndex.get(uri);
+    }
+
+    function rangeContains(outer: Range, inner: Range): boolean {
+        const before = (a: Range['start'], b: Range['start']) => a.line < b.line || (a.line === b.line && a.character <= b.character);
+        return before(outer.start, inner.start) && before(inner.end, outer.end);
+    }
+
+    connection.languages.callHierarchy.onPrepare(async (params) => {
+        const doc = documents.get(params.textDocument.uri);
+        if (!doc) return null;
+        const text = doc.getText();
+        const offset = doc.offsetAt(params.position);
+        const tokens = tokenize(text);
+        const targetToken = tokens.find(t => (t.type === 'Identifier' || t.type === 'Keyword') && offset >= t.start && offset <= t.start + t.length);
+        if (!targetToken) return null;
+
+        let item: { name: string, range: Range, selectionRange: Range, uri: string } | undefined;
+        const symbols = extractSymbolsFromText(text, doc.uri, doc);
+        const funcSym = symbols.find(s => s.name === targetToken.value && s.kind === SymbolKind.Function);
+        if (funcSym) {
+            item = {
+                name: funcSym.name,
+                range: funcSym.location.range,
+                selectionRange: funcSym.selectionRange,
+                uri: doc.uri
+            };
+        } else {
+            const globalFunc = service.findFunction(targetToken.value);
+            if (globalFunc) {
+                item = {
+                    name: globalFunc.symbol.name,
+                    range: globalFunc.symbol.location.range,
+                    selectionRange: globalFunc.symbol.selectionRange,
+                    uri: globalFunc.uri
+                };
+            }
+        }
+
+        if (item) {
+            return [{
+                name: item.name,
+                kind: SymbolKind.Function,
+                uri: item.uri,
+                range: item.range,
+                selectionRange: item.selectionRange,
+                detail: 'tinderbox function'
+            }];
+        }
+        return null;
+    });
+
+    connection.languages.callHierarchy.onIncomingCalls(async (params) => {
+        const targetName = params.item.name;
+        const incomingCalls: CallHierarchyIncomingCall[] = [];
+        const callsByCaller = new Map<string, { name: string, uri: string, range: Range, fromRanges: Range[] }>();
+
+        for (const uri of workspaceFiles) {
+            const index = getFileIndex(uri);
+            if (!index) continue;
+            for (const call of index.calls) {
+                if (call.callee !== targetName) continue;
+                const caller = call.caller !== undefined ? index.symbols[call.caller] : undefined;
+                const key = caller ? `${uri}:${caller.location.range.start.line}:${caller.location.range.start.character}` : `${uri}:top`;
+                if (!callsByCaller.has(key)) {
+                    callsByCaller.set(key, {
+                        name: caller ? caller.name : 'top-level',
+                        uri,
+                        range: caller ? caller.location.range : Range.create(0, 0, 0, 0),
+                        fromRanges: []
+                    });
+                }
+                callsByCaller.get(key)!.fromRanges.push(call.range);
+            }
+        }
+
+        for (const callerInfo of callsByCaller.values()) {
+            incomingCalls.push({
+                from: {
+                    name: callerInfo.name,
+                    kind: SymbolKind.Function,
+                    uri: callerInfo.uri,
+                    range: callerInfo.range,
+                    selectionRange: callerInfo.range
+                },
+                fromRanges: callerInfo.fromRanges
+            });
+        }
+        return incomingCalls;
+    });
+
+    connection.languages.callHierarchy.onOutgoingCalls(async (params) => {
+        const item = params.item;
+        const outgoingCalls: CallHierarchyOutgoingCall[] = [];
+        const index = getFileIndex(item.uri);
+        if (!index) return null;
+        const callsByName = new Map<string, { uri: string, range: Range, selectionRange: Range, fromRanges: Range[] }>();
+
+        for (const call of index.calls) {
+            if (!rangeContains(item.range, call.range)) continue;
+            const targetName = call.callee;
+            let targetDef: { uri: string, range: Range, selectionRange: Range } | undefined;
+            const funcSym = index.symbols.find(s => s.name === targetName && s.kind === SymbolKind.Function);
+            if (funcSym) {
+                targetDef = { uri: item.uri, range: funcSym.location.range, selectionRange: funcSym.selectionRange };
+            } else {
+                const globalFunc = service.findFunction(targetName);
+                if (globalFunc) {
+                    targetDef = { uri: globalFunc.uri, range: globalFunc.symbol.location.range, selectionRange: globalFunc.symbol.selectionRange };
+                }
+            }
+            if (targetDef) {
+                if (!callsByName.has(targetName)) {
+                    callsByName.set(targetName, { uri: targetDef.uri, range: targetDef.range, selectionRange: targetDef.selectionRange, fromRanges: [] });
+                }
+                callsByName.get(targetName)!.fromRanges.push(call.range);
+            }
+        }
+        for (const [name, info] of callsByName.entries()) {
+            outgoingCalls.push({
+                to: { 
+                    name: name, 
+                    kind: SymbolKind.Function, 
+                    uri: info.uri, 
+                    range: info.range, 
+                    selectionRange: info.selectionRange || info.range 
+                },
+                fromRanges: info.fromRanges
+            });
+        }
+        return outgoingCalls;
+    });
+
+    // Make the text document manager listen on the connection
+    // for open, change and close text document events
+    documents.listen(connection);
+
+    // Listen on the connection
+    connection.listen();
+}
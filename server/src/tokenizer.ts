@@ -0,0 +1,111 @@
+export interface Token {
+    type: 'Comment' | 'String' | 'Number' | 'Keyword' | 'Identifier' | 'Operator' | 'Punctuation' | 'Whitespace' | 'ExportTag';
+    value: string;
+    start: number;
+    length: number;
+}
+
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+
+        // Whitespace
+        if (/\s/.test(char)) {
+            let start = i;
+            while (i < text.length && /\s/.test(text[i])) i++;
+            tokens.push({ type: 'Whitespace', value: text.substring(start, i), start, length: i - start });
+            continue;
+        }
+
+        // Comment
+        if (char === '/' && text[i + 1] === '/') {
+            let start = i;
+            while (i < text.length && text[i] !== '\n' && text[i] !== '\r') i++;
+            tokens.push({ type: 'Comment', value: text.substring(start, i), start, length: i - start });
+            continue;
+        }
+
+        // String
+        if (char === '"' || char === "'") {
+            let start = i;
+            let inString = char;
+            let isEscaped = false;
+            let terminated = false;
+            let firstNewline = -1;
+            i++;
+            while (i < text.length) {
+                if (isEscaped) {
+                    isEscaped = false;
+                } else if (text[i] === '\\') {
+                    isEscaped = true;
+                } else if (text[i] === inString) {
+                    i++;
+                    terminated = true;
+                    break;
+                } else if (text[i] === '\n' && firstNewline === -1) {
+                    firstNewline = i;
+                }
+                i++;
+            }
+            // Strings may span lines, but one that never closes should not swallow the rest of the file
+            if (!terminated && firstNewline !== -1) {
+                i = firstNewline;
+                if (text[i - 1] === '\r') i--;
+            }
+            tokens.push({ type: 'String', value: text.substring(start, i), start, length: i - start });
+            continue;
+        }
+
+        // Identifier (Variables, Attributes starting with $, functions, keywords)
+        if (/[a-zA-Z_$]/.test(char)) {
+            let start = i;
+            while (i < text.length && /[a-zA-Z0-9_$]/.test(text[i])) i++;
+            const val = text.substring(start, i);
+            let type: Token['type'] = 'Identifier';
+            if (['var', 'function', 'if', 'else', 'while', 'do', 'return', 'each', 'true', 'false'].includes(val)) {
+                type = 'Keyword';
+            }
+            tokens.push({ type, value: val, start, length: i - start });
+            continue;
+        }
+
+        // Number
+        if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(text[i + 1]))) {
+            let start = i;
+            if (char === '-') i++;
+            // A '.' not followed by a digit starts a dot operator, as in 3.14159.format(2)
+            while (i < text.length && (/[0-9]/.test(text[i]) || (text[i] === '.' && /[0-9]/.test(text[i + 1] ?? '')))) i++;
+            tokens.push({ type: 'Number', value: text.substring(start, i), start, length: i - start });
+            continue;
+        }
+
+        // Operators
+        const ops2 = ['==', '!=', '<=', '>=', '+=', '-=', '*=', '/='];
+        if (i + 1 < text.length && ops2.includes(text.substring(i, i + 2))) {
+            tokens.push({ type: 'Operator', value: text.substring(i, i + 2), start: i, length: 2 });
+            i += 2;
+            continue;
+        }
+        const ops1 = ['+', '-', '*', '/', '=', '<', '>', '&', '|', '!'];
+        if (ops1.includes(char)) {
+            tokens.push({ type: 'Operator', value: char, start: i, length: 1 });
+            i++;
+            continue;
+        }
+
+        // Punctuation
+        const punct = ['(', ')', '{', '}', '[', ']', ',', ';', ':', '.', '^'];
+        if (punct.includes(char)) {
+            tokens.push({ type: 'Punctuation', value: char, start: i, length: 1 });
+            i++;
+            continue;
+        }
+
+        // Unknown
+        tokens.push({ type: 'Identifier', value: char, start: i, length: 1 });
+        i++;
+    }
+    return tokens;
+}
@@ -0,0 +1,195 @@
+import { Range, SymbolKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI, Utils } from 'vscode-uri';
+import { tokenize } from './tokenizer';
+import { findTests } from './testing';
+import { GlobalSymbol, ACTION_CODE_LANGUAGE_ID, extractSymbolsFromText, isDeclaration } from './languageService';
+import { FileSystem } from './fileSystem';
+
+// --- Workspace Index ---
+// What the server knows about each action code file of the workspace: its symbols, the places where it
+// names a function and the calls its functions make. The index is kept in the extension's global storage
+// between sessions, in one file per workspace folder, so windows with other folders do not overwrite it and
+// folders that are no longer open do not weigh on it. An entry is reused while the file's mtime is unchanged,
+// and re-indexed only when the text's hash differs too, so a restart reads and tokenizes only the files that
+// were edited meanwhile.
+
+// Bump when entries change shape or are computed differently; an index of another version is discarded
+const INDEX_VERSION = 3;
+const INDEX_FILE_PREFIX = 'workspace-index-'; // Followed by the hash of the folder URI
+const SAVE_DELAY = 2000; // ms
+
+// A function name followed by '(': a call, or the name of a function declaration
+export interface FunctionReference {
+    name: string;
+    range: Range;
+    declaration: boolean;
+}
+
+export interface CallEdge {
+    caller?: number; // Index into symbols of the function the call is in; absent at the top level
+    callee: string;
+    range: Range; // The callee's name
+}
+
+export interface FileIndex {
+    symbols: GlobalSymbol[];
+    references: FunctionReference[];
+    calls: CallEdge[];
+}
+
+export interface IndexedFile extends FileIndex {
+    mtime: number; // ms, when the file was indexed
+    hash: string;
+}
+
+// FNV-1a over the UTF-16 code units, with the length; it only has to tell whether a file's text changed
+export function hashText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${text.length.toString(16)}-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+export function indexText(uri: string, text: string): FileIndex {
+    const doc = TextDocument.create(uri, ACTION_CODE_LANGUAGE_ID, 0, text);
+    const symbols = extractSymbolsFromText(text, uri, doc);
+    const functions = symbols
+        .map((symbol, index) => ({ symbol, index, start: doc.offsetAt(symbol.location.range.start), end: doc.offsetAt(symbol.location.range.end) }))
+        .filter(f => f.symbol.kind === SymbolKind.Function);
+
+    const references: FunctionReference[] = [];
+    const calls: CallEdge[] = [];
+    // inTest: the tokens are the expression of an `// @expect` line, which runs outside any function
+    const addReferences = (code: string, offset: number, inTest: boolean) => {
+        const tokens = tokenize(code);
+        for (let i = 0; i < tokens.length; i++) {
+            const t = tokens[i];
+            if (t.type !== 'Identifier') continue;
+            let next = i + 1;
+            while (next < tokens.length && tokens[next].type === 'Whitespace') next++;
+            if (next >= tokens.length || tokens[next].value !== '(') continue;
+
+            const start = offset + t.start;
+            const range = Range.create(doc.positionAt(start), doc.positionAt(start + t.length));
+            const declaration = !inTest && isDeclaration(tokens, i);
+            references.push({ name: t.value, range, declaration });
+            if (!declaration) {
+                // Symbols are sorted by position, so the last function containing the call is the innermost one
+                const caller = inTest ? undefined : functions.filter(f => start >= f.start && start + t.length <= f.end).pop();
+                calls.push({ caller: caller?.index, callee: t.value, range });
+            }
+        }
+    };
+    addReferences(text, 0, false);
+    // A function that only its tests call is still in use, and renaming it renames the calls in its tests too
+    for (const test of findTests(text)) {
+        test.expectations.forEach(expectation => addReferences(expectation.expression, expectation.start, true));
+    }
+    return { symbols, references, calls };
+}
+
+function folderPrefix(folderUri: string): string {
+    return folderUri.endsWith('/') ? folderUri : folderUri + '/';
+}
+
+export class WorkspaceIndex {
+    private readonly files = new Map<string, IndexedFile>(); // Key: file URI
+    private readonly indexUris = new Map<string, URI>(); // Key: workspace folder URI, Value: its index file
+    private saveTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(private readonly fileSystem: FileSystem) { }
+
+    // Reads the index of a workspace folder kept in the storage folder, which later changes to the folder's
+    // files are saved to. Without a storage folder (e.g. for tbx-lint) the index lives only as long as the server.
+    async load(storageUri: string | undefined, folderUri: string) {
+        if (!storageUri || this.indexUris.has(folderUri)) return;
+        const indexUri = Utils.joinPath(URI.parse(storageUri), `${INDEX_FILE_PREFIX}${hashText(folderUri)}.json`);
+        this.indexUris.set(folderUri, indexUri);
+        let stored: { version: number, files: { [uri: string]: IndexedFile } };
+        try {
+            stored = JSON.parse(await this.fileSystem.readFile(indexUri.toString()));
+        } catch {
+            return; // No index yet, or an unreadable one: every file is indexed again
+        }
+        if (stored.version !== INDEX_VERSION) return;
+        const prefix = folderPrefix(folderUri);
+        for (const [uri, file] of Object.entries(stored.files)) {
+            if (uri.startsWith(prefix)) this.files.set(uri, file);
+        }
+    }
+
+    // Forgets a folder that left the workspace. Its index file stays as it is, for when the folder is opened again.
+    unload(folderUri: string) {
+        this.indexUris.delete(folderUri);
+        const prefix = folderPrefix(folderUri);
+        const inOtherFolder = (uri: string) => Array.from(this.indexUris.keys()).some(folder => uri.startsWith(folderPrefix(folder)));
+        for (const uri of Array.from(this.files.keys())) {
+            if (uri.startsWith(prefix) && !inOtherFolder(uri)) this.files.delete(uri);
+        }
+    }
+
+    get(uri: string): IndexedFile | undefined {
+        return this.files.get(uri);
+    }
+
+    has(uri: string): boolean {
+        return this.files.has(uri);
+    }
+
+    // The entry of a file as it is on disk. The file is read only when its mtime changed since it was
+    // indexed, and indexed again only when its text changed as well. A file larger than maxSize bytes
+    // is not indexed and loses its entry.
+    async refresh(uri: string, maxSize = Infinity): Promise<IndexedFile | undefined> {
+        const { mtime, size } = await this.fileSystem.stat(uri);
+        if (size > maxSize) {
+            this.delete(uri);
+            return undefined;
+        }
+        const cached = this.files.get(uri);
+        if (cached && cached.mtime === mtime) return cached;
+
+        const text = await this.fileSystem.readFile(uri);
+        const hash = hashText(text);
+        const file = cached && cached.hash === hash ? { ...cached, mtime } : { ...indexText(uri, text), mtime, hash };
+        this.files.set(uri, file);
+        this.scheduleSave();
+        return file;
+    }
+
+    delete(uri: string) {
+        if (this.files.delete(uri)) this.scheduleSave();
+    }
+
+    // Forgets the files of a folder that a scan of it did not find, e.g. ones deleted while the server was not running
+    prune(folderUri: string, found: Set<string>) {
+        const prefix = folderPrefix(folderUri);
+        for (const uri of Array.from(this.files.keys())) {
+            if (uri.startsWith(prefix) && !found.has(uri)) this.delete(uri);
+        }
+    }
+
+    private scheduleSave() {
+        if (this.indexUris.size === 0) return;
+        if (this.saveTimeout) clearTimeout(this.saveTimeout);
+        this.saveTimeout = setTimeout(() => {
+            this.saveTimeout = undefined;
+            this.save().catch(() => { /* The index is rebuilt on the next start */ });
+        }, SAVE_DELAY);
+    }
+
+    // Each folder's index file holds the entries of the files in that folder
+    private async save() {
+        for (const [folderUri, indexUri] of this.indexUris) {
+            const prefix = folderPrefix(folderUri);
+            const files: { [uri: string]: IndexedFile } = {};
+            for (const [uri, file] of this.files) {
+                if (uri.startsWith(prefix)) files[uri] = file;
+            }
+            await this.fileSystem.createDirectory(Utils.dirname(indexUri).toString());
+            await this.fileSystem.writeFile(indexUri.toString(), JSON.stringify({ version: INDEX_VERSION, files }));
+        }
+    }
+}